@@ -3,35 +3,65 @@
  */
 
 import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch';
-import { db } from '@ivakit/database';
-import { FlowEngine, SessionManager } from '@ivakit/runtime';
-import { createAIService } from '@ivakit/ai';
+import { db, SqlSessionStorage, FlowVersionStore, SettingsStore } from '@ivakit/database';
+import { FlowEngine, SessionManager, HttpToolService, toolSecretsFromEnv } from '@ivakit/runtime';
+import type { SessionStorage, FlowService } from '@ivakit/runtime';
+import { createAIRegistry } from '@ivakit/ai';
+import type { AIRegistrySettings } from '@ivakit/ai';
+import { KnowledgeIngestor, KnowledgeSearchService } from '@ivakit/knowledge';
+import type { FlowDefinition } from '@ivakit/shared';
 
 // Create runtime services
-const sessionManager = new SessionManager();
-const aiService = createAIService();
+// SESSION_STORE=memory keeps sessions in-process (lost on restart)
+const sessionManager: SessionStorage = process.env.SESSION_STORE === 'memory'
+    ? new SessionManager()
+    : new SqlSessionStorage(db);
+// One adapter per provider, picked by each node's model.provider;
+// credentials come from the environment (OPENAI_API_KEY, ANTHROPIC_API_KEY, ...)
+// unless AI settings saved from the studio override them
+const aiService = createAIRegistry();
+const versions = new FlowVersionStore(db);
+const settingsStore = new SettingsStore(db);
 
-// Simple knowledge service (to be expanded)
-const knowledgeService = {
-    async search(options: { knowledgeBaseId: string; query: string; topK?: number; minScore?: number }) {
-        // Mock implementation - would integrate with vector search
+settingsStore.get<AIRegistrySettings>('ai')
+    .then((saved) => saved && aiService.configure(saved))
+    .catch((e) => console.error('Loading AI settings failed:', e));
+const ingestor = new KnowledgeIngestor(db);
+
+// Vector search over ingested documents, answers composed by the AI service
+const knowledgeService = new KnowledgeSearchService(db, { ai: aiService });
+
+// HTTP tool service; tools not defined on the flow come from the tools table
+const toolService = new HttpToolService({
+    async lookupTool(toolId) {
+        const tool = await db.query.tools.findFirst({
+            where: (t, { eq }) => eq(t.id, toolId),
+        });
+        if (!tool) return null;
         return {
-            results: [],
-            answer: "I don't have specific information about that in my knowledge base.",
-            confidence: 0.3,
-            grounded: false,
+            id: tool.id,
+            name: tool.name,
+            description: tool.description,
+            type: tool.type,
+            config: JSON.parse(tool.config),
+            inputSchema: JSON.parse(tool.inputSchema),
+            outputSchema: tool.outputSchema ? JSON.parse(tool.outputSchema) : undefined,
         };
     },
-};
+    // Only IVA_SECRET_* variables, as {{secrets.NAME}} in header and auth templates
+    secrets: toolSecretsFromEnv(process.env),
+});
 
-// Simple tool service (to be expanded)
-const toolService = {
-    async execute(options: { toolId: string; inputs: Record<string, unknown>; timeout?: number }) {
-        // Mock implementation - would make HTTP calls
-        return {
-            success: true,
-            output: { status: 'ok', message: 'Tool executed successfully' },
-        };
+// Flows invoked by subflow nodes
+const flowService: FlowService = {
+    get: resolveFlow,
+    async current(flowId) {
+        const published = await versions.latest(flowId);
+        if (published) {
+            return { definition: published.definition, version: published.version };
+        }
+        const draft = await resolveFlow(flowId);
+        return draft ? { definition: draft } : null;
     },
 };
 
@@ -41,18 +71,55 @@ const engine = new FlowEngine({
     knowledge: knowledgeService,
     tools: toolService,
     sessions: sessionManager,
+    flows: flowService,
 });
 
+// Resolve the flow definition a session runs on: its pinned published
+// version, or the working draft for sessions started before any publish
+async function resolveFlow(flowId: string, version?: number): Promise<FlowDefinition | null> {
+    if (version !== undefined) {
+        const snapshot = await versions.get(flowId, version);
+        return snapshot?.definition ?? null;
+    }
+    const flow = await db.query.flows.findFirst({
+        where: (f, { eq }) => eq(f.id, flowId),
+    });
+    return flow ? JSON.parse(flow.definition) : null;
+}
+
+// Sweep sessions whose collect_input timeout has expired
+const TIMEOUT_SWEEP_INTERVAL = Number(process.env.TIMEOUT_SWEEP_INTERVAL_MS) || 5000;
+setInterval(() => {
+    engine.tick(resolveFlow).catch((e) => console.error('Timeout sweep failed:', e));
+}, TIMEOUT_SWEEP_INTERVAL);
+
 export type Context = {
     db: typeof db;
     engine: typeof engine;
     sessionManager: typeof sessionManager;
+    ingestor: typeof ingestor;
+    knowledge: typeof knowledgeService;
+    ai: typeof aiService;
+    tools: typeof toolService;
+    versions: typeof versions;
+    settings: typeof settingsStore;
+    resolveFlow: typeof resolveFlow;
+    /** The request's `Authorization` header */
+    authorization: string | null;
 };
 
-export function createContext(opts: FetchCreateContextFnOptions): Context {
+export function createContext(opts?: FetchCreateContextFnOptions): Context {
     return {
         db,
         engine,
         sessionManager,
+        ingestor,
+        knowledge: knowledgeService,
+        ai: aiService,
+        tools: toolService,
+        versions,
+        settings: settingsStore,
+        resolveFlow,
+        authorization: opts?.req.headers.get('authorization') ?? null,
     };
 }
@@ -11,6 +11,7 @@ import { logger } from 'hono/logger';
 import { trpcServer } from '@hono/trpc-server';
 import { appRouter } from './router';
 import { createContext } from './context';
+import { createStreamRoutes } from './stream';
 
 const app = new Hono();
 
@@ -30,6 +31,7 @@ app.get('/api', (c) => c.json({
     version: '0.1.0',
     endpoints: {
         trpc: '/trpc',
+        stream: '/stream/sessions/{start,input}',
         health: '/health',
     },
 }));
@@ -40,6 +42,9 @@ app.use('/trpc/*', trpcServer({
     createContext,
 }));
 
+// Streaming turns (Server-Sent Events)
+app.route('/stream', createStreamRoutes(createContext));
+
 // Start server
 const port = Number(process.env.API_PORT) || 3001;
 
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { TRPCError } from '@trpc/server';
+import type { FlowDefinition, FlowNode } from '@ivakit/shared';
+import { FlowValidationError, checkPublishable } from './publish';
+
+function node(id: string, type: FlowNode['type'], config: Record<string, unknown> = {}): FlowNode {
+    return { id, type, name: id, position: { x: 0, y: 0 }, config } as FlowNode;
+}
+
+/** Calls a tool up to three times, then gives up */
+const retryFlow: FlowDefinition = {
+    version: '1.0',
+    id: 'retry',
+    name: 'Retry',
+    entryNode: 'start',
+    variables: [{ name: 'attempts', type: 'number', defaultValue: 0 }],
+    nodes: [
+        node('start', 'start'),
+        node('call', 'tool_call', {
+            toolId: 'orders',
+            inputs: {},
+            resultVariable: 'order',
+            onError: { action: 'goto', targetNodeId: 'count' },
+        }),
+        node('count', 'set_variable', { assignments: [{ variable: 'attempts', mode: 'expression', value: 'attempts + 1' }] }),
+        node('check', 'condition', {
+            conditions: [{ id: 'again', variable: 'attempts', operator: 'less_than', value: 3, targetNodeId: 'call' }],
+            defaultNodeId: 'end',
+        }),
+        node('end', 'end', { message: 'Done', status: 'completed' }),
+    ],
+    edges: [
+        { id: 'e1', source: 'start', target: 'call' },
+        { id: 'e2', source: 'call', target: 'end' },
+        { id: 'e3', source: 'count', target: 'check' },
+    ],
+    tools: [],
+    metadata: { createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+};
+
+/** The same loop without the condition's way out */
+const endlessFlow: FlowDefinition = {
+    ...retryFlow,
+    nodes: retryFlow.nodes.map(n => n.id === 'check'
+        ? node('check', 'condition', { ...n.config, defaultNodeId: 'call' })
+        : n),
+    edges: [...retryFlow.edges.slice(0, 1), retryFlow.edges[2]],
+};
+
+describe('checkPublishable', () => {
+    it('publishes a bounded retry loop, reporting it as a warning', () => {
+        const { analysis, errors } = checkPublishable('retry', retryFlow);
+
+        expect(errors).toEqual([]);
+        expect(analysis.diagnostics.find(d => d.rule === 'input_free_cycle')).toMatchObject({ severity: 'warning' });
+    });
+
+    it('refuses a loop with no way out and returns its diagnostics', () => {
+        let thrown: unknown;
+        try {
+            checkPublishable('retry', endlessFlow);
+        } catch (error) {
+            thrown = error;
+        }
+
+        expect(thrown).toBeInstanceOf(TRPCError);
+        expect((thrown as TRPCError).code).toBe('BAD_REQUEST');
+        const cause = (thrown as TRPCError).cause as FlowValidationError;
+        expect(cause.diagnostics.map(d => [d.rule, d.nodeId])).toContainEqual(['input_free_cycle', 'call']);
+    });
+
+    it('lets a forced publish through with its errors', () => {
+        const { errors } = checkPublishable('retry', endlessFlow, true);
+        expect(errors.map(d => d.rule)).toContain('input_free_cycle');
+    });
+});
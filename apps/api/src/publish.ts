@@ -0,0 +1,48 @@
+/**
+ * Publish Checks
+ *
+ * Decides whether a flow draft may be published: drafts that fail schema or
+ * flow validation are refused unless forced with a reason.
+ */
+
+import { TRPCError } from '@trpc/server';
+import { checkFlow } from '@ivakit/shared';
+import type { FlowAnalysis, FlowDiagnostic } from '@ivakit/shared';
+
+/**
+ * Thrown when a flow fails validation; its diagnostics are returned to the
+ * client in `error.data.diagnostics`
+ */
+export class FlowValidationError extends Error {
+    diagnostics: FlowDiagnostic[];
+
+    constructor(message: string, diagnostics: FlowDiagnostic[]) {
+        super(message);
+        this.name = 'FlowValidationError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+/**
+ * Check a draft before publishing. Returns its analysis and the errors a
+ * forced publish let through; without `force`, errors throw a BAD_REQUEST.
+ */
+export function checkPublishable(
+    flowId: string,
+    definition: unknown,
+    force = false
+): { analysis: FlowAnalysis; errors: FlowDiagnostic[] } {
+    const analysis = checkFlow(definition);
+    const errors = analysis.diagnostics.filter(d => d.severity === 'error');
+
+    if (errors.length > 0 && !force) {
+        const message = `Flow ${flowId} has ${errors.length} validation error(s)`;
+        throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message,
+            cause: new FlowValidationError(message, errors),
+        });
+    }
+
+    return { analysis, errors };
+}
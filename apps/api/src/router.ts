@@ -4,21 +4,61 @@
  * Type-safe API endpoints for IVAkit.
  */
 
-import { initTRPC } from '@trpc/server';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { initTRPC, TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import superjson from 'superjson';
-import { eq } from 'drizzle-orm';
+import { eq, and, gte, lte, sql } from 'drizzle-orm';
 import type { Context } from './context';
-import { flows, sessions, knowledgeBases, analyticsDaily } from '@ivakit/database';
-import { FlowDefinitionSchema } from '@ivakit/shared';
+import { startTurn, continueTurn } from './turns';
+import { FlowValidationError, checkPublishable } from './publish';
+import { flows, sessions, knowledgeBases, documents, analyticsDaily } from '@ivakit/database';
+import { FlowDefinitionSchema, ModelConfigSchema, diffFlows, emptyUsage, sumUsage } from '@ivakit/shared';
+import type { AIUsage } from '@ivakit/shared';
+import { createAIService } from '@ivakit/ai';
+import type { AIRegistrySettings } from '@ivakit/ai';
 
 const t = initTRPC.context<Context>().create({
     transformer: superjson,
+    errorFormatter({ shape, error }) {
+        return {
+            ...shape,
+            data: {
+                ...shape.data,
+                diagnostics: error.cause instanceof FlowValidationError ? error.cause.diagnostics : undefined,
+            },
+        };
+    },
 });
 
 const router = t.router;
 const publicProcedure = t.procedure;
 
+/**
+ * Simulator calls and AI settings spend or change the server's provider keys
+ * and tool secrets, so they need the studio token set in `STUDIO_TOKEN`;
+ * without one they are off
+ */
+const studioProcedure = publicProcedure.use(({ ctx, next }) => {
+    const token = process.env.STUDIO_TOKEN;
+    if (!token) {
+        throw new TRPCError({
+            code: 'FORBIDDEN',
+            message: 'Studio access is disabled; set STUDIO_TOKEN on the API server',
+        });
+    }
+    if (!sameSecret(ctx.authorization ?? '', `Bearer ${token}`)) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid or missing studio token' });
+    }
+    return next();
+});
+
+// Compares digests so the time taken doesn't reveal how much of a secret matched
+function sameSecret(given: string, expected: string): boolean {
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(given), digest(expected));
+}
+
 // ============================================================================
 // Flows Router
 // ============================================================================
@@ -46,52 +86,155 @@ const flowsRouter = router({
         }))
         .mutation(async ({ ctx, input }) => {
             const id = `flow_${Date.now()}`;
+            const now = new Date().toISOString();
             await ctx.db.insert(flows).values({
                 id,
                 name: input.name,
                 description: input.description,
-                definition: JSON.stringify(input.definition),
+                definition: JSON.stringify({ ...input.definition, id }),
                 status: 'draft',
+                createdAt: now,
+                updatedAt: now,
             });
-            return { id };
+            return { id, updatedAt: now };
         }),
 
-    // Update a flow
+    // Update a flow. Pass the `updatedAt` the client last saw as
+    // `expectedUpdatedAt` to reject the write if someone else saved since.
     update: publicProcedure
         .input(z.object({
             id: z.string(),
             name: z.string().optional(),
             description: z.string().optional(),
             definition: FlowDefinitionSchema.optional(),
+            expectedUpdatedAt: z.string().optional(),
         }))
         .mutation(async ({ ctx, input }) => {
+            const now = new Date().toISOString();
             const updates: Record<string, unknown> = {
-                updatedAt: new Date().toISOString(),
+                updatedAt: now,
             };
             if (input.name) updates.name = input.name;
             if (input.description) updates.description = input.description;
-            if (input.definition) updates.definition = JSON.stringify(input.definition);
+            if (input.definition) updates.definition = JSON.stringify({ ...input.definition, id: input.id });
+
+            const where = input.expectedUpdatedAt
+                ? and(eq(flows.id, input.id), eq(flows.updatedAt, input.expectedUpdatedAt))
+                : eq(flows.id, input.id);
+            const updated = await ctx.db.update(flows).set(updates).where(where).returning({ id: flows.id });
+
+            if (updated.length === 0) {
+                const existing = await ctx.db.query.flows.findFirst({
+                    where: (f, { eq }) => eq(f.id, input.id),
+                });
+                throw new TRPCError(existing
+                    ? { code: 'CONFLICT', message: `Flow ${input.id} was modified at ${existing.updatedAt}` }
+                    : { code: 'NOT_FOUND', message: `Flow ${input.id} not found` });
+            }
 
-            await ctx.db.update(flows).set(updates).where(eq(flows.id, input.id));
-            return { success: true };
+            return { success: true, updatedAt: now };
         }),
 
-    // Publish a flow
+    // Publish a flow: snapshot the current definition as a new immutable version.
+    // Flows that fail schema or flow validation are refused unless forced with a reason.
     publish: publicProcedure
+        .input(z.object({
+            id: z.string(),
+            changeNote: z.string().optional(),
+            createdBy: z.string().optional(),
+            force: z.boolean().optional(),
+            forceReason: z.string().trim().min(1).optional(),
+        }).refine(input => !input.force || input.forceReason, {
+            message: 'A forceReason is required to publish with force',
+            path: ['forceReason'],
+        }))
+        .mutation(async ({ ctx, input }) => {
+            const flow = await ctx.db.query.flows.findFirst({
+                where: (f, { eq }) => eq(f.id, input.id),
+            });
+            if (!flow) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: `Flow ${input.id} not found` });
+            }
+
+            const { analysis, errors } = checkPublishable(input.id, JSON.parse(flow.definition), input.force);
+
+            const version = await ctx.versions.publish(input.id, {
+                changeNote: input.changeNote,
+                createdBy: input.createdBy,
+                forceReason: errors.length > 0 ? input.forceReason : undefined,
+            });
+            // Publishing also stamps the flow row, so hand back its new updatedAt
+            return {
+                success: true,
+                version: version.version,
+                updatedAt: version.createdAt,
+                diagnostics: analysis.diagnostics,
+            };
+        }),
+
+    // List published versions, newest first
+    versions: publicProcedure
         .input(z.object({ id: z.string() }))
+        .query(async ({ ctx, input }) => {
+            return ctx.versions.list(input.id);
+        }),
+
+    // Get a published version with its definition
+    getVersion: publicProcedure
+        .input(z.object({ id: z.string(), version: z.number().int().positive() }))
+        .query(async ({ ctx, input }) => {
+            return ctx.versions.get(input.id, input.version);
+        }),
+
+    // Structural diff between two versions (omit `to` to compare against the draft)
+    diff: publicProcedure
+        .input(z.object({
+            id: z.string(),
+            from: z.number().int().positive(),
+            to: z.number().int().positive().optional(),
+        }))
+        .query(async ({ ctx, input }) => {
+            const from = await ctx.versions.get(input.id, input.from);
+            if (!from) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: `Flow ${input.id} has no version ${input.from}` });
+            }
+
+            const to = await ctx.resolveFlow(input.id, input.to);
+            if (!to) {
+                throw new TRPCError({
+                    code: 'NOT_FOUND',
+                    message: input.to === undefined
+                        ? `Flow ${input.id} not found`
+                        : `Flow ${input.id} has no version ${input.to}`,
+                });
+            }
+
+            return diffFlows(from.definition, to);
+        }),
+
+    // Roll back: republish an earlier version as a new version, keeping the draft
+    rollback: publicProcedure
+        .input(z.object({
+            id: z.string(),
+            version: z.number().int().positive(),
+            createdBy: z.string().optional(),
+        }))
         .mutation(async ({ ctx, input }) => {
-            await ctx.db.update(flows).set({
-                status: 'published',
-                publishedAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-            }).where(eq(flows.id, input.id));
-            return { success: true };
+            if (!await ctx.versions.get(input.id, input.version)) {
+                throw new TRPCError({ code: 'NOT_FOUND', message: `Flow ${input.id} has no version ${input.version}` });
+            }
+
+            const version = await ctx.versions.rollback(input.id, input.version, {
+                createdBy: input.createdBy,
+            });
+            return { success: true, version: version.version };
         }),
 
     // Delete a flow
     delete: publicProcedure
         .input(z.object({ id: z.string() }))
         .mutation(async ({ ctx, input }) => {
+            await ctx.versions.deleteAll(input.id);
             await ctx.db.delete(flows).where(eq(flows.id, input.id));
             return { success: true };
         }),
@@ -106,22 +249,13 @@ const sessionsRouter = router({
     start: publicProcedure
         .input(z.object({ flowId: z.string() }))
         .mutation(async ({ ctx, input }) => {
-            // Get flow definition
-            const flowResult = await ctx.db.select().from(flows).where(eq(flows.id, input.flowId));
-            const flow = flowResult[0];
-
-            if (!flow) {
-                throw new Error(`Flow ${input.flowId} not found`);
-            }
-
-            const definition = JSON.parse(flow.definition);
-            const session = await ctx.engine.startSession(definition);
+            const { session, messages } = await startTurn(ctx, input.flowId);
 
             return {
                 sessionId: session.id,
                 status: session.status,
                 currentNodeId: session.currentNodeId,
-                messages: [], // Would include initial messages
+                messages,
             };
         }),
 
@@ -133,20 +267,12 @@ const sessionsRouter = router({
             message: z.string(),
         }))
         .mutation(async ({ ctx, input }) => {
-            // Get flow definition
-            const flowResult = await ctx.db.select().from(flows).where(eq(flows.id, input.flowId));
-            const flow = flowResult[0];
-
-            if (!flow) {
-                throw new Error(`Flow ${input.flowId} not found`);
-            }
-
-            const definition = JSON.parse(flow.definition);
-            const session = await ctx.engine.processInput(definition, input.sessionId, input.message);
+            const { session, messages } = await continueTurn(ctx, input.sessionId, input.flowId, input.message);
 
             return {
                 status: session.status,
                 currentNodeId: session.currentNodeId,
+                messages,
                 history: session.history,
             };
         }),
@@ -158,6 +284,13 @@ const sessionsRouter = router({
             return ctx.engine.getSession(input.sessionId);
         }),
 
+    // Get the session transcript (user and assistant messages)
+    messages: publicProcedure
+        .input(z.object({ sessionId: z.string() }))
+        .query(async ({ ctx, input }) => {
+            return ctx.engine.getMessages(input.sessionId);
+        }),
+
     // End a session
     end: publicProcedure
         .input(z.object({ sessionId: z.string() }))
@@ -201,20 +334,61 @@ const knowledgeRouter = router({
             return { id };
         }),
 
+    // List documents in a knowledge base
+    documents: publicProcedure
+        .input(z.object({ knowledgeBaseId: z.string() }))
+        .query(async ({ ctx, input }) => {
+            return ctx.db.select({
+                id: documents.id,
+                name: documents.name,
+                type: documents.type,
+                size: documents.size,
+                uploadedAt: documents.uploadedAt,
+            }).from(documents).where(eq(documents.knowledgeBaseId, input.knowledgeBaseId));
+        }),
+
+    // Ingest a document (parse, chunk, embed and store)
+    ingest: publicProcedure
+        .input(z.object({
+            knowledgeBaseId: z.string(),
+            name: z.string().min(1),
+            type: z.enum(['txt', 'md', 'html']),
+            content: z.string().min(1),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return ctx.ingestor.ingestDocument(input);
+        }),
+
+    // Re-chunk and re-embed all documents in a knowledge base
+    reindex: publicProcedure
+        .input(z.object({ knowledgeBaseId: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            const docs = await ctx.ingestor.reindexKnowledgeBase(input.knowledgeBaseId);
+            return { documents: docs };
+        }),
+
+    // Delete a document and its chunks
+    deleteDocument: publicProcedure
+        .input(z.object({ documentId: z.string() }))
+        .mutation(async ({ ctx, input }) => {
+            await ctx.ingestor.deleteDocument(input.documentId);
+            return { success: true };
+        }),
+
     // Search a knowledge base
     search: publicProcedure
         .input(z.object({
             knowledgeBaseId: z.string(),
             query: z.string(),
             topK: z.number().optional(),
+            minScore: z.number().min(0).max(1).optional(),
+            retrievalMode: z.enum(['vector', 'keyword', 'hybrid']).optional(),
+            vectorWeight: z.number().min(0).max(1).optional(),
+            rerank: z.enum(['none', 'llm', 'cross_encoder']).optional(),
+            synthesize: z.boolean().optional(),
         }))
         .mutation(async ({ ctx, input }) => {
-            // Would integrate with vector search
-            return {
-                results: [],
-                answer: "Search result placeholder",
-                confidence: 0.5,
-            };
+            return ctx.knowledge.search(input);
         }),
 });
 
@@ -223,16 +397,20 @@ const knowledgeRouter = router({
 // ============================================================================
 
 const analyticsRouter = router({
-    // Get flow analytics
+    // Get flow analytics, optionally between two days (YYYY-MM-DD, inclusive)
     getFlowAnalytics: publicProcedure
         .input(z.object({
             flowId: z.string(),
-            startDate: z.string().optional(),
-            endDate: z.string().optional(),
+            startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+            endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
         }))
         .query(async ({ ctx, input }) => {
             const results = await ctx.db.select().from(analyticsDaily)
-                .where(eq(analyticsDaily.flowId, input.flowId));
+                .where(and(
+                    eq(analyticsDaily.flowId, input.flowId),
+                    input.startDate ? gte(analyticsDaily.date, input.startDate) : undefined,
+                    input.endDate ? lte(analyticsDaily.date, input.endDate) : undefined,
+                ));
 
             // Aggregate metrics
             const totals = results.reduce(
@@ -258,6 +436,34 @@ const analyticsRouter = router({
                 }
             );
 
+            // AI usage of conversations started on this flow in the same days,
+            // subflows included, summed per day by the database
+            const day = sql<string>`substr(${sessions.createdAt}, 1, 10)`;
+            const usageTotal = (field: keyof AIUsage) =>
+                sql<number>`coalesce(sum(json_extract(${sessions.usage}, ${`$.${field}`})), 0)`.mapWith(Number);
+            const dailyUsage = await ctx.db.select({
+                date: day,
+                sessions: sql<number>`count(*)`.mapWith(Number),
+                calls: usageTotal('calls'),
+                inputTokens: usageTotal('inputTokens'),
+                outputTokens: usageTotal('outputTokens'),
+                cost: usageTotal('cost'),
+            })
+                .from(sessions)
+                .where(and(
+                    eq(sessions.flowId, input.flowId),
+                    input.startDate ? gte(day, input.startDate) : undefined,
+                    input.endDate ? lte(day, input.endDate) : undefined,
+                ))
+                .groupBy(day)
+                .orderBy(day);
+
+            const usage = { ...emptyUsage(), sessions: 0 };
+            for (const row of dailyUsage) {
+                Object.assign(usage, sumUsage(usage, row));
+                usage.sessions += row.sessions;
+            }
+
             return {
                 flowId: input.flowId,
                 metrics: {
@@ -280,6 +486,16 @@ const analyticsRouter = router({
                     toolFailureRate: totals.toolCalls > 0
                         ? totals.toolFailures / totals.toolCalls
                         : 0,
+                    avgTokensPerConversation: usage.sessions > 0
+                        ? (usage.inputTokens + usage.outputTokens) / usage.sessions
+                        : 0,
+                    avgCostPerConversation: usage.sessions > 0
+                        ? usage.cost / usage.sessions
+                        : 0,
+                },
+                usage: {
+                    ...usage,
+                    daily: dailyUsage,
                 },
                 daily: results,
             };
@@ -299,6 +515,140 @@ const analyticsRouter = router({
     }),
 });
 
+// ============================================================================
+// Simulator Router
+// ============================================================================
+
+// The studio simulator runs flows in the browser but sends AI and tool calls
+// here, so provider keys stay on the server. Tools only come from the stored
+// flow or the tools table, never from the caller, so a request can't point a
+// tool carrying secrets at its own host.
+const simulatorRouter = router({
+    classify: studioProcedure
+        .input(z.object({
+            systemPrompt: z.string(),
+            userMessage: z.string(),
+            intents: z.array(z.object({
+                name: z.string(),
+                description: z.string(),
+                examples: z.array(z.string()).optional(),
+            })),
+            model: ModelConfigSchema.optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return ctx.ai.classify(input);
+        }),
+
+    generate: studioProcedure
+        .input(z.object({
+            systemPrompt: z.string(),
+            userMessage: z.string(),
+            history: z.array(z.object({
+                role: z.enum(['user', 'assistant']),
+                content: z.string(),
+            })).optional(),
+            model: ModelConfigSchema.optional(),
+            schema: z.record(z.unknown()).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            return ctx.ai.generate(input);
+        }),
+
+    executeTool: studioProcedure
+        .input(z.object({
+            flowId: z.string(),
+            toolId: z.string(),
+            inputs: z.record(z.unknown()),
+            timeout: z.number().positive().optional(),
+            retry: z.object({
+                maxAttempts: z.number().int().positive().max(10),
+                backoffMs: z.number().nonnegative(),
+            }).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+            // Tools defined on the saved flow; unsaved edits don't run here
+            const { flowId, ...options } = input;
+            const flow = await ctx.resolveFlow(flowId);
+            return ctx.tools.execute({ ...options, flowId, tools: flow?.tools });
+        }),
+});
+
+// ============================================================================
+// Settings Router
+// ============================================================================
+
+const AI_PROVIDER_NAMES = ['ollama', 'openai', 'anthropic'] as const;
+
+// An omitted API key keeps the saved one; an empty string removes it
+const ProviderSettingsInput = z.object({
+    baseUrl: z.string().url().optional(),
+    model: z.string().optional(),
+    apiKey: z.string().optional(),
+});
+
+const AISettingsInput = z.object({
+    defaultProvider: z.enum(AI_PROVIDER_NAMES),
+    providers: z.object({
+        ollama: ProviderSettingsInput.optional(),
+        openai: ProviderSettingsInput.optional(),
+        anthropic: ProviderSettingsInput.optional(),
+    }),
+});
+
+// Saved settings with the form's changes applied
+function mergeAISettings(saved: AIRegistrySettings, input: z.infer<typeof AISettingsInput>): AIRegistrySettings {
+    const providers: NonNullable<AIRegistrySettings['providers']> = {};
+    for (const name of AI_PROVIDER_NAMES) {
+        const { apiKey, ...settings } = input.providers[name] ?? {};
+        const key = apiKey === undefined ? saved.providers?.[name]?.apiKey : apiKey;
+        providers[name] = key ? { ...settings, apiKey: key } : settings;
+    }
+    return { defaultProvider: input.defaultProvider, providers };
+}
+
+// Settings as shown in the studio: API keys are only reported as set or not
+function describeAISettings(settings: AIRegistrySettings) {
+    return {
+        defaultProvider: settings.defaultProvider,
+        providers: Object.fromEntries(AI_PROVIDER_NAMES.map(name => {
+            const { apiKey, baseUrl, model } = settings.providers?.[name] ?? {};
+            return [name, { baseUrl, model, apiKeySet: Boolean(apiKey) }];
+        })) as Record<typeof AI_PROVIDER_NAMES[number], { baseUrl?: string; model?: string; apiKeySet: boolean }>,
+    };
+}
+
+const settingsRouter = router({
+    // AI provider settings; without saved ones, what the environment sets
+    getAI: studioProcedure.query(({ ctx }) => {
+        return describeAISettings(ctx.ai.current());
+    }),
+
+    // Save AI provider settings and apply them to new AI calls
+    updateAI: studioProcedure
+        .input(AISettingsInput)
+        .mutation(async ({ ctx, input }) => {
+            const settings = mergeAISettings(ctx.ai.current(), input);
+            await ctx.settings.set('ai', settings);
+            ctx.ai.configure(settings);
+            return describeAISettings(settings);
+        }),
+
+    // Check the selected provider answers with the form's settings, unsaved
+    testAI: studioProcedure
+        .input(AISettingsInput)
+        .mutation(async ({ ctx, input }) => {
+            const { providers } = mergeAISettings(ctx.ai.current(), input);
+            const provider = input.defaultProvider;
+            const adapter = createAIService({ ...providers?.[provider], provider });
+            try {
+                await adapter.generate({ systemPrompt: 'Reply with OK.', userMessage: 'ping' });
+                return { ok: true };
+            } catch (error) {
+                return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+        }),
+});
+
 // ============================================================================
 // Main Router
 // ============================================================================
@@ -308,6 +658,8 @@ export const appRouter = router({
     sessions: sessionsRouter,
     knowledge: knowledgeRouter,
     analytics: analyticsRouter,
+    simulator: simulatorRouter,
+    settings: settingsRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { FlowDefinition } from '@ivakit/shared';
+import { FlowEngine, SessionManager } from '@ivakit/runtime';
+import type { RuntimeServices } from '@ivakit/runtime';
+import type { Context } from './context';
+import { createStreamRoutes } from './stream';
+
+const flow: FlowDefinition = {
+    version: '1.0',
+    id: 'flow',
+    name: 'Greeting',
+    entryNode: 'start',
+    variables: [],
+    nodes: [
+        { id: 'start', type: 'start', name: 'Start', position: { x: 0, y: 0 }, config: {} },
+        { id: 'ask', type: 'collect_input', name: 'Ask', position: { x: 0, y: 100 }, config: { prompt: 'Name?', variableName: 'name' } },
+        { id: 'done', type: 'end', name: 'Done', position: { x: 0, y: 200 }, config: { message: 'Thanks {{name}}', status: 'completed' } },
+    ],
+    edges: [
+        { id: 'e1', source: 'start', target: 'ask' },
+        { id: 'e2', source: 'ask', target: 'done' },
+    ],
+    tools: [],
+    metadata: { createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+};
+
+/** Streaming routes over an engine running the draft of `flow` */
+function routes() {
+    const engine = new FlowEngine({
+        sessions: new SessionManager(),
+        ai: {},
+        knowledge: {},
+        tools: {},
+    } as unknown as RuntimeServices);
+
+    const ctx = {
+        engine,
+        versions: { latest: async () => null },
+        resolveFlow: async (flowId: string) => flowId === flow.id ? flow : null,
+    } as unknown as Context;
+
+    return { engine, app: createStreamRoutes(() => ctx) };
+}
+
+interface StreamedEvent {
+    event: string;
+    data: Record<string, unknown>;
+}
+
+async function post(app: ReturnType<typeof routes>['app'], path: string, body: unknown) {
+    return app.request(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+}
+
+/** Parse the `event:`/`data:` pairs of an SSE response */
+async function events(response: Response): Promise<StreamedEvent[]> {
+    return (await response.text()).split('\n\n').filter(Boolean).map(block => {
+        const fields = Object.fromEntries(block.split('\n').map(line => {
+            const colon = line.indexOf(':');
+            return [line.slice(0, colon), line.slice(colon + 1).trim()];
+        }));
+        return { event: fields.event, data: JSON.parse(fields.data) };
+    });
+}
+
+describe('streaming routes', () => {
+    it('streams the turn as it runs and ends with the turn result', async () => {
+        const { app } = routes();
+        const response = await post(app, '/sessions/start', { flowId: 'flow' });
+
+        expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+        const streamed = await events(response);
+        const names = streamed.map(e => e.event);
+
+        expect(names[0]).toBe('session_started');
+        expect(names.indexOf('message_sent')).toBeLessThan(names.indexOf('turn_completed'));
+        expect(streamed.at(-1)).toMatchObject({
+            event: 'turn_completed',
+            data: { status: 'waiting_input', currentNodeId: 'ask', messages: [{ role: 'assistant', content: 'Name?' }] },
+        });
+    });
+
+    it('only forwards events of its own session', async () => {
+        const { app, engine } = routes();
+        const { session } = await engine.startSession(flow);
+
+        // Another session starts while the streamed turn runs
+        let other: Promise<unknown> | undefined;
+        engine.on(event => {
+            if (event.type === 'input_received') other = engine.startSession(flow);
+        });
+
+        const streamed = await events(await post(app, '/sessions/input', { sessionId: session.id, flowId: 'flow', message: 'Ada' }));
+        await other;
+
+        expect(streamed.at(-1)).toMatchObject({ event: 'turn_completed', data: { status: 'completed' } });
+        expect(streamed.slice(0, -1).every(e => e.data.sessionId === session.id)).toBe(true);
+    });
+
+    it('ends with an error event when the turn fails', async () => {
+        const { app } = routes();
+        const streamed = await events(await post(app, '/sessions/input', { sessionId: 'missing', flowId: 'flow', message: 'Hi' }));
+
+        expect(streamed).toEqual([{ event: 'error', data: { message: 'Session missing not found' } }]);
+    });
+
+    it('rejects malformed requests before streaming', async () => {
+        const { app } = routes();
+        const response = await post(app, '/sessions/input', { sessionId: 'session' });
+
+        expect(response.status).toBe(400);
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Streaming Endpoints
+ *
+ * Runs session turns over Server-Sent Events, forwarding runtime events
+ * (node_started, message_delta, message_sent, ...) as they happen so clients
+ * can show typing indicators and progressive messages. Each stream ends with
+ * a `turn_completed` event carrying the same payload as the tRPC procedures,
+ * or an `error` event.
+ */
+
+import { Hono } from 'hono';
+import type { Context as HonoContext } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { z } from 'zod';
+import { generateId } from '@ivakit/shared';
+import type { TurnResult } from '@ivakit/runtime';
+import type { Context } from './context';
+import { startTurn, continueTurn } from './turns';
+
+const StartInputSchema = z.object({
+    flowId: z.string(),
+});
+
+const SessionInputSchema = z.object({
+    sessionId: z.string(),
+    flowId: z.string(),
+    message: z.string(),
+});
+
+/**
+ * Streaming routes; `createContext` builds the context each turn runs in
+ */
+export function createStreamRoutes(createContext: () => Context): Hono {
+    const routes = new Hono();
+
+    // Start a session and stream its first turn
+    routes.post('/sessions/start', async (c) => {
+        const parsed = StartInputSchema.safeParse(await c.req.json().catch(() => null));
+        if (!parsed.success) {
+            return c.json({ error: parsed.error.flatten() }, 400);
+        }
+
+        // Pick the ID up front so events can be filtered from the very first one
+        const sessionId = generateId('session');
+        return streamTurn(c, createContext(), sessionId, (ctx) => startTurn(ctx, parsed.data.flowId, { sessionId }));
+    });
+
+    // Send input to a session and stream the resulting turn
+    routes.post('/sessions/input', async (c) => {
+        const parsed = SessionInputSchema.safeParse(await c.req.json().catch(() => null));
+        if (!parsed.success) {
+            return c.json({ error: parsed.error.flatten() }, 400);
+        }
+
+        const { sessionId, flowId, message } = parsed.data;
+        return streamTurn(c, createContext(), sessionId, (ctx) => continueTurn(ctx, sessionId, flowId, message));
+    });
+
+    return routes;
+}
+
+/**
+ * Forward a session's runtime events while the turn runs
+ */
+function streamTurn(
+    c: HonoContext,
+    ctx: Context,
+    sessionId: string,
+    run: (ctx: Context) => Promise<TurnResult>
+): Response {
+    return streamSSE(c, async (stream) => {
+        // Engine handlers are synchronous; queue writes to keep events in order
+        let pending = Promise.resolve();
+        const send = (event: string, data: unknown) => {
+            pending = pending.then(() => stream.writeSSE({ event, data: JSON.stringify(data) }));
+        };
+
+        const unsubscribe = ctx.engine.on((event) => {
+            if (event.sessionId === sessionId) {
+                send(event.type, event);
+            }
+        });
+
+        try {
+            const { session, messages } = await run(ctx);
+            send('turn_completed', {
+                sessionId: session.id,
+                status: session.status,
+                currentNodeId: session.currentNodeId,
+                messages,
+            });
+        } catch (error) {
+            send('error', { message: error instanceof Error ? error.message : String(error) });
+        } finally {
+            unsubscribe();
+            await pending;
+        }
+    });
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import type { FlowDefinition } from '@ivakit/shared';
+import { FlowEngine, SessionManager } from '@ivakit/runtime';
+import type { RuntimeServices } from '@ivakit/runtime';
+import type { Context } from './context';
+import { continueTurn, startTurn } from './turns';
+
+function greeting(message: string): FlowDefinition {
+    return {
+        version: '1.0',
+        id: 'flow',
+        name: 'Greeting',
+        entryNode: 'start',
+        variables: [],
+        nodes: [
+            { id: 'start', type: 'start', name: 'Start', position: { x: 0, y: 0 }, config: {} },
+            { id: 'ask', type: 'collect_input', name: 'Ask', position: { x: 0, y: 100 }, config: { prompt: 'Name?', variableName: 'name' } },
+            { id: 'done', type: 'end', name: 'Done', position: { x: 0, y: 200 }, config: { message, status: 'completed' } },
+        ],
+        edges: [
+            { id: 'e1', source: 'start', target: 'ask' },
+            { id: 'e2', source: 'ask', target: 'done' },
+        ],
+        tools: [],
+        metadata: { createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+    };
+}
+
+/** A context whose flow has published versions and a separate draft */
+function context() {
+    const published = new Map<number, FlowDefinition>();
+    let draft = greeting('Draft {{name}}');
+
+    const engine = new FlowEngine({
+        sessions: new SessionManager(),
+        ai: {},
+        knowledge: {},
+        tools: {},
+    } as unknown as RuntimeServices);
+
+    const ctx = {
+        engine,
+        versions: {
+            async latest() {
+                const version = Math.max(0, ...published.keys());
+                return version ? { version, definition: published.get(version)! } : null;
+            },
+        },
+        async resolveFlow(_flowId: string, version?: number) {
+            return version === undefined ? draft : published.get(version) ?? null;
+        },
+    } as unknown as Context;
+
+    return {
+        ctx,
+        publish(definition: FlowDefinition) {
+            published.set(published.size + 1, definition);
+        },
+        editDraft(definition: FlowDefinition) {
+            draft = definition;
+        },
+    };
+}
+
+const reply = (turn: Awaited<ReturnType<typeof continueTurn>>) => turn.messages.map(m => m.content);
+
+describe('session turns', () => {
+    it('finishes a session on the version it started on after a new publish', async () => {
+        const { ctx, publish } = context();
+        publish(greeting('Hello {{name}}'));
+
+        const { session } = await startTurn(ctx, 'flow');
+        expect(session.flowVersion).toBe(1);
+
+        publish(greeting('Goodbye {{name}}'));
+        expect(reply(await continueTurn(ctx, session.id, 'flow', 'Ada'))).toEqual(['Hello Ada']);
+
+        const { session: next } = await startTurn(ctx, 'flow');
+        expect(reply(await continueTurn(ctx, next.id, 'flow', 'Ada'))).toEqual(['Goodbye Ada']);
+    });
+
+    it('runs the draft for flows that were never published', async () => {
+        const { ctx, editDraft } = context();
+
+        const { session } = await startTurn(ctx, 'flow');
+        expect(session.flowVersion).toBeUndefined();
+
+        editDraft(greeting('Edited {{name}}'));
+        expect(reply(await continueTurn(ctx, session.id, 'flow', 'Ada'))).toEqual(['Edited Ada']);
+    });
+
+    it('rejects unknown sessions', async () => {
+        const { ctx } = context();
+        await expect(continueTurn(ctx, 'missing', 'flow', 'Hi')).rejects.toThrow('Session missing not found');
+    });
+});
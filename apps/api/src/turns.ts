@@ -0,0 +1,50 @@
+/**
+ * Session Turns
+ *
+ * Starts and continues sessions on the flow version they are pinned to.
+ * Shared by the tRPC router and the streaming endpoints.
+ */
+
+import type { StartSessionOptions, TurnResult } from '@ivakit/runtime';
+import type { Context } from './context';
+
+/**
+ * Start a session on the latest published version, or the draft if never published
+ */
+export async function startTurn(
+    ctx: Context,
+    flowId: string,
+    options: Omit<StartSessionOptions, 'flowVersion'> = {}
+): Promise<TurnResult> {
+    const published = await ctx.versions.latest(flowId);
+    const definition = published?.definition ?? await ctx.resolveFlow(flowId);
+
+    if (!definition) {
+        throw new Error(`Flow ${flowId} not found`);
+    }
+
+    return ctx.engine.startSession(definition, { ...options, flowVersion: published?.version });
+}
+
+/**
+ * Send user input to a session, running the version it started on
+ * even if the flow was edited since
+ */
+export async function continueTurn(
+    ctx: Context,
+    sessionId: string,
+    flowId: string,
+    message: string
+): Promise<TurnResult> {
+    const session = await ctx.engine.getSession(sessionId);
+    if (!session) {
+        throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const definition = await ctx.resolveFlow(flowId, session.flowVersion);
+    if (!definition) {
+        throw new Error(`Flow ${flowId} not found`);
+    }
+
+    return ctx.engine.processInput(definition, sessionId, message);
+}
@@ -1,7 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
     reactStrictMode: true,
-    transpilePackages: ['@ivakit/shared'],
+    transpilePackages: ['@ivakit/shared', '@ivakit/runtime'],
     experimental: {
         serverComponentsExternalPackages: ['@libsql/client'],
     },
@@ -11,6 +11,8 @@ import {
     updateNodeDataAtom,
     deleteNodeAtom,
     duplicateNodeAtom,
+    flowListAtom,
+    refreshFlowListAtom,
     FlowNodeData,
 } from '@/store/flow-store';
 
@@ -193,12 +195,24 @@ export function ConfigPanel({ selectedNodeId, onClose }: ConfigPanelProps) {
                             onChange={updateLocalConfig}
                         />
                     )}
+                    {localData.type === 'slot_fill' && (
+                        <SlotFillNodeConfig
+                            config={localData.config}
+                            onChange={updateLocalConfig}
+                        />
+                    )}
                     {localData.type === 'llm_router' && (
                         <LLMRouterNodeConfig
                             config={localData.config}
                             onChange={updateLocalConfig}
                         />
                     )}
+                    {localData.type === 'llm_response' && (
+                        <LLMResponseNodeConfig
+                            config={localData.config}
+                            onChange={updateLocalConfig}
+                        />
+                    )}
                     {localData.type === 'knowledge_search' && (
                         <KnowledgeSearchNodeConfig
                             config={localData.config}
@@ -217,6 +231,18 @@ export function ConfigPanel({ selectedNodeId, onClose }: ConfigPanelProps) {
                             onChange={updateLocalConfig}
                         />
                     )}
+                    {localData.type === 'set_variable' && (
+                        <SetVariableNodeConfig
+                            config={localData.config}
+                            onChange={updateLocalConfig}
+                        />
+                    )}
+                    {localData.type === 'subflow' && (
+                        <SubflowNodeConfig
+                            config={localData.config}
+                            onChange={updateLocalConfig}
+                        />
+                    )}
                     {localData.type === 'escalate' && (
                         <EscalateNodeConfig
                             config={localData.config}
@@ -403,9 +429,36 @@ function CollectInputNodeConfig({ config, onChange }: NodeConfigProps) {
                     <option value="email">Email</option>
                     <option value="phone">Phone</option>
                     <option value="number">Number</option>
+                    <option value="date">Date</option>
                     <option value="regex">Custom Regex</option>
+                    <option value="custom">Custom Expression</option>
                 </select>
             </div>
+            {(config.validation as { type: string })?.type === 'regex' && (
+                <div>
+                    <label className="text-xs font-medium text-muted-foreground">Pattern</label>
+                    <input
+                        type="text"
+                        value={(config.validation as { pattern?: string }).pattern || ''}
+                        onChange={(e) => onChange('validation', { ...config.validation as object, pattern: e.target.value })}
+                        placeholder="^[A-Z]{2}\d{5}$"
+                        className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm outline-none focus:ring-1 focus:ring-ring"
+                    />
+                </div>
+            )}
+            {(config.validation as { type: string })?.type === 'custom' && (
+                <div>
+                    <label className="text-xs font-medium text-muted-foreground">Validator Expression</label>
+                    <input
+                        type="text"
+                        value={(config.validation as { customValidator?: string }).customValidator || ''}
+                        onChange={(e) => onChange('validation', { ...config.validation as object, customValidator: e.target.value })}
+                        placeholder="length(value) >= 3"
+                        className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm outline-none focus:ring-1 focus:ring-ring"
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground">The input is available as value</p>
+                </div>
+            )}
             <div>
                 <label className="text-xs font-medium text-muted-foreground">Timeout (seconds)</label>
                 <input
@@ -419,14 +472,157 @@ function CollectInputNodeConfig({ config, onChange }: NodeConfigProps) {
     );
 }
 
+interface SlotConfig {
+    name: string;
+    type: string;
+    prompt: string;
+    required?: boolean;
+    pattern?: string;
+    description?: string;
+}
+
+function SlotFillNodeConfig({ config, onChange }: NodeConfigProps) {
+    const slots = (config.slots as SlotConfig[]) || [];
+    const confirmation = config.confirmation as { message: string } | undefined;
+
+    const addSlot = () => {
+        onChange('slots', [...slots, { name: '', type: 'text', prompt: '' }]);
+    };
+
+    const updateSlot = (index: number, field: keyof SlotConfig, value: unknown) => {
+        const newSlots = [...slots];
+        newSlots[index] = { ...newSlots[index], [field]: value };
+        onChange('slots', newSlots);
+    };
+
+    const removeSlot = (index: number) => {
+        onChange('slots', slots.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Opening Prompt (optional)</label>
+                <textarea
+                    rows={2}
+                    value={(config.prompt as string) || ''}
+                    onChange={(e) => onChange('prompt', e.target.value || undefined)}
+                    placeholder="Defaults to the first slot's prompt"
+                    className="mt-1 w-full resize-none rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Slots</label>
+                <div className="mt-2 space-y-2">
+                    {slots.map((slot, i) => (
+                        <div key={i} className="rounded-lg bg-muted p-3 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={slot.name}
+                                    onChange={(e) => updateSlot(i, 'name', e.target.value)}
+                                    placeholder="variable"
+                                    className="flex-1 rounded bg-background px-2 py-1 font-mono text-sm outline-none"
+                                />
+                                <select
+                                    value={slot.type}
+                                    onChange={(e) => updateSlot(i, 'type', e.target.value)}
+                                    className="rounded bg-background px-2 py-1 text-sm outline-none"
+                                >
+                                    <option value="text">Text</option>
+                                    <option value="number">Number</option>
+                                    <option value="email">Email</option>
+                                    <option value="phone">Phone</option>
+                                    <option value="date">Date</option>
+                                    <option value="regex">Regex</option>
+                                </select>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    onClick={() => removeSlot(i)}
+                                >
+                                    <X className="h-3 w-3" />
+                                </Button>
+                            </div>
+                            <input
+                                type="text"
+                                value={slot.prompt}
+                                onChange={(e) => updateSlot(i, 'prompt', e.target.value)}
+                                placeholder="Question to ask when missing..."
+                                className="w-full rounded bg-background px-2 py-1 text-sm outline-none"
+                            />
+                            {slot.type === 'regex' && (
+                                <input
+                                    type="text"
+                                    value={slot.pattern || ''}
+                                    onChange={(e) => updateSlot(i, 'pattern', e.target.value)}
+                                    placeholder="([A-Z]{2}\d{5})"
+                                    className="w-full rounded bg-background px-2 py-1 font-mono text-sm outline-none"
+                                />
+                            )}
+                            <label className="flex cursor-pointer items-center gap-2">
+                                <input
+                                    type="checkbox"
+                                    checked={slot.required !== false}
+                                    onChange={(e) => updateSlot(i, 'required', e.target.checked ? undefined : false)}
+                                    className="rounded border-input"
+                                />
+                                <span className="text-xs">Required</span>
+                            </label>
+                        </div>
+                    ))}
+                    <Button variant="outline" size="sm" className="w-full gap-2" onClick={addSlot}>
+                        <Plus className="h-3 w-3" />
+                        Add Slot
+                    </Button>
+                </div>
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">LLM Extraction</label>
+                <label className="mt-2 flex cursor-pointer items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={!!config.llmExtraction}
+                        onChange={(e) => onChange('llmExtraction', e.target.checked || undefined)}
+                        className="rounded border-input"
+                    />
+                    <span className="text-sm">Use the LLM for values the parsers miss</span>
+                </label>
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Confirmation (optional)</label>
+                <textarea
+                    rows={2}
+                    value={confirmation?.message || ''}
+                    onChange={(e) => onChange('confirmation', e.target.value ? { ...confirmation, message: e.target.value } : undefined)}
+                    placeholder="Order {{order_id}} on {{date}}, is that right?"
+                    className="mt-1 w-full resize-none rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Max Attempts</label>
+                <input
+                    type="number"
+                    value={(config.maxAttempts as number) || 3}
+                    onChange={(e) => onChange('maxAttempts', parseInt(e.target.value) || 3)}
+                    min={1}
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">Replies in a row that fill nothing before the node fails</p>
+            </div>
+        </div>
+    );
+}
+
 function LLMRouterNodeConfig({ config, onChange }: NodeConfigProps) {
-    const intents = (config.intents as Array<{ name: string; description: string; targetNodeId: string }>) || [];
+    const intents = (config.intents as Array<{ name: string; description: string; examples?: string[]; targetNodeId: string }>) || [];
 
     const addIntent = () => {
         onChange('intents', [...intents, { name: '', description: '', targetNodeId: '' }]);
     };
 
-    const updateIntent = (index: number, field: string, value: string) => {
+    const updateIntent = (index: number, field: string, value: unknown) => {
         const newIntents = [...intents];
         newIntents[index] = { ...newIntents[index], [field]: value };
         onChange('intents', newIntents);
@@ -459,10 +655,12 @@ function LLMRouterNodeConfig({ config, onChange }: NodeConfigProps) {
                         <option value="openai">OpenAI</option>
                         <option value="anthropic">Anthropic</option>
                         <option value="rules">Rules (No AI)</option>
+                        <option value="embedding">Embedding (Local)</option>
                     </select>
                     <input
                         type="text"
-                        value={(config.model as { model: string })?.model || 'llama3.2'}
+                        value={(config.model as { model: string })?.model ||
+                            ((config.model as { provider: string })?.provider === 'embedding' ? 'local-hashing' : 'llama3.2')}
                         onChange={(e) => onChange('model', { ...config.model as object, model: e.target.value })}
                         className="rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
                     />
@@ -497,6 +695,13 @@ function LLMRouterNodeConfig({ config, onChange }: NodeConfigProps) {
                                 placeholder="Description..."
                                 className="w-full bg-transparent text-xs text-muted-foreground outline-none"
                             />
+                            <textarea
+                                rows={2}
+                                value={(intent.examples ?? []).join('\n')}
+                                onChange={(e) => updateIntent(i, 'examples', e.target.value ? e.target.value.split('\n') : undefined)}
+                                placeholder="Example messages, one per line..."
+                                className="w-full resize-none rounded bg-background px-2 py-1 text-xs outline-none"
+                            />
                         </div>
                     ))}
                     <Button variant="outline" size="sm" className="w-full gap-2" onClick={addIntent}>
@@ -525,6 +730,127 @@ function LLMRouterNodeConfig({ config, onChange }: NodeConfigProps) {
     );
 }
 
+function LLMResponseNodeConfig({ config, onChange }: NodeConfigProps) {
+    const [schemaText, setSchemaText] = useState(() =>
+        config.schema ? JSON.stringify(config.schema, null, 2) : ''
+    );
+    const [schemaError, setSchemaError] = useState<string | null>(null);
+
+    const updateSchema = (text: string) => {
+        setSchemaText(text);
+        if (!text.trim()) {
+            setSchemaError(null);
+            onChange('schema', undefined);
+            return;
+        }
+        try {
+            const parsed = JSON.parse(text);
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                setSchemaError('Schema must be a JSON object');
+                return;
+            }
+            setSchemaError(null);
+            onChange('schema', parsed);
+        } catch {
+            setSchemaError('Invalid JSON');
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">System Prompt</label>
+                <textarea
+                    rows={4}
+                    value={(config.systemPrompt as string) || ''}
+                    onChange={(e) => onChange('systemPrompt', e.target.value)}
+                    className="mt-1 w-full resize-none rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">User Message</label>
+                <input
+                    type="text"
+                    value={(config.userMessage as string) || ''}
+                    onChange={(e) => onChange('userMessage', e.target.value || undefined)}
+                    placeholder="Latest user message"
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">Use variables like {"{{order_id}}"}</p>
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">History Window</label>
+                <input
+                    type="number"
+                    value={(config.historyWindow as number) ?? 10}
+                    onChange={(e) => onChange('historyWindow', Math.max(0, parseInt(e.target.value) || 0))}
+                    min={0}
+                    max={50}
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+                <p className="mt-1 text-xs text-muted-foreground">Earlier messages sent with the prompt</p>
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Model</label>
+                <div className="mt-1 grid grid-cols-2 gap-2">
+                    <select
+                        value={(config.model as { provider: string })?.provider || 'ollama'}
+                        onChange={(e) => onChange('model', { ...config.model as object, provider: e.target.value })}
+                        className="rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                    >
+                        <option value="ollama">Ollama (Local)</option>
+                        <option value="openai">OpenAI</option>
+                        <option value="anthropic">Anthropic</option>
+                    </select>
+                    <input
+                        type="text"
+                        value={(config.model as { model: string })?.model || 'llama3.2'}
+                        onChange={(e) => onChange('model', { ...config.model as object, model: e.target.value })}
+                        className="rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                    />
+                </div>
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Output Schema (optional)</label>
+                <textarea
+                    rows={5}
+                    value={schemaText}
+                    onChange={(e) => updateSchema(e.target.value)}
+                    placeholder='{"type": "object", "properties": {"order_id": {"type": "string"}}}'
+                    className="mt-1 w-full resize-none rounded-md border border-input bg-background px-3 py-2 font-mono text-xs outline-none focus:ring-1 focus:ring-ring"
+                />
+                {schemaError ? (
+                    <p className="mt-1 text-xs text-red-500">{schemaError}</p>
+                ) : (
+                    <p className="mt-1 text-xs text-muted-foreground">Top-level properties are saved as variables</p>
+                )}
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Result Variable</label>
+                <input
+                    type="text"
+                    value={(config.resultVariable as string) || ''}
+                    onChange={(e) => onChange('resultVariable', e.target.value || undefined)}
+                    placeholder="llm_response"
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Send Message</label>
+                <label className="mt-2 flex cursor-pointer items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={(config.sendMessage as boolean | undefined) ?? !config.schema}
+                        onChange={(e) => onChange('sendMessage', e.target.checked)}
+                        className="rounded border-input"
+                    />
+                    <span className="text-sm">Send the response to the user</span>
+                </label>
+            </div>
+        </div>
+    );
+}
+
 function KnowledgeSearchNodeConfig({ config, onChange }: NodeConfigProps) {
     return (
         <div className="space-y-4">
@@ -560,6 +886,47 @@ function KnowledgeSearchNodeConfig({ config, onChange }: NodeConfigProps) {
                     className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
                 />
             </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Retrieval Mode</label>
+                <select
+                    value={(config.retrievalMode as string) || 'vector'}
+                    onChange={(e) => onChange('retrievalMode', e.target.value)}
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                >
+                    <option value="vector">Vector (semantic)</option>
+                    <option value="keyword">Keyword (BM25)</option>
+                    <option value="hybrid">Hybrid</option>
+                </select>
+            </div>
+            {config.retrievalMode === 'hybrid' && (
+                <div>
+                    <label className="text-xs font-medium text-muted-foreground">
+                        Vector Weight: {(config.vectorWeight as number) ?? 0.5}
+                    </label>
+                    <input
+                        type="range"
+                        value={(config.vectorWeight as number) ?? 0.5}
+                        onChange={(e) => onChange('vectorWeight', parseFloat(e.target.value))}
+                        min={0}
+                        max={1}
+                        step={0.1}
+                        className="mt-1 w-full"
+                    />
+                    <p className="mt-1 text-xs text-muted-foreground">Lower values favor exact keyword matches</p>
+                </div>
+            )}
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Rerank</label>
+                <select
+                    value={(config.rerank as string) || 'none'}
+                    onChange={(e) => onChange('rerank', e.target.value)}
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                >
+                    <option value="none">None</option>
+                    <option value="llm">LLM</option>
+                    <option value="cross_encoder">Cross-encoder</option>
+                </select>
+            </div>
         </div>
     );
 }
@@ -596,8 +963,8 @@ function ToolCallNodeConfig({ config, onChange }: NodeConfigProps) {
                 <label className="text-xs font-medium text-muted-foreground">Store Result In</label>
                 <input
                     type="text"
-                    value={(config.outputVariable as string) || ''}
-                    onChange={(e) => onChange('outputVariable', e.target.value)}
+                    value={(config.resultVariable as string) || ''}
+                    onChange={(e) => onChange('resultVariable', e.target.value)}
                     placeholder="tool_result"
                     className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm outline-none focus:ring-1 focus:ring-ring"
                 />
@@ -607,10 +974,13 @@ function ToolCallNodeConfig({ config, onChange }: NodeConfigProps) {
 }
 
 function ConditionNodeConfig({ config, onChange }: NodeConfigProps) {
-    const conditions = (config.conditions as Array<{ variable: string; operator: string; value: unknown; targetNodeId: string }>) || [];
+    const conditions = (config.conditions as Array<{ id: string; variable: string; operator: string; value: unknown; targetNodeId: string }>) || [];
 
     const addCondition = () => {
-        onChange('conditions', [...conditions, { variable: '', operator: 'eq', value: '', targetNodeId: '' }]);
+        onChange('conditions', [
+            ...conditions,
+            { id: `cond_${Date.now()}`, variable: '', operator: 'equals', value: '', targetNodeId: '' },
+        ]);
     };
 
     const updateCondition = (index: number, field: string, value: unknown) => {
@@ -643,13 +1013,19 @@ function ConditionNodeConfig({ config, onChange }: NodeConfigProps) {
                                     onChange={(e) => updateCondition(i, 'operator', e.target.value)}
                                     className="rounded bg-background px-2 py-1 text-sm outline-none"
                                 >
-                                    <option value="eq">=</option>
-                                    <option value="neq">≠</option>
-                                    <option value="gt">&gt;</option>
-                                    <option value="gte">≥</option>
-                                    <option value="lt">&lt;</option>
-                                    <option value="lte">≤</option>
+                                    <option value="equals">=</option>
+                                    <option value="not_equals">≠</option>
+                                    <option value="greater_than">&gt;</option>
+                                    <option value="greater_or_equal">≥</option>
+                                    <option value="less_than">&lt;</option>
+                                    <option value="less_or_equal">≤</option>
                                     <option value="contains">contains</option>
+                                    <option value="not_contains">not contains</option>
+                                    <option value="starts_with">starts with</option>
+                                    <option value="ends_with">ends with</option>
+                                    <option value="is_empty">is empty</option>
+                                    <option value="is_not_empty">is not empty</option>
+                                    <option value="matches_regex">matches</option>
                                 </select>
                                 <input
                                     type="text"
@@ -676,11 +1052,11 @@ function ConditionNodeConfig({ config, onChange }: NodeConfigProps) {
                 </div>
             </div>
             <div>
-                <label className="text-xs font-medium text-muted-foreground">Fallback Node ID</label>
+                <label className="text-xs font-medium text-muted-foreground">Default Node ID</label>
                 <input
                     type="text"
-                    value={(config.fallbackNodeId as string) || ''}
-                    onChange={(e) => onChange('fallbackNodeId', e.target.value)}
+                    value={(config.defaultNodeId as string) || ''}
+                    onChange={(e) => onChange('defaultNodeId', e.target.value)}
                     placeholder="node_id"
                     className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm outline-none focus:ring-1 focus:ring-ring"
                 />
@@ -689,6 +1065,219 @@ function ConditionNodeConfig({ config, onChange }: NodeConfigProps) {
     );
 }
 
+const ASSIGNMENT_PLACEHOLDERS: Record<string, string> = {
+    value: '0, true, "text" or JSON',
+    template: 'Hello {{name}}',
+    expression: 'attempts + 1',
+};
+
+function SetVariableNodeConfig({ config, onChange }: NodeConfigProps) {
+    const assignments = (config.assignments as Array<{ variable: string; mode: string; value: unknown }>) || [];
+
+    const addAssignment = () => {
+        onChange('assignments', [...assignments, { variable: '', mode: 'expression', value: '' }]);
+    };
+
+    const updateAssignment = (index: number, field: string, value: unknown) => {
+        const newAssignments = [...assignments];
+        newAssignments[index] = { ...newAssignments[index], [field]: value };
+        onChange('assignments', newAssignments);
+    };
+
+    const removeAssignment = (index: number) => {
+        onChange('assignments', assignments.filter((_, i) => i !== index));
+    };
+
+    // Literal values are entered as JSON so numbers and booleans keep their type
+    const updateValue = (index: number, mode: string, text: string) => {
+        if (mode !== 'value') return updateAssignment(index, 'value', text);
+        try {
+            updateAssignment(index, 'value', JSON.parse(text));
+        } catch {
+            updateAssignment(index, 'value', text);
+        }
+    };
+
+    const displayValue = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value) ?? '');
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Assignments</label>
+                <div className="mt-2 space-y-2">
+                    {assignments.map((assignment, i) => (
+                        <div key={i} className="rounded-lg bg-muted p-3 space-y-2">
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    value={assignment.variable}
+                                    onChange={(e) => updateAssignment(i, 'variable', e.target.value)}
+                                    placeholder="variable"
+                                    className="flex-1 rounded bg-background px-2 py-1 font-mono text-sm outline-none"
+                                />
+                                <select
+                                    value={assignment.mode}
+                                    onChange={(e) => updateAssignment(i, 'mode', e.target.value)}
+                                    className="rounded bg-background px-2 py-1 text-sm outline-none"
+                                >
+                                    <option value="value">Value</option>
+                                    <option value="template">Template</option>
+                                    <option value="expression">Expression</option>
+                                </select>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-6 w-6"
+                                    onClick={() => removeAssignment(i)}
+                                >
+                                    <X className="h-3 w-3" />
+                                </Button>
+                            </div>
+                            <input
+                                type="text"
+                                value={displayValue(assignment.value)}
+                                onChange={(e) => updateValue(i, assignment.mode, e.target.value)}
+                                placeholder={ASSIGNMENT_PLACEHOLDERS[assignment.mode]}
+                                className="w-full rounded bg-background px-2 py-1 font-mono text-sm outline-none"
+                            />
+                        </div>
+                    ))}
+                    <Button variant="outline" size="sm" className="w-full gap-2" onClick={addAssignment}>
+                        <Plus className="h-3 w-3" />
+                        Add Assignment
+                    </Button>
+                </div>
+                <p className="mt-2 text-xs text-muted-foreground">
+                    Applied in order. Expressions support + - * / %, comparisons, &amp;&amp; || ! and min, max, round, floor, ceil, abs, length, upper, lower, trim, number, string.
+                </p>
+            </div>
+        </div>
+    );
+}
+
+function SubflowNodeConfig({ config, onChange }: NodeConfigProps) {
+    const flowState = useAtomValue(flowStateAtom);
+    const flows = useAtomValue(flowListAtom);
+    const refreshFlows = useSetAtom(refreshFlowListAtom);
+
+    useEffect(() => {
+        refreshFlows().catch(() => undefined);
+    }, [refreshFlows]);
+
+    const flowId = (config.flowId as string) || '';
+    const callable = flows.filter(flow => flow.id !== flowState.flowId);
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Flow</label>
+                <select
+                    value={flowId}
+                    onChange={(e) => onChange('flowId', e.target.value)}
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                >
+                    <option value="">Select a saved flow…</option>
+                    {flowId && !callable.some(flow => flow.id === flowId) && (
+                        <option value={flowId}>{flowId}</option>
+                    )}
+                    {callable.map(flow => (
+                        <option key={flow.id} value={flow.id}>{flow.name}</option>
+                    ))}
+                </select>
+            </div>
+            <div>
+                <label className="text-xs font-medium text-muted-foreground">Version</label>
+                <input
+                    type="number"
+                    min={1}
+                    value={(config.version as number | undefined) ?? ''}
+                    onChange={(e) => onChange('version', e.target.value ? parseInt(e.target.value) : undefined)}
+                    placeholder="Latest published"
+                    className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm outline-none focus:ring-1 focus:ring-ring"
+                />
+            </div>
+            <VariableMappingEditor
+                label="Inputs"
+                description="Subflow variable ← expression over this flow's variables"
+                mapping={(config.inputs as Record<string, string>) || {}}
+                onChange={(inputs) => onChange('inputs', inputs)}
+            />
+            <VariableMappingEditor
+                label="Outputs"
+                description="This flow's variable ← expression over the subflow's variables"
+                mapping={(config.outputs as Record<string, string>) || {}}
+                onChange={(outputs) => onChange('outputs', outputs)}
+            />
+        </div>
+    );
+}
+
+function VariableMappingEditor({
+    label,
+    description,
+    mapping,
+    onChange,
+}: {
+    label: string;
+    description: string;
+    mapping: Record<string, string>;
+    onChange: (mapping: Record<string, string>) => void;
+}) {
+    const entries = Object.entries(mapping);
+
+    const updateEntry = (index: number, key: string, value: string) => {
+        const next = [...entries];
+        next[index] = [key, value];
+        onChange(Object.fromEntries(next));
+    };
+
+    return (
+        <div>
+            <label className="text-xs font-medium text-muted-foreground">{label}</label>
+            <p className="text-xs text-muted-foreground">{description}</p>
+            <div className="mt-2 space-y-2">
+                {entries.map(([key, value], i) => (
+                    <div key={i} className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={key}
+                            onChange={(e) => updateEntry(i, e.target.value, value)}
+                            placeholder="variable"
+                            className="w-28 rounded bg-muted px-2 py-1 font-mono text-sm outline-none"
+                        />
+                        <span className="text-xs text-muted-foreground">←</span>
+                        <input
+                            type="text"
+                            value={value}
+                            onChange={(e) => updateEntry(i, key, e.target.value)}
+                            placeholder="expression"
+                            className="flex-1 rounded bg-muted px-2 py-1 font-mono text-sm outline-none"
+                        />
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => onChange(Object.fromEntries(entries.filter((_, j) => j !== i)))}
+                        >
+                            <X className="h-3 w-3" />
+                        </Button>
+                    </div>
+                ))}
+                <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full gap-2"
+                    disabled={'' in mapping}
+                    onClick={() => onChange({ ...mapping, '': '' })}
+                >
+                    <Plus className="h-3 w-3" />
+                    Add Mapping
+                </Button>
+            </div>
+        </div>
+    );
+}
+
 function EscalateNodeConfig({ config, onChange }: NodeConfigProps) {
     return (
         <div className="space-y-4">
@@ -1,36 +1,35 @@
 'use client';
 
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Download, Upload, Copy, Check, FileJson, AlertCircle } from 'lucide-react';
-import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { useAtom, useSetAtom } from 'jotai';
 import { atom } from 'jotai';
 import { Button } from '@/components/ui/button';
 import { flowStateAtom, saveToHistoryAtom } from '@/store/flow-store';
+import { exportFlowDefinition, fromFlowDefinition, parseFlowDefinition, FlowValidationError } from '@/lib/flow-definition';
 
 // Export/Import modal state
 export const exportImportOpenAtom = atom<'export' | 'import' | null>(null);
 
 export function ExportImportModal() {
     const [mode, setMode] = useAtom(exportImportOpenAtom);
-    const flowState = useAtomValue(flowStateAtom);
+    const [flowState, setFlowState] = useAtom(flowStateAtom);
     const [importData, setImportData] = useState('');
     const [importError, setImportError] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
-    const [setFlowState] = useAtom(flowStateAtom);
     const saveToHistory = useSetAtom(saveToHistoryAtom);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const exportData = JSON.stringify({
-        version: '1.0',
-        exportedAt: new Date().toISOString(),
-        flow: {
-            id: flowState.flowId,
-            name: flowState.flowName,
-            nodes: flowState.nodes,
-            edges: flowState.edges,
+    const { exportData, exportError } = useMemo(() => {
+        if (mode !== 'export') return { exportData: '', exportError: null };
+
+        try {
+            return { exportData: JSON.stringify(exportFlowDefinition(flowState), null, 2), exportError: null };
+        } catch (error) {
+            return { exportData: '', exportError: formatFlowError(error) };
         }
-    }, null, 2);
+    }, [mode, flowState]);
 
     const handleCopy = useCallback(async () => {
         await navigator.clipboard.writeText(exportData);
@@ -68,27 +67,14 @@ export function ExportImportModal() {
 
     const handleImport = useCallback(() => {
         try {
-            const parsed = JSON.parse(importData);
-
-            // Validate structure
-            if (!parsed.flow || !parsed.flow.nodes || !parsed.flow.edges) {
-                throw new Error('Invalid flow format: missing nodes or edges');
-            }
-
-            if (!Array.isArray(parsed.flow.nodes) || !Array.isArray(parsed.flow.edges)) {
-                throw new Error('Invalid flow format: nodes and edges must be arrays');
-            }
+            const flow = parseFlowDefinition(JSON.parse(importData));
 
             // Save current state to history before importing
             saveToHistory();
 
-            // Import the flow
-            setFlowState((prev: typeof flowState) => ({
+            setFlowState(prev => ({
                 ...prev,
-                flowId: parsed.flow.id || `flow_${Date.now()}`,
-                flowName: parsed.flow.name || 'Imported Flow',
-                nodes: parsed.flow.nodes,
-                edges: parsed.flow.edges,
+                ...fromFlowDefinition(flow),
                 isDirty: true,
             }));
 
@@ -96,7 +82,7 @@ export function ExportImportModal() {
             setImportData('');
             setImportError(null);
         } catch (error) {
-            setImportError(error instanceof Error ? error.message : 'Invalid JSON format');
+            setImportError(formatFlowError(error));
         }
     }, [importData, saveToHistory, setFlowState, setMode]);
 
@@ -171,12 +157,19 @@ export function ExportImportModal() {
                                     </div>
 
                                     {/* Preview */}
-                                    <div>
-                                        <label className="mb-2 block text-sm font-medium">JSON Preview</label>
-                                        <pre className="max-h-64 overflow-auto rounded-lg bg-muted p-3 font-mono text-xs">
-                                            {exportData}
-                                        </pre>
-                                    </div>
+                                    {exportError ? (
+                                        <div className="flex items-start gap-2 rounded-lg bg-red-500/10 p-3 text-sm text-red-500">
+                                            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                                            <span className="whitespace-pre-line">{exportError}</span>
+                                        </div>
+                                    ) : (
+                                        <div>
+                                            <label className="mb-2 block text-sm font-medium">JSON Preview</label>
+                                            <pre className="max-h-64 overflow-auto rounded-lg bg-muted p-3 font-mono text-xs">
+                                                {exportData}
+                                            </pre>
+                                        </div>
+                                    )}
                                 </div>
                             ) : (
                                 <div className="space-y-4">
@@ -212,16 +205,16 @@ export function ExportImportModal() {
                                             setImportData(e.target.value);
                                             setImportError(null);
                                         }}
-                                        placeholder='{"version": "1.0", "flow": {...}}'
+                                        placeholder='{"version": "1.0", "id": "...", "nodes": [...], "edges": [...]}'
                                         rows={8}
                                         className="w-full resize-none rounded-lg border border-input bg-background p-3 font-mono text-xs outline-none focus:ring-1 focus:ring-ring"
                                     />
 
                                     {/* Error */}
                                     {importError && (
-                                        <div className="flex items-center gap-2 rounded-lg bg-red-500/10 p-3 text-sm text-red-500">
-                                            <AlertCircle className="h-4 w-4" />
-                                            {importError}
+                                        <div className="flex items-start gap-2 rounded-lg bg-red-500/10 p-3 text-sm text-red-500">
+                                            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                                            <span className="whitespace-pre-line">{importError}</span>
                                         </div>
                                     )}
                                 </div>
@@ -235,11 +228,11 @@ export function ExportImportModal() {
                             </Button>
                             {mode === 'export' ? (
                                 <>
-                                    <Button variant="outline" onClick={handleCopy} className="gap-2">
+                                    <Button variant="outline" onClick={handleCopy} disabled={!!exportError} className="gap-2">
                                         {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
                                         {copied ? 'Copied!' : 'Copy'}
                                     </Button>
-                                    <Button onClick={handleDownload} className="gap-2">
+                                    <Button onClick={handleDownload} disabled={!!exportError} className="gap-2">
                                         <Download className="h-4 w-4" />
                                         Download
                                     </Button>
@@ -261,3 +254,13 @@ export function ExportImportModal() {
         </AnimatePresence>
     );
 }
+
+function formatFlowError(error: unknown): string {
+    if (error instanceof FlowValidationError) {
+        return ['Invalid flow definition:', ...error.issues.map(issue => `• ${issue}`)].join('\n');
+    }
+    if (error instanceof SyntaxError) {
+        return 'Invalid JSON format';
+    }
+    return error instanceof Error ? error.message : 'Invalid flow';
+}
@@ -183,10 +183,14 @@ export function FlowBuilder({ onNodeSelect, selectedNodeId }: FlowBuilderProps)
                 start: { welcomeMessage: 'Hello! How can I help you today?' },
                 message: { message: '', delay: 0 },
                 collect_input: { variableName: 'user_input', validation: { type: 'text' }, timeout: { seconds: 60 } },
+                slot_fill: { slots: [{ name: '', type: 'text', prompt: '' }], maxAttempts: 3 },
                 llm_router: { systemPrompt: 'Classify the user intent.', intents: [], model: { provider: 'ollama', model: 'llama3.2' } },
+                llm_response: { systemPrompt: 'You are a helpful assistant.', historyWindow: 10, model: { provider: 'ollama', model: 'llama3.2' } },
                 knowledge_search: { knowledgeBaseId: '', query: '{{user_message}}' },
                 tool_call: { toolId: '', inputs: {} },
                 condition: { conditions: [], fallbackNodeId: '' },
+                set_variable: { assignments: [{ variable: '', mode: 'expression', value: '' }] },
+                subflow: { flowId: '', inputs: {}, outputs: {} },
                 escalate: { reason: '', queue: '' },
                 end: { message: 'Goodbye!', status: 'completed' },
             };
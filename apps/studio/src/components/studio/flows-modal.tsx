@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, FolderOpen, Plus, Trash2, RefreshCw, AlertCircle, Workflow } from 'lucide-react';
+import { useAtom, useAtomValue, useSetAtom } from 'jotai';
+import { atom } from 'jotai';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/toast-provider';
+import { cn } from '@/lib/utils';
+import {
+    flowStateAtom,
+    flowListAtom,
+    refreshFlowListAtom,
+    openFlowAtom,
+    newFlowAtom,
+    deleteFlowAtom,
+} from '@/store/flow-store';
+
+// Flows modal state
+export const flowsOpenAtom = atom<boolean>(false);
+
+export function FlowsModal() {
+    const [isOpen, setIsOpen] = useAtom(flowsOpenAtom);
+    const flowState = useAtomValue(flowStateAtom);
+    const flows = useAtomValue(flowListAtom);
+    const refreshFlows = useSetAtom(refreshFlowListAtom);
+    const openFlow = useSetAtom(openFlowAtom);
+    const newFlow = useSetAtom(newFlowAtom);
+    const deleteFlow = useSetAtom(deleteFlowAtom);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { addToast } = useToast();
+
+    const refresh = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            await refreshFlows();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load flows');
+        } finally {
+            setLoading(false);
+        }
+    }, [refreshFlows]);
+
+    useEffect(() => {
+        if (isOpen) refresh();
+    }, [isOpen, refresh]);
+
+    const confirmDiscard = () =>
+        !flowState.isDirty || window.confirm('Discard unsaved changes to the current flow?');
+
+    const handleOpen = useCallback(async (flowId: string, name: string) => {
+        if (!confirmDiscard()) return;
+        try {
+            await openFlow(flowId);
+            setIsOpen(false);
+            addToast({ type: 'success', title: 'Flow Opened', description: name });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to open flow');
+        }
+    }, [openFlow, setIsOpen, addToast, flowState.isDirty]);
+
+    const handleNew = useCallback(() => {
+        if (!confirmDiscard()) return;
+        newFlow();
+        setIsOpen(false);
+    }, [newFlow, setIsOpen, flowState.isDirty]);
+
+    const handleDelete = useCallback(async (flowId: string, name: string) => {
+        if (!window.confirm(`Delete "${name}" and all its published versions?`)) return;
+        try {
+            await deleteFlow(flowId);
+            addToast({ type: 'success', title: 'Flow Deleted', description: name });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to delete flow');
+        }
+    }, [deleteFlow, addToast]);
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        className="fixed inset-0 z-50 bg-black/60 backdrop-blur-sm"
+                        onClick={() => setIsOpen(false)}
+                    />
+
+                    {/* Modal */}
+                    <motion.div
+                        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+                        animate={{ opacity: 1, scale: 1, y: 0 }}
+                        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+                        transition={{ type: 'spring', duration: 0.3 }}
+                        className="fixed left-1/2 top-1/2 z-50 w-full max-w-xl -translate-x-1/2 -translate-y-1/2 rounded-xl border border-border bg-card shadow-2xl"
+                    >
+                        {/* Header */}
+                        <div className="flex items-center justify-between border-b border-border p-4">
+                            <div className="flex items-center gap-3">
+                                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-500 to-purple-600">
+                                    <FolderOpen className="h-5 w-5 text-white" />
+                                </div>
+                                <div>
+                                    <h2 className="text-lg font-semibold">Flows</h2>
+                                    <p className="text-sm text-muted-foreground">Open a saved flow or start a new one</p>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={refresh}
+                                    disabled={loading}
+                                    title="Refresh"
+                                >
+                                    <RefreshCw className={cn('h-4 w-4', loading && 'animate-spin')} />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    onClick={() => setIsOpen(false)}
+                                >
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+
+                        {/* Content */}
+                        <div className="max-h-96 space-y-2 overflow-auto p-4">
+                            {error && (
+                                <div className="flex items-center gap-2 rounded-lg bg-red-500/10 p-3 text-sm text-red-500">
+                                    <AlertCircle className="h-4 w-4" />
+                                    {error}
+                                </div>
+                            )}
+
+                            {!loading && !error && flows.length === 0 && (
+                                <p className="py-8 text-center text-sm text-muted-foreground">No saved flows yet</p>
+                            )}
+
+                            {flows.map(flow => (
+                                <div
+                                    key={flow.id}
+                                    onClick={() => handleOpen(flow.id, flow.name)}
+                                    className={cn(
+                                        'group flex cursor-pointer items-center gap-3 rounded-lg border border-border p-3 transition-colors hover:bg-muted/50',
+                                        flow.id === flowState.flowId && 'border-primary'
+                                    )}
+                                >
+                                    <Workflow className="h-8 w-8 text-muted-foreground" />
+                                    <div className="min-w-0 flex-1">
+                                        <p className="truncate font-medium">{flow.name}</p>
+                                        <p className="text-xs text-muted-foreground">
+                                            {flow.status === 'published' ? `v${flow.version} published` : 'Draft'}
+                                            {' • '}
+                                            Updated {new Date(flow.updatedAt).toLocaleString()}
+                                        </p>
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        className="h-8 w-8 opacity-0 group-hover:opacity-100"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDelete(flow.id, flow.name);
+                                        }}
+                                        title="Delete"
+                                    >
+                                        <Trash2 className="h-4 w-4 text-red-500" />
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+
+                        {/* Footer */}
+                        <div className="flex items-center justify-end gap-2 border-t border-border p-4">
+                            <Button variant="ghost" onClick={() => setIsOpen(false)}>
+                                Cancel
+                            </Button>
+                            <Button onClick={handleNew} className="gap-2">
+                                <Plus className="h-4 w-4" />
+                                New Flow
+                            </Button>
+                        </div>
+                    </motion.div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -64,6 +64,7 @@ export function HelpModal() {
                                 <div className="grid grid-cols-2 gap-4">
                                     <ShortcutGroup title="General">
                                         <Shortcut keys={['Ctrl', 'S']} action="Save flow" />
+                                        <Shortcut keys={['Ctrl', 'O']} action="Open flow" />
                                         <Shortcut keys={['Ctrl', 'Z']} action="Undo" />
                                         <Shortcut keys={['Ctrl', 'Shift', 'Z']} action="Redo" />
                                         <Shortcut keys={['?']} action="Show help" />
@@ -128,7 +129,7 @@ export function HelpModal() {
                                 title="Tips"
                             >
                                 <div className="space-y-2 text-sm text-muted-foreground">
-                                    <p>• Use <code className="rounded bg-muted px-1">{"{{variable}}"}</code> syntax to interpolate variables in messages</p>
+                                    <p>• Use <code className="rounded bg-muted px-1">{"{{variable}}"}</code> syntax to interpolate variables, with paths like <code className="rounded bg-muted px-1">{"{{order.items[0].name}}"}</code> and filters like <code className="rounded bg-muted px-1">{'{{name | default:"there"}}'}</code></p>
                                     <p>• The LLM Router supports keyword fallback when AI is unavailable</p>
                                     <p>• Export flows as JSON to share or version control</p>
                                     <p>• Use the simulator to test your flow before publishing</p>
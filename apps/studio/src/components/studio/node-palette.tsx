@@ -11,7 +11,11 @@ import {
     PhoneForwarded,
     Flag,
     Search,
-    GripVertical
+    GripVertical,
+    Variable,
+    Sparkles,
+    ListChecks,
+    Workflow
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
@@ -23,6 +27,8 @@ const nodeCategories = [
             { type: 'start', label: 'Start', icon: Play, color: 'text-emerald-500', description: 'Entry point of the flow' },
             { type: 'end', label: 'End', icon: Flag, color: 'text-gray-500', description: 'Terminates the conversation' },
             { type: 'condition', label: 'Condition', icon: GitBranch, color: 'text-orange-500', description: 'If/else branching logic' },
+            { type: 'set_variable', label: 'Set Variable', icon: Variable, color: 'text-teal-500', description: 'Assign, template or compute variables' },
+            { type: 'subflow', label: 'Subflow', icon: Workflow, color: 'text-indigo-500', description: 'Run another saved flow and return' },
         ],
     },
     {
@@ -30,6 +36,7 @@ const nodeCategories = [
         nodes: [
             { type: 'message', label: 'Message', icon: MessageSquare, color: 'text-blue-500', description: 'Send a static or templated message' },
             { type: 'collect_input', label: 'Collect Input', icon: Keyboard, color: 'text-violet-500', description: 'Wait for user input with validation' },
+            { type: 'slot_fill', label: 'Slot Fill', icon: ListChecks, color: 'text-fuchsia-500', description: 'Collect several typed values at once' },
             { type: 'escalate', label: 'Escalate', icon: PhoneForwarded, color: 'text-red-500', description: 'Hand off to human agent' },
         ],
     },
@@ -37,6 +44,7 @@ const nodeCategories = [
         name: 'AI & Intelligence',
         nodes: [
             { type: 'llm_router', label: 'LLM Router', icon: Brain, color: 'text-amber-500', description: 'AI-powered intent classification' },
+            { type: 'llm_response', label: 'LLM Response', icon: Sparkles, color: 'text-yellow-500', description: 'Generate a reply or structured data' },
             { type: 'knowledge_search', label: 'Knowledge Search', icon: Database, color: 'text-cyan-500', description: 'RAG retrieval from knowledge base' },
         ],
     },
@@ -12,7 +12,11 @@ import {
     Wrench,
     GitBranch,
     PhoneForwarded,
-    Flag
+    Flag,
+    Variable,
+    Workflow,
+    Sparkles,
+    ListChecks
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -40,12 +44,24 @@ const nodeConfig: Record<string, {
         borderColor: 'border-violet-500',
         label: 'Collect Input',
     },
+    slot_fill: {
+        icon: <ListChecks className="h-4 w-4" />,
+        color: 'bg-fuchsia-500/20',
+        borderColor: 'border-fuchsia-500',
+        label: 'Slot Fill',
+    },
     llm_router: {
         icon: <Brain className="h-4 w-4" />,
         color: 'bg-amber-500/20',
         borderColor: 'border-amber-500',
         label: 'LLM Router',
     },
+    llm_response: {
+        icon: <Sparkles className="h-4 w-4" />,
+        color: 'bg-yellow-500/20',
+        borderColor: 'border-yellow-500',
+        label: 'LLM Response',
+    },
     knowledge_search: {
         icon: <Database className="h-4 w-4" />,
         color: 'bg-cyan-500/20',
@@ -64,6 +80,18 @@ const nodeConfig: Record<string, {
         borderColor: 'border-orange-500',
         label: 'Condition',
     },
+    set_variable: {
+        icon: <Variable className="h-4 w-4" />,
+        color: 'bg-teal-500/20',
+        borderColor: 'border-teal-500',
+        label: 'Set Variable',
+    },
+    subflow: {
+        icon: <Workflow className="h-4 w-4" />,
+        color: 'bg-indigo-500/20',
+        borderColor: 'border-indigo-500',
+        label: 'Subflow',
+    },
     escalate: {
         icon: <PhoneForwarded className="h-4 w-4" />,
         color: 'bg-red-500/20',
@@ -173,6 +201,19 @@ function FlowNodeComponent({ data, selected }: NodeProps<FlowNodeData>) {
                     </div>
                 )}
 
+                {data.type === 'slot_fill' && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                        {((data.config.slots as Array<{ name: string; required?: boolean }>) || []).slice(0, 4).map((slot, i) => (
+                            <span
+                                key={i}
+                                className="rounded bg-fuchsia-500/20 px-1.5 py-0.5 font-mono text-xs text-fuchsia-400"
+                            >
+                                {slot.name || '?'}{slot.required === false ? '?' : ''}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
                 {data.type === 'llm_router' && (
                     <div className="mt-2 flex flex-wrap gap-1">
                         {((data.config.intents as Array<{ name: string }>) || []).slice(0, 3).map((intent, i) => (
@@ -186,6 +227,19 @@ function FlowNodeComponent({ data, selected }: NodeProps<FlowNodeData>) {
                     </div>
                 )}
 
+                {data.type === 'llm_response' && (
+                    <div className="mt-2 flex flex-wrap gap-1">
+                        <span className="rounded bg-yellow-500/20 px-1.5 py-0.5 text-xs text-yellow-400">
+                            {data.config.schema ? 'structured' : 'reply'}
+                        </span>
+                        {!!data.config.resultVariable && (
+                            <span className="rounded bg-yellow-500/20 px-1.5 py-0.5 font-mono text-xs text-yellow-400">
+                                ${`{${data.config.resultVariable}}`}
+                            </span>
+                        )}
+                    </div>
+                )}
+
                 {data.type === 'knowledge_search' && data.config.knowledgeBaseId && (
                     <div className="mt-2">
                         <span className="rounded bg-cyan-500/20 px-1.5 py-0.5 font-mono text-xs text-cyan-400">
@@ -202,6 +256,24 @@ function FlowNodeComponent({ data, selected }: NodeProps<FlowNodeData>) {
                     </div>
                 )}
 
+                {data.type === 'set_variable' && (
+                    <div className="mt-2 space-y-0.5">
+                        {((data.config.assignments as Array<{ variable: string; value: unknown }>) || []).slice(0, 3).map((assignment, i) => (
+                            <p key={i} className="truncate font-mono text-xs text-teal-400">
+                                {assignment.variable || '?'} = {typeof assignment.value === 'string' ? assignment.value : JSON.stringify(assignment.value)}
+                            </p>
+                        ))}
+                    </div>
+                )}
+
+                {data.type === 'subflow' && !!data.config.flowId && (
+                    <div className="mt-2">
+                        <span className="rounded bg-indigo-500/20 px-1.5 py-0.5 font-mono text-xs text-indigo-400">
+                            ↪ {data.config.flowId as string}{data.config.version ? ` v${data.config.version}` : ''}
+                        </span>
+                    </div>
+                )}
+
                 {data.type === 'escalate' && data.config.reason && (
                     <div className="mt-2 rounded bg-red-500/10 px-2 py-1">
                         <p className="line-clamp-1 text-xs text-red-400">
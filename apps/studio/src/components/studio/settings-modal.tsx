@@ -1,11 +1,14 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAtom } from 'jotai';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Server, Brain, Key, Palette, Save, RotateCcw, Eye, EyeOff, Check, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { settingsAtom, settingsOpenAtom } from '@/store/flow-store';
+import { DEFAULT_API_URL } from '@/lib/api';
+import { getAISettings, updateAISettings, testAISettings } from '@/lib/settings';
+import type { AIProviderName, AISettingsInput } from '@/lib/settings';
 
 const AI_PROVIDERS = [
     { id: 'ollama', name: 'Ollama (Local)', description: 'Free, runs on your machine', icon: '🏠' },
@@ -26,18 +29,91 @@ const ANTHROPIC_MODELS = [
     { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', description: 'Fast and affordable' },
 ];
 
+// AI provider form; settings are saved on the API server, not in the browser
+const DEFAULT_AI_FORM = {
+    defaultProvider: 'ollama' as AIProviderName,
+    ollamaUrl: 'http://localhost:11434',
+    ollamaModel: 'llama3.2',
+    openaiModel: 'gpt-4o',
+    anthropicModel: 'claude-3-sonnet-20240229',
+};
+
+type ConnectionStatus = 'idle' | 'success' | 'error';
+
 export function SettingsModal() {
     const [isOpen, setIsOpen] = useAtom(settingsOpenAtom);
     const [settings, setSettings] = useAtom(settingsAtom);
-    const [showApiKey, setShowApiKey] = useState(false);
     const [testingConnection, setTestingConnection] = useState(false);
-    const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
+    const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle');
+
+    const [aiForm, setAIForm] = useState(DEFAULT_AI_FORM);
+    // Typed keys only: undefined keeps the saved key, '' removes it
+    const [apiKeys, setApiKeys] = useState<Partial<Record<AIProviderName, string>>>({});
+    const [apiKeySet, setApiKeySet] = useState<Partial<Record<AIProviderName, boolean>>>({});
+    const [aiLoaded, setAILoaded] = useState(false);
+    const [aiError, setAIError] = useState<string | null>(null);
+    const [showApiKey, setShowApiKey] = useState(false);
+    const [testingAI, setTestingAI] = useState(false);
+    const [aiStatus, setAIStatus] = useState<ConnectionStatus>('idle');
+    const [saving, setSaving] = useState(false);
+
+    const apiUrl = settings.apiUrl || DEFAULT_API_URL;
+
+    const loadAISettings = async () => {
+        try {
+            const saved = await getAISettings(apiUrl, settings.studioToken);
+            const provider = AI_PROVIDERS.find(p => p.id === saved.defaultProvider)?.id;
+            setAIForm({
+                defaultProvider: provider ?? DEFAULT_AI_FORM.defaultProvider,
+                ollamaUrl: saved.providers.ollama.baseUrl || DEFAULT_AI_FORM.ollamaUrl,
+                ollamaModel: saved.providers.ollama.model || DEFAULT_AI_FORM.ollamaModel,
+                openaiModel: saved.providers.openai.model || DEFAULT_AI_FORM.openaiModel,
+                anthropicModel: saved.providers.anthropic.model || DEFAULT_AI_FORM.anthropicModel,
+            });
+            setApiKeySet({
+                ollama: saved.providers.ollama.apiKeySet,
+                openai: saved.providers.openai.apiKeySet,
+                anthropic: saved.providers.anthropic.apiKeySet,
+            });
+            setApiKeys({});
+            setAILoaded(true);
+            setAIError(null);
+        } catch (error) {
+            setAILoaded(false);
+            setAIError(error instanceof Error ? error.message : 'Could not load AI settings');
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) loadAISettings();
+        // Reloaded when the modal opens or the server connection is tested
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
 
     const updateSetting = <K extends keyof typeof settings>(key: K, value: typeof settings[K]) => {
         setSettings({ ...settings, [key]: value });
         setConnectionStatus('idle');
     };
 
+    const updateAIForm = <K extends keyof typeof aiForm>(key: K, value: typeof aiForm[K]) => {
+        setAIForm({ ...aiForm, [key]: value });
+        setAIStatus('idle');
+    };
+
+    const updateApiKey = (provider: AIProviderName, value: string | undefined) => {
+        setApiKeys({ ...apiKeys, [provider]: value });
+        setAIStatus('idle');
+    };
+
+    const aiInput = (): AISettingsInput => ({
+        defaultProvider: aiForm.defaultProvider,
+        providers: {
+            ollama: { baseUrl: aiForm.ollamaUrl || undefined, model: aiForm.ollamaModel || undefined },
+            openai: { model: aiForm.openaiModel, apiKey: apiKeys.openai },
+            anthropic: { model: aiForm.anthropicModel, apiKey: apiKeys.anthropic },
+        },
+    });
+
     const resetToDefaults = () => {
         setSettings({
             theme: 'dark',
@@ -47,47 +123,23 @@ export function SettingsModal() {
             gridSize: 15,
             showMinimap: true,
             showControls: true,
-            aiProvider: 'ollama',
-            ollamaUrl: 'http://localhost:11434',
-            ollamaModel: 'llama3.2',
-            openaiApiKey: '',
-            openaiModel: 'gpt-4o',
-            anthropicApiKey: '',
-            anthropicModel: 'claude-3-sonnet-20240229',
+            apiUrl: 'http://localhost:3001',
+            studioToken: '',
         });
+        setAIForm(DEFAULT_AI_FORM);
         setConnectionStatus('idle');
+        setAIStatus('idle');
     };
 
+    // The simulator's AI and tool calls go through the API server
     const testConnection = async () => {
         setTestingConnection(true);
         setConnectionStatus('idle');
 
         try {
-            if (settings.aiProvider === 'ollama') {
-                // Test Ollama connection
-                const response = await fetch(`${settings.ollamaUrl}/api/tags`, {
-                    method: 'GET',
-                });
-                if (response.ok) {
-                    setConnectionStatus('success');
-                } else {
-                    setConnectionStatus('error');
-                }
-            } else if (settings.aiProvider === 'openai') {
-                // Test OpenAI API key (just check format for now)
-                if (settings.openaiApiKey?.startsWith('sk-')) {
-                    setConnectionStatus('success');
-                } else {
-                    setConnectionStatus('error');
-                }
-            } else if (settings.aiProvider === 'anthropic') {
-                // Test Anthropic API key (just check format for now)
-                if (settings.anthropicApiKey?.startsWith('sk-ant-')) {
-                    setConnectionStatus('success');
-                } else {
-                    setConnectionStatus('error');
-                }
-            }
+            const response = await fetch(`${apiUrl}/health`);
+            setConnectionStatus(response.ok ? 'success' : 'error');
+            if (response.ok) await loadAISettings();
         } catch {
             setConnectionStatus('error');
         }
@@ -95,17 +147,86 @@ export function SettingsModal() {
         setTestingConnection(false);
     };
 
-    const currentApiKey = settings.aiProvider === 'openai'
-        ? settings.openaiApiKey
-        : settings.aiProvider === 'anthropic'
-            ? settings.anthropicApiKey
-            : '';
+    // The server calls the selected provider with the form's settings
+    const testAIConnection = async () => {
+        setTestingAI(true);
+        setAIStatus('idle');
 
-    const maskApiKey = (key: string) => {
-        if (!key || key.length < 10) return key;
-        return key.substring(0, 7) + '...' + key.substring(key.length - 4);
+        try {
+            const result = await testAISettings(apiUrl, settings.studioToken, aiInput());
+            setAIStatus(result.ok ? 'success' : 'error');
+            setAIError(result.ok ? null : result.error ?? null);
+        } catch (error) {
+            setAIStatus('error');
+            setAIError(error instanceof Error ? error.message : null);
+        }
+
+        setTestingAI(false);
     };
 
+    const saveAndClose = async () => {
+        if (aiLoaded) {
+            setSaving(true);
+            try {
+                const saved = await updateAISettings(apiUrl, settings.studioToken, aiInput());
+                setApiKeySet({
+                    ollama: saved.providers.ollama.apiKeySet,
+                    openai: saved.providers.openai.apiKeySet,
+                    anthropic: saved.providers.anthropic.apiKeySet,
+                });
+                setApiKeys({});
+            } catch (error) {
+                setAIError(error instanceof Error ? error.message : 'Could not save AI settings');
+                setSaving(false);
+                return;
+            }
+            setSaving(false);
+        }
+        setIsOpen(false);
+    };
+
+    const renderApiKey = (provider: 'openai' | 'anthropic', placeholder: string, link: React.ReactNode) => (
+        <div>
+            <label className="text-sm text-muted-foreground flex items-center gap-2 mb-2">
+                <Key className="h-3 w-3" />
+                API Key
+                {apiKeySet[provider] && apiKeys[provider] === undefined && (
+                    <span className="flex items-center gap-1 text-xs text-green-500">
+                        <Check className="h-3 w-3" /> Saved
+                    </span>
+                )}
+            </label>
+            <div className="flex items-center gap-2">
+                <div className="relative flex-1">
+                    <input
+                        type={showApiKey ? 'text' : 'password'}
+                        value={apiKeys[provider] ?? ''}
+                        onChange={(e) => updateApiKey(provider, e.target.value || undefined)}
+                        placeholder={
+                            apiKeys[provider] === ''
+                                ? 'Removed on save'
+                                : apiKeySet[provider] ? 'Type to replace the saved key' : placeholder
+                        }
+                        className="w-full rounded-md border border-input bg-background px-3 py-2 pr-10 text-sm font-mono"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => setShowApiKey(!showApiKey)}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    >
+                        {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                </div>
+                {apiKeySet[provider] && (
+                    <Button variant="ghost" size="sm" onClick={() => updateApiKey(provider, '')}>
+                        Remove
+                    </Button>
+                )}
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">{link}</p>
+        </div>
+    );
+
     return (
         <AnimatePresence>
             {isOpen && (
@@ -188,8 +309,9 @@ export function SettingsModal() {
                                     {AI_PROVIDERS.map((provider) => (
                                         <button
                                             key={provider.id}
-                                            onClick={() => updateSetting('aiProvider', provider.id)}
-                                            className={`w-full flex items-center gap-3 p-3 rounded-lg border transition-all ${settings.aiProvider === provider.id
+                                            onClick={() => updateAIForm('defaultProvider', provider.id)}
+                                            disabled={!aiLoaded}
+                                            className={`w-full flex items-center gap-3 p-3 rounded-lg border transition-all disabled:opacity-50 ${aiForm.defaultProvider === provider.id
                                                     ? 'border-primary bg-primary/10'
                                                     : 'border-border hover:border-muted-foreground/50'
                                                 }`}
@@ -199,7 +321,7 @@ export function SettingsModal() {
                                                 <p className="font-medium text-sm">{provider.name}</p>
                                                 <p className="text-xs text-muted-foreground">{provider.description}</p>
                                             </div>
-                                            {settings.aiProvider === provider.id && (
+                                            {aiForm.defaultProvider === provider.id && (
                                                 <Check className="h-4 w-4 text-primary" />
                                             )}
                                         </button>
@@ -207,13 +329,13 @@ export function SettingsModal() {
                                 </div>
 
                                 {/* Ollama Settings */}
-                                {settings.aiProvider === 'ollama' && (
+                                {aiLoaded && aiForm.defaultProvider === 'ollama' && (
                                     <div className="space-y-3 border-t border-border pt-3">
                                         <SettingsRow label="Ollama URL">
                                             <input
                                                 type="text"
-                                                value={settings.ollamaUrl}
-                                                onChange={(e) => updateSetting('ollamaUrl', e.target.value)}
+                                                value={aiForm.ollamaUrl}
+                                                onChange={(e) => updateAIForm('ollamaUrl', e.target.value)}
                                                 placeholder="http://localhost:11434"
                                                 className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
                                             />
@@ -221,8 +343,8 @@ export function SettingsModal() {
                                         <SettingsRow label="Model">
                                             <input
                                                 type="text"
-                                                value={settings.ollamaModel}
-                                                onChange={(e) => updateSetting('ollamaModel', e.target.value)}
+                                                value={aiForm.ollamaModel}
+                                                onChange={(e) => updateAIForm('ollamaModel', e.target.value)}
                                                 placeholder="llama3.2"
                                                 className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
                                             />
@@ -231,40 +353,18 @@ export function SettingsModal() {
                                 )}
 
                                 {/* OpenAI Settings */}
-                                {settings.aiProvider === 'openai' && (
+                                {aiLoaded && aiForm.defaultProvider === 'openai' && (
                                     <div className="space-y-3 border-t border-border pt-3">
-                                        <div>
-                                            <label className="text-sm text-muted-foreground flex items-center gap-2 mb-2">
-                                                <Key className="h-3 w-3" />
-                                                API Key
-                                            </label>
-                                            <div className="relative">
-                                                <input
-                                                    type={showApiKey ? 'text' : 'password'}
-                                                    value={settings.openaiApiKey}
-                                                    onChange={(e) => updateSetting('openaiApiKey', e.target.value)}
-                                                    placeholder="sk-..."
-                                                    className="w-full rounded-md border border-input bg-background px-3 py-2 pr-10 text-sm font-mono"
-                                                />
-                                                <button
-                                                    type="button"
-                                                    onClick={() => setShowApiKey(!showApiKey)}
-                                                    className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                                                >
-                                                    {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                                                </button>
-                                            </div>
-                                            <p className="mt-1 text-xs text-muted-foreground">
-                                                Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-primary underline">OpenAI Dashboard</a>
-                                            </p>
-                                        </div>
+                                        {renderApiKey('openai', 'sk-...', (
+                                            <>Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer" className="text-primary underline">OpenAI Dashboard</a></>
+                                        ))}
                                         <SettingsRow label="Model">
                                             <select
-                                                value={settings.openaiModel || 'gpt-4o'}
-                                                onChange={(e) => updateSetting('openaiModel' as any, e.target.value)}
+                                                value={aiForm.openaiModel}
+                                                onChange={(e) => updateAIForm('openaiModel', e.target.value)}
                                                 className="rounded-md border border-input bg-background px-3 py-1.5 text-sm"
                                             >
-                                                {OPENAI_MODELS.map((model) => (
+                                                {withCurrent(OPENAI_MODELS, aiForm.openaiModel).map((model) => (
                                                     <option key={model.id} value={model.id}>
                                                         {model.name}
                                                     </option>
@@ -275,40 +375,18 @@ export function SettingsModal() {
                                 )}
 
                                 {/* Anthropic Settings */}
-                                {settings.aiProvider === 'anthropic' && (
+                                {aiLoaded && aiForm.defaultProvider === 'anthropic' && (
                                     <div className="space-y-3 border-t border-border pt-3">
-                                        <div>
-                                            <label className="text-sm text-muted-foreground flex items-center gap-2 mb-2">
-                                                <Key className="h-3 w-3" />
-                                                API Key
-                                            </label>
-                                            <div className="relative">
-                                                <input
-                                                    type={showApiKey ? 'text' : 'password'}
-                                                    value={settings.anthropicApiKey}
-                                                    onChange={(e) => updateSetting('anthropicApiKey', e.target.value)}
-                                                    placeholder="sk-ant-..."
-                                                    className="w-full rounded-md border border-input bg-background px-3 py-2 pr-10 text-sm font-mono"
-                                                />
-                                                <button
-                                                    type="button"
-                                                    onClick={() => setShowApiKey(!showApiKey)}
-                                                    className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                                                >
-                                                    {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                                                </button>
-                                            </div>
-                                            <p className="mt-1 text-xs text-muted-foreground">
-                                                Get your API key from <a href="https://console.anthropic.com/account/keys" target="_blank" rel="noopener noreferrer" className="text-primary underline">Anthropic Console</a>
-                                            </p>
-                                        </div>
+                                        {renderApiKey('anthropic', 'sk-ant-...', (
+                                            <>Get your API key from <a href="https://console.anthropic.com/account/keys" target="_blank" rel="noopener noreferrer" className="text-primary underline">Anthropic Console</a></>
+                                        ))}
                                         <SettingsRow label="Model">
                                             <select
-                                                value={settings.anthropicModel || 'claude-3-sonnet-20240229'}
-                                                onChange={(e) => updateSetting('anthropicModel' as any, e.target.value)}
+                                                value={aiForm.anthropicModel}
+                                                onChange={(e) => updateAIForm('anthropicModel', e.target.value)}
                                                 className="rounded-md border border-input bg-background px-3 py-1.5 text-sm"
                                             >
-                                                {ANTHROPIC_MODELS.map((model) => (
+                                                {withCurrent(ANTHROPIC_MODELS, aiForm.anthropicModel).map((model) => (
                                                     <option key={model.id} value={model.id}>
                                                         {model.name}
                                                     </option>
@@ -323,28 +401,35 @@ export function SettingsModal() {
                                     <Button
                                         variant="outline"
                                         size="sm"
-                                        onClick={testConnection}
-                                        disabled={testingConnection}
+                                        onClick={testAIConnection}
+                                        disabled={!aiLoaded || testingAI}
                                         className="gap-2"
                                     >
-                                        {testingConnection ? (
+                                        {testingAI ? (
                                             <span className="h-4 w-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
                                         ) : (
-                                            <Server className="h-4 w-4" />
+                                            <Brain className="h-4 w-4" />
                                         )}
-                                        Test Connection
+                                        Test Provider
                                     </Button>
-                                    {connectionStatus === 'success' && (
+                                    {aiStatus === 'success' && (
                                         <span className="flex items-center gap-1 text-sm text-green-500">
                                             <Check className="h-4 w-4" /> Connected
                                         </span>
                                     )}
-                                    {connectionStatus === 'error' && (
+                                    {aiStatus === 'error' && (
                                         <span className="flex items-center gap-1 text-sm text-red-500">
                                             <AlertCircle className="h-4 w-4" /> Failed
                                         </span>
                                     )}
                                 </div>
+                                {aiError && (
+                                    <p className="text-xs text-red-500">{aiError}</p>
+                                )}
+                                <p className="text-xs text-muted-foreground">
+                                    Saved on the API server and used by every session and the simulator.
+                                    Keys are never sent back to the browser.
+                                </p>
                             </SettingsSection>
 
                             {/* Server Settings */}
@@ -352,10 +437,50 @@ export function SettingsModal() {
                                 <SettingsRow label="API Endpoint">
                                     <input
                                         type="text"
-                                        defaultValue="http://localhost:3001"
+                                        value={settings.apiUrl || 'http://localhost:3001'}
+                                        onChange={(e) => updateSetting('apiUrl', e.target.value)}
                                         className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm"
                                     />
                                 </SettingsRow>
+                                <SettingsRow label="Studio Token">
+                                    <input
+                                        type="password"
+                                        value={settings.studioToken}
+                                        onChange={(e) => updateSetting('studioToken', e.target.value)}
+                                        placeholder="STUDIO_TOKEN"
+                                        className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm font-mono"
+                                    />
+                                </SettingsRow>
+                                <div className="flex items-center gap-3">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={testConnection}
+                                        disabled={testingConnection}
+                                        className="gap-2"
+                                    >
+                                        {testingConnection ? (
+                                            <span className="h-4 w-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                                        ) : (
+                                            <Server className="h-4 w-4" />
+                                        )}
+                                        Test Connection
+                                    </Button>
+                                    {connectionStatus === 'success' && (
+                                        <span className="flex items-center gap-1 text-sm text-green-500">
+                                            <Check className="h-4 w-4" /> Connected
+                                        </span>
+                                    )}
+                                    {connectionStatus === 'error' && (
+                                        <span className="flex items-center gap-1 text-sm text-red-500">
+                                            <AlertCircle className="h-4 w-4" /> Failed
+                                        </span>
+                                    )}
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    AI settings and the simulator's AI and tool calls go through this server,
+                                    authorized by the token set as STUDIO_TOKEN there. Tools run as saved on the flow.
+                                </p>
                             </SettingsSection>
                         </div>
 
@@ -370,7 +495,7 @@ export function SettingsModal() {
                                 <RotateCcw className="h-4 w-4" />
                                 Reset to Defaults
                             </Button>
-                            <Button size="sm" onClick={() => setIsOpen(false)} className="gap-2">
+                            <Button size="sm" onClick={saveAndClose} disabled={saving} className="gap-2">
                                 <Save className="h-4 w-4" />
                                 Save & Close
                             </Button>
@@ -382,6 +507,11 @@ export function SettingsModal() {
     );
 }
 
+// Keeps a saved model selectable when it isn't in the list
+function withCurrent(models: Array<{ id: string; name: string }>, current: string) {
+    return models.some(m => m.id === current) ? models : [...models, { id: current, name: current }];
+}
+
 function SettingsSection({ title, icon, children }: { title: string; icon: React.ReactNode; children: React.ReactNode }) {
     return (
         <div className="mb-6">
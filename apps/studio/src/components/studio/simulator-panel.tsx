@@ -7,11 +7,9 @@ import {
     Send,
     RotateCcw,
     Play,
-    Pause,
     Code,
     Terminal,
     Clock,
-    Zap,
     ChevronDown,
     ChevronUp,
     Brain,
@@ -24,12 +22,21 @@ import {
     Search,
     Wrench,
     Square,
+    Variable,
+    Workflow,
+    Sparkles,
+    ListChecks,
+    Coins,
 } from 'lucide-react';
 import { useAtomValue } from 'jotai';
+import { FlowEngine } from '@ivakit/runtime';
+import type { RuntimeEvent } from '@ivakit/runtime';
+import type { AICallUsage, AIUsage, FlowDefinition, SessionState } from '@ivakit/shared';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { flowStateAtom, FlowNodeData } from '@/store/flow-store';
-import { Node, Edge } from 'reactflow';
+import { flowStateAtom, settingsAtom } from '@/store/flow-store';
+import { toFlowDefinition } from '@/lib/flow-definition';
+import { createSimulatorServices } from '@/lib/simulator-services';
 
 interface SimulatorPanelProps {
     onClose: () => void;
@@ -66,8 +73,15 @@ interface SessionVariables {
     [key: string]: unknown;
 }
 
+let messageCounter = 0;
+
+function nextId(prefix: string): string {
+    return `${prefix}_${Date.now()}_${++messageCounter}`;
+}
+
 export function SimulatorPanel({ onClose }: SimulatorPanelProps) {
     const flowState = useAtomValue(flowStateAtom);
+    const settings = useAtomValue(settingsAtom);
 
     const [messages, setMessages] = useState<Message[]>([]);
     const [steps, setSteps] = useState<ExecutionStep[]>([]);
@@ -76,419 +90,142 @@ export function SimulatorPanel({ onClose }: SimulatorPanelProps) {
     const [showDebug, setShowDebug] = useState(false);
     const [expandedSteps, setExpandedSteps] = useState<string[]>([]);
     const [variables, setVariables] = useState<SessionVariables>({});
-    const [currentNodeId, setCurrentNodeId] = useState<string | null>(null);
     const [waitingForInput, setWaitingForInput] = useState(false);
-    const [totalTokens, setTotalTokens] = useState(0);
     const [totalLatency, setTotalLatency] = useState(0);
+    const [usage, setUsage] = useState<AIUsage | undefined>();
     const [hasStarted, setHasStarted] = useState(false);
 
     const messagesEndRef = useRef<HTMLDivElement>(null);
-    const variablesRef = useRef<SessionVariables>({});
 
-    // Keep ref in sync with state
-    useEffect(() => {
-        variablesRef.current = variables;
-    }, [variables]);
+    // The engine runs the flow as it was when the simulation started
+    const engineRef = useRef<FlowEngine | null>(null);
+    const flowRef = useRef<FlowDefinition | null>(null);
+    const sessionRef = useRef<SessionState | null>(null);
+    const runningStepRef = useRef<string | null>(null);
+    const unsubscribeRef = useRef<(() => void) | null>(null);
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
 
-    // Find node by ID
-    const findNode = useCallback((nodeId: string): Node<FlowNodeData> | undefined => {
-        return flowState.nodes.find(n => n.id === nodeId);
-    }, [flowState.nodes]);
-
-    // Find edges from a node
-    const findEdgesFrom = useCallback((nodeId: string): Edge[] => {
-        return flowState.edges.filter(e => e.source === nodeId);
-    }, [flowState.edges]);
-
-    // Interpolate variables in text
-    const interpolate = useCallback((text: string): string => {
-        return text.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-            return String(variablesRef.current[varName] ?? match);
-        });
-    }, []);
-
-    // Simulate LLM intent classification
-    const classifyIntent = useCallback(async (message: string, intents: { name: string; description: string }[]): Promise<{ intent: string; confidence: number }> => {
-        // Simulate AI call latency
-        await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 500));
-
-        // Simple keyword-based matching for demo
-        const lowerMessage = message.toLowerCase();
-
-        for (const intent of intents) {
-            const keywords = intent.name.split('_').map(w => w.toLowerCase());
-            const descWords = intent.description.toLowerCase().split(' ');
-
-            const matchScore = [...keywords, ...descWords].reduce((score, word) => {
-                if (lowerMessage.includes(word) && word.length > 2) {
-                    return score + (1 / (keywords.length + descWords.length));
-                }
-                return score;
-            }, 0);
-
-            if (matchScore > 0.2) {
-                return {
-                    intent: intent.name,
-                    confidence: Math.min(0.95, 0.7 + matchScore),
-                };
-            }
-        }
+    useEffect(() => () => unsubscribeRef.current?.(), []);
 
-        // Return first intent with lower confidence if no match
-        return {
-            intent: intents[0]?.name || 'unknown',
-            confidence: 0.4 + Math.random() * 0.2,
-        };
+    const addMessage = useCallback((message: Omit<Message, 'id' | 'timestamp'>) => {
+        setMessages(prev => [...prev, { ...message, id: nextId('msg'), timestamp: new Date() }]);
     }, []);
 
-    // Execute the flow from a starting node
-    const executeFlow = useCallback(async (startNodeId: string, userMessage?: string) => {
-        setIsRunning(true);
-        let currentId: string | null = startNodeId;
-        let localVars = { ...variablesRef.current };
-
-        if (userMessage) {
-            localVars.user_message = userMessage;
-            localVars.last_input = userMessage;
-            setVariables(localVars);
-            variablesRef.current = localVars;
-        }
-
-        while (currentId) {
-            const node = findNode(currentId);
-            if (!node) {
-                console.error(`Node ${currentId} not found`);
+    const nodeType = (nodeId: string) => flowRef.current?.nodes.find(n => n.id === nodeId)?.type;
+
+    // Mirror runtime events into the chat and debug views
+    const handleEvent = useCallback((event: RuntimeEvent) => {
+        switch (event.type) {
+            case 'node_started': {
+                // Nodes inside a subflow aren't on this canvas
+                const node = event.flowId ? undefined : flowRef.current?.nodes.find(n => n.id === event.nodeId);
+                const stepId = nextId('step');
+                runningStepRef.current = stepId;
+                setSteps(prev => [...prev, {
+                    id: stepId,
+                    nodeId: event.nodeId,
+                    nodeType: event.nodeType,
+                    nodeName: node?.name ?? (event.flowId ? `${event.flowId} › ${event.nodeId}` : event.nodeId),
+                    status: 'running',
+                    timestamp: new Date(),
+                }]);
                 break;
             }
 
-            setCurrentNodeId(currentId);
-            const startTime = Date.now();
-
-            const stepId = `step_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-            const newStep: ExecutionStep = {
-                id: stepId,
-                nodeId: currentId,
-                nodeType: node.data.type,
-                nodeName: node.data.name,
-                status: 'running',
-                input: userMessage ? { message: userMessage } : undefined,
-                timestamp: new Date(),
-            };
-            setSteps(prev => [...prev, newStep]);
-
-            // Simulate node execution delay
-            await new Promise(resolve => setTimeout(resolve, 100 + Math.random() * 200));
-
-            const config = node.data.config;
-            let nextNodeId: string | null = null;
-
-            switch (node.data.type) {
-                case 'start': {
-                    const welcomeMsg = interpolate(String(config.welcomeMessage || 'Hello! How can I help you today?'));
-                    const msgId = `msg_${Date.now()}`;
-                    setMessages(prev => [...prev, {
-                        id: msgId,
-                        role: 'assistant',
-                        content: welcomeMsg,
-                        nodeId: currentId!,
-                        nodeType: node.data.type,
-                        timestamp: new Date(),
-                    }]);
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: Date.now() - startTime,
-                        output: { message: welcomeMsg },
-                    } : s));
-
-                    const edges = findEdgesFrom(currentId);
-                    nextNodeId = edges[0]?.target ?? null;
-                    break;
-                }
-
-                case 'message': {
-                    const message = interpolate(String(config.message || ''));
-                    const delay = Number(config.delay) || 0;
-
-                    if (delay > 0) {
-                        await new Promise(resolve => setTimeout(resolve, delay));
-                    }
-
-                    const latency = Date.now() - startTime;
-                    setMessages(prev => [...prev, {
-                        id: `msg_${Date.now()}`,
-                        role: 'assistant',
-                        content: message,
-                        nodeId: currentId!,
-                        nodeType: node.data.type,
-                        metadata: { latency },
-                        timestamp: new Date(),
-                    }]);
-                    setTotalLatency(prev => prev + latency);
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: latency,
-                        output: { message },
-                    } : s));
-
-                    const edges = findEdgesFrom(currentId);
-                    nextNodeId = edges[0]?.target ?? null;
-                    break;
-                }
-
-                case 'collect_input': {
-                    const prompt = config.prompt ? interpolate(String(config.prompt)) : '';
-
-                    if (prompt) {
-                        setMessages(prev => [...prev, {
-                            id: `msg_${Date.now()}`,
-                            role: 'assistant',
-                            content: prompt,
-                            nodeId: currentId!,
-                            nodeType: node.data.type,
-                            timestamp: new Date(),
-                        }]);
-                    }
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: Date.now() - startTime,
-                        output: { waitingForInput: true, variableName: config.variableName },
-                    } : s));
-
-                    // Wait for user input
-                    setWaitingForInput(true);
-                    setCurrentNodeId(currentId);
-                    setIsRunning(false);
-                    return; // Will continue after user input
-                }
-
-                case 'llm_router': {
-                    const intents = (config.intents as Array<{ name: string; description: string; targetNodeId: string }>) || [];
-                    const userMsg = String(localVars.user_message || userMessage || '');
-
-                    const result = await classifyIntent(userMsg, intents);
-
-                    localVars.detected_intent = result.intent;
-                    localVars.intent_confidence = result.confidence;
-                    setVariables(localVars);
-                    variablesRef.current = localVars;
-
-                    const tokens = 25 + Math.floor(Math.random() * 20);
-                    const latency = Date.now() - startTime;
-
-                    setMessages(prev => [...prev, {
-                        id: `msg_${Date.now()}`,
+            case 'node_completed': {
+                const stepId = runningStepRef.current;
+                const output = event.output as Record<string, unknown> | undefined;
+                setSteps(prev => prev.map(s => s.id === stepId && s.status === 'running' ? {
+                    ...s,
+                    status: 'completed',
+                    duration: event.duration,
+                    output,
+                } : s));
+                setTotalLatency(prev => prev + event.duration);
+
+                if (nodeType(event.nodeId) === 'llm_router' && typeof output?.intent === 'string') {
+                    const confidence = Number(output.confidence) || 0;
+                    const tokens = (output.usage as AICallUsage[] | undefined)
+                        ?.reduce((sum, call) => sum + call.inputTokens + call.outputTokens, 0);
+                    addMessage({
                         role: 'system',
-                        content: `🧠 Intent: ${result.intent} (${(result.confidence * 100).toFixed(0)}% confidence)`,
-                        nodeId: currentId!,
-                        nodeType: node.data.type,
-                        metadata: {
-                            intent: result.intent,
-                            confidence: result.confidence,
-                            tokens,
-                            latency,
-                        },
-                        timestamp: new Date(),
-                    }]);
-                    setTotalTokens(prev => prev + tokens);
-                    setTotalLatency(prev => prev + latency);
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: latency,
-                        input: { message: userMsg, intents: intents.map(i => i.name) },
-                        output: result,
-                    } : s));
-                    setExpandedSteps(prev => [...prev, stepId]);
-
-                    // Find matching intent's target node
-                    const matchedIntent = intents.find(i => i.name === result.intent);
-                    if (matchedIntent?.targetNodeId) {
-                        nextNodeId = matchedIntent.targetNodeId;
-                    } else {
-                        const edges = findEdgesFrom(currentId);
-                        nextNodeId = edges[0]?.target ?? null;
-                    }
-                    break;
-                }
-
-                case 'knowledge_search': {
-                    const query = interpolate(String(config.query || ''));
-
-                    // Simulate knowledge search
-                    await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 300));
-
-                    const mockResults = [
-                        { content: 'Based on our FAQ, you can track your order status by visiting our website and logging into your account.', score: 0.85 },
-                        { content: 'Order tracking is available 24/7 through your account dashboard or by contacting support.', score: 0.78 },
-                    ];
-
-                    localVars.faq_answer = mockResults[0].content;
-                    localVars.faq_confidence = mockResults[0].score;
-                    localVars.search_results = mockResults;
-                    setVariables(localVars);
-                    variablesRef.current = localVars;
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: Date.now() - startTime,
-                        input: { query },
-                        output: { results: mockResults },
-                    } : s));
-
-                    const edges = findEdgesFrom(currentId);
-                    nextNodeId = edges[0]?.target ?? null;
-                    break;
+                        content: `🧠 Intent: ${output.intent} (${(confidence * 100).toFixed(0)}% confidence)`,
+                        nodeId: event.nodeId,
+                        nodeType: 'llm_router',
+                        metadata: { intent: output.intent, confidence, latency: event.duration, tokens },
+                    });
+                    if (stepId) setExpandedSteps(prev => [...prev, stepId]);
                 }
+                break;
+            }
 
-                case 'tool_call': {
-                    const toolId = String(config.toolId || '');
-
-                    // Simulate tool call
-                    await new Promise(resolve => setTimeout(resolve, 300 + Math.random() * 400));
-
-                    const mockResult = { status: 'success', data: { systemStatus: 'operational', timestamp: new Date().toISOString() } };
-
-                    const outputVar = String(config.outputVariable || 'tool_result');
-                    localVars[outputVar] = mockResult;
-                    setVariables(localVars);
-                    variablesRef.current = localVars;
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: Date.now() - startTime,
-                        input: { toolId, inputs: config.inputs as Record<string, unknown> || {} },
-                        output: mockResult,
-                    } : s));
+            case 'node_error': {
+                const stepId = runningStepRef.current;
+                const error = event.error as { message?: string } | undefined;
+                setSteps(prev => prev.map(s => s.id === stepId ? {
+                    ...s,
+                    status: 'error',
+                    output: { error: event.error },
+                } : s));
+                addMessage({
+                    role: 'system',
+                    content: `❌ Error: ${error?.message ?? 'Node failed'}`,
+                    nodeId: event.nodeId,
+                });
+                break;
+            }
 
-                    const edges = findEdgesFrom(currentId);
-                    nextNodeId = edges[0]?.target ?? null;
-                    break;
-                }
+            case 'message_sent':
+                addMessage({
+                    role: 'assistant',
+                    content: event.message,
+                    nodeId: event.nodeId,
+                    nodeType: nodeType(event.nodeId),
+                });
+                break;
 
-                case 'condition': {
-                    const conditions = (config.conditions as Array<{ variable: string; operator: string; value: unknown; targetNodeId: string }>) || [];
-                    let matched = false;
-
-                    for (const cond of conditions) {
-                        const varValue = localVars[cond.variable];
-                        let result = false;
-
-                        switch (cond.operator) {
-                            case 'eq': result = varValue === cond.value; break;
-                            case 'neq': result = varValue !== cond.value; break;
-                            case 'gt': result = Number(varValue) > Number(cond.value); break;
-                            case 'gte': result = Number(varValue) >= Number(cond.value); break;
-                            case 'lt': result = Number(varValue) < Number(cond.value); break;
-                            case 'lte': result = Number(varValue) <= Number(cond.value); break;
-                            case 'contains': result = String(varValue).includes(String(cond.value)); break;
-                        }
-
-                        if (result) {
-                            nextNodeId = cond.targetNodeId;
-                            matched = true;
-                            break;
-                        }
-                    }
-
-                    if (!matched && config.fallbackNodeId) {
-                        nextNodeId = String(config.fallbackNodeId);
-                    }
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: Date.now() - startTime,
-                        input: { conditions: conditions.map(c => `${c.variable} ${c.operator} ${c.value}`) },
-                        output: { matched, nextNodeId },
-                    } : s));
-                    break;
-                }
+            case 'subflow_started':
+                addMessage({
+                    role: 'system',
+                    content: `↪️ Entering subflow ${event.flowId}${event.version !== undefined ? ` v${event.version}` : ''}`,
+                    nodeId: event.nodeId,
+                });
+                break;
 
-                case 'escalate': {
-                    const reason = interpolate(String(config.reason || ''));
-                    const queue = String(config.queue || 'default');
+            case 'subflow_completed':
+                addMessage({ role: 'system', content: `↩️ Returned from subflow ${event.flowId}`, nodeId: event.nodeId });
+                break;
 
-                    setMessages(prev => [...prev, {
-                        id: `msg_${Date.now()}`,
-                        role: 'system',
-                        content: `🔄 Escalating to human agent (${queue}): ${reason}`,
-                        nodeId: currentId!,
-                        nodeType: node.data.type,
-                        timestamp: new Date(),
-                    }]);
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: Date.now() - startTime,
-                        output: { escalated: true, queue, reason },
-                    } : s));
-
-                    const edges = findEdgesFrom(currentId);
-                    nextNodeId = edges[0]?.target ?? null;
-                    break;
-                }
+            case 'session_escalated':
+                addMessage({ role: 'system', content: `🔄 Escalating to human agent: ${event.reason}` });
+                break;
 
-                case 'end': {
-                    const message = interpolate(String(config.message || 'Goodbye!'));
-
-                    setMessages(prev => [...prev, {
-                        id: `msg_${Date.now()}`,
-                        role: 'assistant',
-                        content: message,
-                        nodeId: currentId!,
-                        nodeType: node.data.type,
-                        timestamp: new Date(),
-                    }]);
-
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'completed',
-                        duration: Date.now() - startTime,
-                        output: { status: config.status || 'completed' },
-                    } : s));
-
-                    setIsRunning(false);
-                    setCurrentNodeId(null);
-                    nextNodeId = null;
-                    break;
-                }
+            case 'session_timeout':
+                addMessage({ role: 'system', content: '⏱️ Input timed out' });
+                break;
+        }
+    }, [addMessage]);
 
-                default:
-                    setSteps(prev => prev.map(s => s.id === stepId ? {
-                        ...s,
-                        status: 'error',
-                        duration: Date.now() - startTime,
-                        output: { error: `Unknown node type: ${node.data.type}` },
-                    } : s));
-            }
+    const applySession = useCallback((session: SessionState) => {
+        sessionRef.current = session;
+        setVariables(session.variables);
+        setUsage(session.usage);
+        setWaitingForInput(session.status === 'waiting_input');
 
-            currentId = nextNodeId;
+        if (session.status !== 'waiting_input' && session.status !== 'active') {
+            addMessage({ role: 'system', content: `Session ended (${session.status})` });
         }
-
-        setIsRunning(false);
-    }, [findNode, findEdgesFrom, interpolate, classifyIntent]);
+    }, [addMessage]);
 
     // Start the simulation
     const startSimulation = useCallback(async () => {
-        // Find start node
-        const startNode = flowState.nodes.find(n => n.data.type === 'start');
-        if (!startNode) {
+        const flow = toFlowDefinition(flowState);
+        if (!flow.entryNode) {
             setMessages([{
-                id: `msg_${Date.now()}`,
+                id: nextId('msg'),
                 role: 'system',
                 content: '❌ Error: No Start node found in flow',
                 timestamp: new Date(),
@@ -496,61 +233,75 @@ export function SimulatorPanel({ onClose }: SimulatorPanelProps) {
             return;
         }
 
+        unsubscribeRef.current?.();
+        const engine = new FlowEngine(createSimulatorServices(settings));
+        unsubscribeRef.current = engine.on(handleEvent);
+        engineRef.current = engine;
+        flowRef.current = flow;
+
         setHasStarted(true);
-        await executeFlow(startNode.id);
-    }, [flowState.nodes, executeFlow]);
+        setIsRunning(true);
+        try {
+            const { session } = await engine.startSession(flow, { metadata: { channel: 'simulator' } });
+            applySession(session);
+        } catch (error) {
+            addMessage({ role: 'system', content: `❌ Error: ${error instanceof Error ? error.message : String(error)}` });
+        } finally {
+            setIsRunning(false);
+        }
+    }, [flowState, settings, handleEvent, applySession, addMessage]);
 
     // Handle user sending a message
     const handleSend = useCallback(async () => {
-        if (!input.trim()) return;
+        if (!input.trim() || isRunning) return;
 
         const userMessage = input.trim();
         setInput('');
 
-        // Add user message
-        setMessages(prev => [...prev, {
-            id: `msg_${Date.now()}`,
-            role: 'user',
-            content: userMessage,
-            timestamp: new Date(),
-        }]);
-
-        if (waitingForInput && currentNodeId) {
-            // Continue from collect_input node
-            setWaitingForInput(false);
-
-            const node = findNode(currentNodeId);
-            if (node) {
-                const varName = String(node.data.config.variableName || 'user_input');
-                const newVars = { ...variablesRef.current, [varName]: userMessage, user_message: userMessage };
-                setVariables(newVars);
-                variablesRef.current = newVars;
-            }
-
-            // Continue execution from next node
-            const edges = findEdgesFrom(currentNodeId);
-            const nextId = edges[0]?.target;
+        addMessage({ role: 'user', content: userMessage });
 
-            if (nextId) {
-                await executeFlow(nextId, userMessage);
-            }
-        } else if (!hasStarted) {
+        if (!hasStarted) {
             // Start fresh simulation
             await startSimulation();
+            return;
+        }
+
+        const engine = engineRef.current;
+        const flow = flowRef.current;
+        const session = sessionRef.current;
+        if (!engine || !flow || !session || !waitingForInput) {
+            addMessage({ role: 'system', content: 'The session is not waiting for input. Reset to start again.' });
+            return;
+        }
+
+        setWaitingForInput(false);
+        setIsRunning(true);
+        try {
+            const turn = await engine.processInput(flow, session.id, userMessage);
+            applySession(turn.session);
+        } catch (error) {
+            addMessage({ role: 'system', content: `❌ Error: ${error instanceof Error ? error.message : String(error)}` });
+        } finally {
+            setIsRunning(false);
         }
-    }, [input, waitingForInput, currentNodeId, findNode, findEdgesFrom, executeFlow, hasStarted, startSimulation]);
+    }, [input, isRunning, hasStarted, waitingForInput, startSimulation, applySession, addMessage]);
 
     // Reset simulation
     const resetSimulation = useCallback(() => {
+        unsubscribeRef.current?.();
+        unsubscribeRef.current = null;
+        engineRef.current = null;
+        flowRef.current = null;
+        sessionRef.current = null;
+        runningStepRef.current = null;
+
         setMessages([]);
         setSteps([]);
         setVariables({});
-        variablesRef.current = {};
-        setCurrentNodeId(null);
         setWaitingForInput(false);
         setIsRunning(false);
-        setTotalTokens(0);
         setTotalLatency(0);
+        setUsage(undefined);
         setExpandedSteps([]);
         setHasStarted(false);
     }, []);
@@ -644,14 +395,18 @@ export function SimulatorPanel({ onClose }: SimulatorPanelProps) {
                     <MessageSquare className="h-3 w-3" />
                     <span>{messages.length} messages</span>
                 </div>
-                <div className="flex items-center gap-1">
-                    <Zap className="h-3 w-3" />
-                    <span>{totalTokens} tokens</span>
-                </div>
                 <div className="flex items-center gap-1">
                     <Clock className="h-3 w-3" />
                     <span>{totalLatency}ms</span>
                 </div>
+                {usage && (
+                    <div className="flex items-center gap-1" title={`${usage.calls} AI calls`}>
+                        <Coins className="h-3 w-3" />
+                        <span>
+                            {(usage.inputTokens + usage.outputTokens).toLocaleString()} tokens · ${usage.cost.toFixed(4)}
+                        </span>
+                    </div>
+                )}
             </div>
 
             {/* Input */}
@@ -735,6 +490,11 @@ function ChatView({
                                         {message.metadata.latency}ms
                                     </span>
                                 )}
+                                {message.metadata.tokens !== undefined && (
+                                    <span className="rounded bg-black/20 px-1.5 py-0.5">
+                                        {message.metadata.tokens} tokens
+                                    </span>
+                                )}
                             </div>
                         )}
                     </div>
@@ -775,9 +535,13 @@ function DebugView({
             case 'start': return <Play className="h-3 w-3" />;
             case 'end': return <Square className="h-3 w-3" />;
             case 'llm_router': return <Brain className="h-3 w-3" />;
+            case 'llm_response': return <Sparkles className="h-3 w-3" />;
             case 'message': return <MessageSquare className="h-3 w-3" />;
             case 'collect_input': return <FileText className="h-3 w-3" />;
+            case 'slot_fill': return <ListChecks className="h-3 w-3" />;
             case 'condition': return <GitBranch className="h-3 w-3" />;
+            case 'set_variable': return <Variable className="h-3 w-3" />;
+            case 'subflow': return <Workflow className="h-3 w-3" />;
             case 'knowledge_search': return <Search className="h-3 w-3" />;
             case 'tool_call': return <Wrench className="h-3 w-3" />;
             case 'escalate': return <Phone className="h-3 w-3" />;
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
     PanelLeftClose,
@@ -18,6 +18,8 @@ import {
     Download,
     Upload,
     MoreVertical,
+    FolderOpen,
+    Rocket,
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
 import { useAtom, useAtomValue, useSetAtom } from 'jotai';
@@ -28,9 +30,12 @@ import { SimulatorPanel } from './simulator-panel';
 import { SettingsModal } from './settings-modal';
 import { HelpModal, helpOpenAtom } from './help-modal';
 import { ExportImportModal, exportImportOpenAtom } from './export-import-modal';
+import { FlowsModal, flowsOpenAtom } from './flows-modal';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/components/ui/toast-provider';
 import { cn } from '@/lib/utils';
+import { FlowValidationError } from '@/lib/flow-definition';
+import { isConflict, getPublishDiagnostics } from '@/lib/flows';
 import {
     flowStateAtom,
     selectedNodeIdAtom,
@@ -38,6 +43,7 @@ import {
     rightPanelOpenAtom,
     simulatorOpenAtom,
     settingsOpenAtom,
+    settingsAtom,
     nodeCountAtom,
     edgeCountAtom,
     flowValidationAtom,
@@ -45,7 +51,8 @@ import {
     canRedoAtom,
     undoAtom,
     redoAtom,
-    markAsSavedAtom,
+    saveFlowAtom,
+    publishFlowAtom,
     updateFlowNameAtom,
     deleteNodeAtom,
     duplicateNodeAtom,
@@ -59,6 +66,8 @@ export function StudioLayout() {
     const setSettingsOpen = useSetAtom(settingsOpenAtom);
     const setHelpOpen = useSetAtom(helpOpenAtom);
     const setExportImportMode = useSetAtom(exportImportOpenAtom);
+    const setFlowsOpen = useSetAtom(flowsOpenAtom);
+    const settings = useAtomValue(settingsAtom);
 
     // Flow state
     const flowState = useAtomValue(flowStateAtom);
@@ -73,7 +82,8 @@ export function StudioLayout() {
     const redo = useSetAtom(redoAtom);
 
     // Actions
-    const markAsSaved = useSetAtom(markAsSavedAtom);
+    const saveFlow = useSetAtom(saveFlowAtom);
+    const publishFlow = useSetAtom(publishFlowAtom);
     const updateFlowName = useSetAtom(updateFlowNameAtom);
     const deleteNode = useSetAtom(deleteNodeAtom);
     const duplicateNode = useSetAtom(duplicateNodeAtom);
@@ -90,6 +100,111 @@ export function StudioLayout() {
         setMounted(true);
     }, []);
 
+    // Save state: a conflicting save pauses autosave until the user saves
+    // again (overwriting the server copy) or reopens the flow
+    const [saving, setSaving] = useState(false);
+    const [conflict, setConflict] = useState(false);
+
+    useEffect(() => {
+        setConflict(false);
+    }, [flowState.flowId]);
+
+    // Handle save
+    const handleSave = useCallback(async (options: { silent?: boolean } = {}) => {
+        if (saving) return;
+
+        setSaving(true);
+        try {
+            await saveFlow({ force: conflict });
+            setConflict(false);
+            if (!options.silent) {
+                addToast({
+                    type: 'success',
+                    title: 'Flow Saved',
+                    description: `${flowState.flowName} saved successfully`
+                });
+            }
+        } catch (error) {
+            if (isConflict(error)) {
+                setConflict(true);
+                addToast({
+                    type: 'error',
+                    title: 'Save Conflict',
+                    description: 'This flow was changed elsewhere. Reopen it to get the latest version, or save again to overwrite.',
+                });
+            } else if (!options.silent) {
+                addToast({
+                    type: 'error',
+                    title: 'Save Failed',
+                    description: error instanceof FlowValidationError
+                        ? error.issues.slice(0, 3).join('\n')
+                        : error instanceof Error ? error.message : 'Unknown error',
+                });
+            }
+        } finally {
+            setSaving(false);
+        }
+    }, [saving, conflict, saveFlow, flowState.flowName, addToast]);
+
+    // Handle publish
+    const handlePublish = useCallback(async () => {
+        if (saving) return;
+
+        setSaving(true);
+        try {
+            let version: number;
+            try {
+                version = await publishFlow();
+            } catch (error) {
+                // Validation errors block publishing unless overridden with a reason
+                const diagnostics = getPublishDiagnostics(error);
+                if (!diagnostics) throw error;
+
+                const reason = window.prompt([
+                    `Publishing is blocked by ${diagnostics.length} validation error(s):`,
+                    ...diagnostics.slice(0, 5).map(d => `• ${d.message}`),
+                    '',
+                    'To publish anyway, enter a reason (it will be recorded):',
+                ].join('\n'));
+                if (!reason?.trim()) return;
+
+                version = await publishFlow({ forceReason: reason.trim() });
+            }
+
+            addToast({
+                type: 'success',
+                title: 'Flow Published',
+                description: `${flowState.flowName} published as version ${version}`
+            });
+        } catch (error) {
+            if (isConflict(error)) setConflict(true);
+            addToast({
+                type: 'error',
+                title: 'Publish Failed',
+                description: error instanceof FlowValidationError
+                    ? error.issues.slice(0, 3).join('\n')
+                    : error instanceof Error ? error.message : 'Unknown error',
+            });
+        } finally {
+            setSaving(false);
+        }
+    }, [saving, publishFlow, flowState.flowName, addToast]);
+
+    // Autosave dirty flows on the configured interval
+    const autoSaveRef = useRef<() => void>();
+    autoSaveRef.current = () => {
+        if (flowState.isDirty && !conflict && !saving) {
+            handleSave({ silent: true });
+        }
+    };
+
+    useEffect(() => {
+        if (!settings.autoSave) return;
+
+        const interval = setInterval(() => autoSaveRef.current?.(), settings.autoSaveInterval * 1000);
+        return () => clearInterval(interval);
+    }, [settings.autoSave, settings.autoSaveInterval]);
+
     // Keyboard shortcuts
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
@@ -132,6 +247,13 @@ export function StudioLayout() {
                 return;
             }
 
+            // Ctrl/Cmd + O = Open flow
+            if ((e.ctrlKey || e.metaKey) && e.key === 'o') {
+                e.preventDefault();
+                setFlowsOpen(true);
+                return;
+            }
+
             // Ctrl/Cmd + E = Export
             if ((e.ctrlKey || e.metaKey) && e.key === 'e') {
                 e.preventDefault();
@@ -172,19 +294,7 @@ export function StudioLayout() {
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [canUndo, canRedo, undo, redo, selectedNodeId, deleteNode, duplicateNode, addToast, setHelpOpen, setExportImportMode, flowState.nodes, setSelectedNodeId]);
-
-    // Handle save
-    const handleSave = useCallback(() => {
-        // In a real app, this would call the API
-        console.log('Saving flow...', flowState);
-        markAsSaved();
-        addToast({
-            type: 'success',
-            title: 'Flow Saved',
-            description: `${flowState.flowName} saved successfully`
-        });
-    }, [flowState, markAsSaved, addToast]);
+    }, [canUndo, canRedo, undo, redo, selectedNodeId, deleteNode, duplicateNode, addToast, setHelpOpen, setExportImportMode, setFlowsOpen, handleSave, flowState.nodes, setSelectedNodeId]);
 
     // Format last saved time
     const formatLastSaved = () => {
@@ -249,6 +359,15 @@ export function StudioLayout() {
                         <Redo className={cn("h-4 w-4", !canRedo && "opacity-50")} />
                     </Button>
                     <div className="mx-2 h-4 w-px bg-border" />
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setFlowsOpen(true)}
+                        title="Open Flow (Ctrl+O)"
+                    >
+                        <FolderOpen className="h-4 w-4" />
+                    </Button>
                     <Button
                         variant="ghost"
                         size="icon"
@@ -272,11 +391,23 @@ export function StudioLayout() {
                         variant="ghost"
                         size="sm"
                         className="gap-2"
-                        onClick={handleSave}
+                        onClick={() => handleSave()}
+                        disabled={saving}
                     >
                         <Save className="h-4 w-4" />
                         Save
                     </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2"
+                        onClick={handlePublish}
+                        disabled={saving}
+                        title="Publish a new version"
+                    >
+                        <Rocket className="h-4 w-4" />
+                        Publish
+                    </Button>
                     <Button
                         variant="default"
                         size="sm"
@@ -426,23 +557,31 @@ export function StudioLayout() {
                     <span className="text-muted-foreground/50">•</span>
                     <span className="font-medium">{edgeCount} edges</span>
                     <span className="text-muted-foreground/50">•</span>
-                    {validation.isValid ? (
+                    {!validation.isValid ? (
+                        <span className="flex items-center gap-1 text-red-500 cursor-help" title={[...validation.errors, ...validation.warnings].join('\n')}>
+                            <AlertCircle className="h-3 w-3" />
+                            {validation.errors.length} error{validation.errors.length !== 1 ? 's' : ''}
+                            {validation.warnings.length > 0 && `, ${validation.warnings.length} warning${validation.warnings.length !== 1 ? 's' : ''}`}
+                        </span>
+                    ) : validation.warnings.length > 0 ? (
+                        <span className="flex items-center gap-1 text-amber-500 cursor-help" title={validation.warnings.join('\n')}>
+                            <AlertCircle className="h-3 w-3" />
+                            {validation.warnings.length} warning{validation.warnings.length !== 1 ? 's' : ''}
+                        </span>
+                    ) : (
                         <span className="flex items-center gap-1 text-green-500">
                             <CheckCircle className="h-3 w-3" />
                             Valid
                         </span>
-                    ) : (
-                        <span className="flex items-center gap-1 text-amber-500 cursor-help" title={validation.errors.join('\n')}>
-                            <AlertCircle className="h-3 w-3" />
-                            {validation.errors.length} issue{validation.errors.length !== 1 ? 's' : ''}
-                        </span>
                     )}
                 </div>
                 <div className="flex items-center gap-4">
-                    <span className={flowState.isDirty ? 'text-amber-500' : ''}>
-                        {flowState.isDirty ? '● Unsaved changes' : formatLastSaved()}
+                    <span className={flowState.isDirty || conflict ? 'text-amber-500' : ''}>
+                        {conflict ? '● Save conflict' : flowState.isDirty ? '● Unsaved changes' : formatLastSaved()}
                     </span>
                     <span className="text-muted-foreground/50">•</span>
+                    <span>{flowState.publishedVersion ? `Published v${flowState.publishedVersion}` : 'Draft'}</span>
+                    <span className="text-muted-foreground/50">•</span>
                     <span>v1.0</span>
                     <span className="text-muted-foreground/50">•</span>
                     <span
@@ -458,6 +597,7 @@ export function StudioLayout() {
             <SettingsModal />
             <HelpModal />
             <ExportImportModal />
+            <FlowsModal />
         </div>
     );
 }
@@ -0,0 +1,69 @@
+/**
+ * API Client
+ *
+ * Minimal tRPC-over-HTTP client for the IVAkit API. Requests and responses
+ * use the server's superjson transformer.
+ */
+
+import superjson from 'superjson';
+
+export const DEFAULT_API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
+export class ApiError extends Error {
+    code?: string;
+    /** Extra error details from the server, e.g. `diagnostics` */
+    data?: Record<string, unknown>;
+
+    constructor(message: string, code?: string, data?: Record<string, unknown>) {
+        super(message);
+        this.name = 'ApiError';
+        this.code = code;
+        this.data = data;
+    }
+}
+
+/**
+ * Call a tRPC query procedure, e.g. `query(apiUrl, 'flows.get', { id })`.
+ * `token` is sent as a bearer token, as for `mutate`.
+ */
+export async function query<T>(apiUrl: string, path: string, input?: unknown, token?: string): Promise<T> {
+    const params = input === undefined
+        ? ''
+        : `?input=${encodeURIComponent(JSON.stringify(superjson.serialize(input)))}`;
+
+    return handleResponse<T>(await fetch(`${apiUrl}/trpc/${path}${params}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    }));
+}
+
+/**
+ * Call a tRPC mutation procedure. `token` is sent as a bearer token, for
+ * procedures the server restricts to the studio.
+ */
+export async function mutate<T>(apiUrl: string, path: string, input?: unknown, token?: string): Promise<T> {
+    const response = await fetch(`${apiUrl}/trpc/${path}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: input === undefined ? undefined : JSON.stringify(superjson.serialize(input)),
+    });
+
+    return handleResponse<T>(response);
+}
+
+async function handleResponse<T>(response: Response): Promise<T> {
+    const body = await response.json().catch(() => null);
+
+    if (body?.error) {
+        const error = superjson.deserialize<{ message?: string; data?: { code?: string } & Record<string, unknown> }>(body.error);
+        throw new ApiError(error?.message || `API error: ${response.status}`, error?.data?.code, error?.data);
+    }
+
+    if (!response.ok || !body?.result) {
+        throw new ApiError(`API error: ${response.status}`);
+    }
+
+    return superjson.deserialize<T>(body.result.data);
+}
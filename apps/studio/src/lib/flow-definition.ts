@@ -0,0 +1,264 @@
+/**
+ * Flow Definition Conversion
+ *
+ * The single mapping between the studio's React Flow graph and the
+ * FlowDefinition spec used by the runtime and API. Export, import, the
+ * simulator and saving all go through here, so what the canvas shows is
+ * exactly what runs.
+ *
+ * Branches are drawn as edges on the canvas but stored as targets in the
+ * spec: an llm_router edge labelled with an intent name routes that intent,
+ * a condition edge labelled with a rule ID routes that rule, and a condition
+ * edge labelled `default` is the fallback branch.
+ */
+
+import type { Edge, Node } from 'reactflow';
+import { MarkerType } from 'reactflow';
+import { FlowDefinitionSchema } from '@ivakit/shared';
+import type {
+    FlowDefinition,
+    FlowEdge,
+    FlowNode,
+    ConditionRule,
+    IntentDefinition,
+} from '@ivakit/shared';
+import type { FlowNodeData, FlowState } from '@/store/flow-store';
+
+/** Edge label of a condition node's fallback branch */
+export const DEFAULT_BRANCH = 'default';
+
+/** Source handles rendered by the studio's node component */
+const STUDIO_HANDLES = new Set(['left', 'right']);
+
+export type FlowGraph = Pick<
+    FlowState,
+    'flowId' | 'flowName' | 'flowDescription' | 'nodes' | 'edges' | 'variables' | 'tools' | 'metadata'
+>;
+
+export class FlowValidationError extends Error {
+    issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid flow definition: ${issues.join('; ')}`);
+        this.name = 'FlowValidationError';
+        this.issues = issues;
+    }
+}
+
+// ============================================================================
+// Graph -> Definition
+// ============================================================================
+
+/**
+ * Convert the canvas graph to a FlowDefinition without validating it
+ */
+export function toFlowDefinition(state: FlowGraph): FlowDefinition {
+    const startNode = state.nodes.find(n => n.data.type === 'start');
+    const now = new Date().toISOString();
+
+    const edges: FlowEdge[] = state.edges.map(edge => ({
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        sourceHandle: edge.sourceHandle ?? undefined,
+        targetHandle: edge.targetHandle ?? undefined,
+        label: typeof edge.label === 'string' && edge.label ? edge.label : undefined,
+    }));
+
+    const nodes = state.nodes.map(node => ({
+        id: node.id,
+        type: node.data.type,
+        name: node.data.name,
+        position: { x: node.position.x, y: node.position.y },
+        description: node.data.description,
+        config: branchConfigFromEdges(node.data, edges.filter(e => e.source === node.id)),
+    }) as FlowNode);
+
+    return {
+        version: '1.0',
+        id: state.flowId,
+        name: state.flowName,
+        description: state.flowDescription,
+        entryNode: startNode?.id ?? '',
+        nodes,
+        edges,
+        variables: state.variables,
+        tools: state.tools,
+        metadata: {
+            ...state.metadata,
+            createdAt: state.metadata?.createdAt ?? now,
+            updatedAt: now,
+        },
+    };
+}
+
+/**
+ * Convert the canvas graph to a FlowDefinition and validate it against the spec
+ */
+export function exportFlowDefinition(state: FlowGraph): FlowDefinition {
+    return validateFlowDefinition(toFlowDefinition(state));
+}
+
+/**
+ * Point intent and condition targets at the nodes their edges connect to
+ */
+function branchConfigFromEdges(data: FlowNodeData, outgoing: FlowEdge[]): Record<string, unknown> {
+    const { config } = data;
+    const targetFor = (label: string, current?: string) =>
+        outgoing.find(e => e.label === label)?.target ??
+        outgoing.find(e => !e.label && e.target === current)?.target ??
+        '';
+
+    if (data.type === 'llm_router') {
+        const intents = (config.intents as IntentDefinition[] | undefined) ?? [];
+        return {
+            ...config,
+            intents: intents.map(intent => ({
+                ...intent,
+                targetNodeId: targetFor(intent.name, intent.targetNodeId),
+            })),
+        };
+    }
+
+    if (data.type === 'condition') {
+        const conditions = (config.conditions as ConditionRule[] | undefined) ?? [];
+        const mapped = conditions.map(rule => ({
+            ...rule,
+            targetNodeId: targetFor(rule.id, rule.targetNodeId),
+        }));
+
+        // An unlabelled edge that no rule claims is the fallback branch
+        const claimed = new Set(mapped.map(rule => rule.targetNodeId));
+        const defaultNodeId =
+            targetFor(DEFAULT_BRANCH, config.defaultNodeId as string | undefined) ||
+            outgoing.find(e => !e.label && !claimed.has(e.target))?.target;
+
+        return { ...config, conditions: mapped, defaultNodeId: defaultNodeId || undefined };
+    }
+
+    return config;
+}
+
+// ============================================================================
+// Definition -> Graph
+// ============================================================================
+
+/**
+ * Convert a FlowDefinition to the canvas graph
+ */
+export function fromFlowDefinition(flow: FlowDefinition): FlowGraph {
+    const nodes: Node<FlowNodeData>[] = flow.nodes.map(node => ({
+        id: node.id,
+        type: 'flowNode',
+        position: { x: node.position.x, y: node.position.y },
+        data: {
+            type: node.type,
+            name: node.name,
+            description: node.description,
+            config: node.config as Record<string, unknown>,
+        },
+    }));
+
+    const edges: Edge[] = flow.edges.map(edge => toCanvasEdge(edge));
+
+    // Label edges with the branch they route, adding any the spec only implies
+    for (const node of flow.nodes) {
+        for (const [label, target] of branchTargets(node)) {
+            const existing = edges.find(e =>
+                e.source === node.id && (e.label === label || (!e.label && e.target === target))
+            );
+
+            if (existing) {
+                existing.label = label;
+            } else {
+                edges.push(toCanvasEdge({
+                    id: `e_${node.id}_${label}`,
+                    source: node.id,
+                    target,
+                    label,
+                }));
+            }
+        }
+    }
+
+    return {
+        flowId: flow.id,
+        flowName: flow.name,
+        flowDescription: flow.description,
+        nodes,
+        edges,
+        variables: flow.variables,
+        tools: flow.tools,
+        metadata: flow.metadata,
+    };
+}
+
+/**
+ * Parse and validate an imported flow file
+ *
+ * Also accepts files written by earlier studio versions, which wrapped the
+ * raw React Flow graph as `{ version, exportedAt, flow: { nodes, edges } }`.
+ */
+export function parseFlowDefinition(data: unknown): FlowDefinition {
+    const legacy = (data as { flow?: { id?: string; name?: string; nodes?: unknown; edges?: unknown } })?.flow;
+    if (legacy && Array.isArray(legacy.nodes) && Array.isArray(legacy.edges)) {
+        return exportFlowDefinition({
+            flowId: legacy.id || `flow_${Date.now()}`,
+            flowName: legacy.name || 'Imported Flow',
+            nodes: legacy.nodes as Node<FlowNodeData>[],
+            edges: legacy.edges as Edge[],
+            variables: [],
+            tools: [],
+            metadata: null,
+        });
+    }
+
+    return validateFlowDefinition(data);
+}
+
+function validateFlowDefinition(data: unknown): FlowDefinition {
+    const result = FlowDefinitionSchema.safeParse(data);
+    if (!result.success) {
+        throw new FlowValidationError(result.error.issues.map(issue =>
+            issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+        ));
+    }
+
+    return result.data as FlowDefinition;
+}
+
+/**
+ * Branch label -> target node for routers and conditions
+ */
+function branchTargets(node: FlowNode): Array<[string, string]> {
+    if (node.type === 'llm_router') {
+        return node.config.intents
+            .filter(intent => intent.targetNodeId)
+            .map(intent => [intent.name, intent.targetNodeId]);
+    }
+
+    if (node.type === 'condition') {
+        const targets: Array<[string, string]> = node.config.conditions
+            .filter(rule => rule.targetNodeId)
+            .map(rule => [rule.id, rule.targetNodeId]);
+        if (node.config.defaultNodeId) {
+            targets.push([DEFAULT_BRANCH, node.config.defaultNodeId]);
+        }
+        return targets;
+    }
+
+    return [];
+}
+
+function toCanvasEdge(edge: FlowEdge): Edge {
+    return {
+        id: edge.id,
+        source: edge.source,
+        target: edge.target,
+        sourceHandle: edge.sourceHandle && STUDIO_HANDLES.has(edge.sourceHandle) ? edge.sourceHandle : undefined,
+        targetHandle: edge.targetHandle,
+        label: edge.label,
+        type: 'custom',
+        markerEnd: { type: MarkerType.ArrowClosed },
+    };
+}
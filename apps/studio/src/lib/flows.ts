@@ -0,0 +1,126 @@
+/**
+ * Flows API
+ *
+ * Typed wrappers around the `flows` router for listing, loading, saving,
+ * publishing and deleting flows.
+ */
+
+import type { FlowDefinition, FlowDiagnostic } from '@ivakit/shared';
+import { query, mutate, ApiError } from './api';
+
+export interface FlowRecord {
+    id: string;
+    name: string;
+    description: string | null;
+    /** JSON stringified FlowDefinition (the working draft) */
+    definition: string;
+    version: number;
+    status: 'draft' | 'published' | 'archived';
+    publishedAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface FlowVersionRecord {
+    flowId: string;
+    version: number;
+    definition: FlowDefinition;
+    changeNote?: string;
+    createdAt: string;
+}
+
+export interface SaveResult {
+    id: string;
+    updatedAt: string;
+}
+
+export function listFlows(apiUrl: string): Promise<FlowRecord[]> {
+    return query<FlowRecord[]>(apiUrl, 'flows.list');
+}
+
+export function getFlow(apiUrl: string, id: string): Promise<FlowRecord | null> {
+    return query<FlowRecord | null>(apiUrl, 'flows.get', { id });
+}
+
+/**
+ * Published versions, newest first (without definitions)
+ */
+export function listFlowVersions(apiUrl: string, id: string): Promise<Omit<FlowVersionRecord, 'definition'>[]> {
+    return query<Omit<FlowVersionRecord, 'definition'>[]>(apiUrl, 'flows.versions', { id });
+}
+
+export function getFlowVersion(apiUrl: string, id: string, version: number): Promise<FlowVersionRecord | null> {
+    return query<FlowVersionRecord | null>(apiUrl, 'flows.getVersion', { id, version });
+}
+
+export function createFlow(apiUrl: string, definition: FlowDefinition): Promise<SaveResult> {
+    return mutate<SaveResult>(apiUrl, 'flows.create', {
+        name: definition.name,
+        description: definition.description,
+        definition,
+    });
+}
+
+/**
+ * Save a draft. With `expectedUpdatedAt`, the server rejects the write with a
+ * CONFLICT error if the flow was saved by someone else in the meantime.
+ */
+export async function updateFlow(
+    apiUrl: string,
+    definition: FlowDefinition,
+    expectedUpdatedAt?: string
+): Promise<SaveResult> {
+    const { updatedAt } = await mutate<{ updatedAt: string }>(apiUrl, 'flows.update', {
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        definition,
+        expectedUpdatedAt,
+    });
+    return { id: definition.id, updatedAt };
+}
+
+export interface PublishOptions {
+    changeNote?: string;
+    /** Publish despite validation errors; requires a reason, which is recorded */
+    forceReason?: string;
+}
+
+export interface PublishResult {
+    version: number;
+    updatedAt: string;
+    diagnostics: FlowDiagnostic[];
+}
+
+/**
+ * Publish the saved draft. Fails with a BAD_REQUEST error carrying
+ * `diagnostics` when the flow doesn't validate, unless forced.
+ */
+export function publishFlow(apiUrl: string, id: string, options: PublishOptions = {}): Promise<PublishResult> {
+    return mutate<PublishResult>(apiUrl, 'flows.publish', {
+        id,
+        changeNote: options.changeNote,
+        force: options.forceReason ? true : undefined,
+        forceReason: options.forceReason,
+    });
+}
+
+export async function deleteFlow(apiUrl: string, id: string): Promise<void> {
+    await mutate(apiUrl, 'flows.delete', { id });
+}
+
+/**
+ * Validation errors that blocked a publish, if that's why it failed
+ */
+export function getPublishDiagnostics(error: unknown): FlowDiagnostic[] | null {
+    if (!(error instanceof ApiError)) return null;
+    const diagnostics = error.data?.diagnostics;
+    return Array.isArray(diagnostics) ? diagnostics as FlowDiagnostic[] : null;
+}
+
+/**
+ * Whether a save failed because the flow changed on the server
+ */
+export function isConflict(error: unknown): boolean {
+    return error instanceof ApiError && error.code === 'CONFLICT';
+}
@@ -0,0 +1,43 @@
+/**
+ * Settings API
+ *
+ * Typed wrappers around the `settings` router. AI provider settings live on
+ * the API server; API keys are write-only and only reported as set or not.
+ */
+
+import { query, mutate } from './api';
+
+export type AIProviderName = 'ollama' | 'openai' | 'anthropic';
+
+export interface AIProviderSettings {
+    baseUrl?: string;
+    model?: string;
+    apiKeySet: boolean;
+}
+
+export interface AISettings {
+    /** May name a provider the studio doesn't configure, e.g. `rules` */
+    defaultProvider: string;
+    providers: Record<AIProviderName, AIProviderSettings>;
+}
+
+export interface AISettingsInput {
+    defaultProvider: AIProviderName;
+    /** An omitted `apiKey` keeps the saved key; an empty string removes it */
+    providers: Partial<Record<AIProviderName, { baseUrl?: string; model?: string; apiKey?: string }>>;
+}
+
+export function getAISettings(apiUrl: string, token: string): Promise<AISettings> {
+    return query<AISettings>(apiUrl, 'settings.getAI', undefined, token);
+}
+
+export function updateAISettings(apiUrl: string, token: string, input: AISettingsInput): Promise<AISettings> {
+    return mutate<AISettings>(apiUrl, 'settings.updateAI', input, token);
+}
+
+/**
+ * Check the selected provider answers with these settings, without saving them
+ */
+export function testAISettings(apiUrl: string, token: string, input: AISettingsInput): Promise<{ ok: boolean; error?: string }> {
+    return mutate<{ ok: boolean; error?: string }>(apiUrl, 'settings.testAI', input, token);
+}
@@ -0,0 +1,70 @@
+/**
+ * Simulator Services
+ *
+ * Runtime services for running flows in the browser with the real
+ * FlowEngine: AI calls, tool calls, knowledge search and subflows go through
+ * the API, which holds provider keys and tool secrets, and sessions stay in
+ * memory. AI and tool calls need the studio token from settings, and run
+ * the tools saved on the flow.
+ */
+
+import type { ExtractAtomValue } from 'jotai';
+import { SessionManager } from '@ivakit/runtime';
+import type { RuntimeServices, AIService, ToolService, KnowledgeService, FlowService } from '@ivakit/runtime';
+import type { FlowDefinition } from '@ivakit/shared';
+import type { settingsAtom } from '@/store/flow-store';
+import { DEFAULT_API_URL, mutate } from '@/lib/api';
+import { getFlow, getFlowVersion, listFlowVersions } from '@/lib/flows';
+
+type StudioSettings = ExtractAtomValue<typeof settingsAtom>;
+
+export function createSimulatorServices(settings: StudioSettings): RuntimeServices {
+    const apiUrl = settings.apiUrl || DEFAULT_API_URL;
+    const token = settings.studioToken;
+
+    // Nodes pick their provider; the server's default serves nodes that don't.
+    // Replies arrive whole, so `onToken` isn't sent
+    const ai: AIService = {
+        classify: (options) => mutate(apiUrl, 'simulator.classify', options, token),
+        generate: ({ onToken: _onToken, ...options }) => mutate(apiUrl, 'simulator.generate', options, token),
+    };
+
+    // The server looks tools up itself, so their definitions aren't sent
+    const tools: ToolService = {
+        execute: ({ tools: _tools, flowId, ...options }) =>
+            mutate(apiUrl, 'simulator.executeTool', { ...options, flowId: flowId ?? '' }, token),
+    };
+
+    const knowledge: KnowledgeService = {
+        // The server answers with its own AI service
+        search: ({ ai: _ai, ...options }) => mutate(apiUrl, 'knowledge.search', options),
+    };
+
+    // Subflows run the saved flows, not unsaved canvas edits
+    const flows: FlowService = {
+        async get(flowId, version) {
+            if (version !== undefined) {
+                return (await getFlowVersion(apiUrl, flowId, version))?.definition ?? null;
+            }
+            const flow = await getFlow(apiUrl, flowId);
+            return flow ? JSON.parse(flow.definition) as FlowDefinition : null;
+        },
+        async current(flowId) {
+            const [latest] = await listFlowVersions(apiUrl, flowId);
+            if (latest) {
+                const published = await getFlowVersion(apiUrl, flowId, latest.version);
+                return published && { definition: published.definition, version: published.version };
+            }
+            const draft = await flows.get(flowId);
+            return draft && { definition: draft };
+        },
+    };
+
+    return {
+        ai,
+        knowledge,
+        flows,
+        tools,
+        sessions: new SessionManager(),
+    };
+}
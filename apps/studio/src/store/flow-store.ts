@@ -3,6 +3,11 @@
 import { atom } from 'jotai';
 import { atomWithStorage } from 'jotai/utils';
 import { Node, Edge } from 'reactflow';
+import { analyzeFlow } from '@ivakit/shared';
+import type { FlowMetadata, ToolDefinition, VariableDefinition } from '@ivakit/shared';
+import { exportFlowDefinition, fromFlowDefinition, toFlowDefinition } from '@/lib/flow-definition';
+import { listFlows, getFlow, createFlow, updateFlow, publishFlow, deleteFlow } from '@/lib/flows';
+import type { FlowRecord, PublishOptions } from '@/lib/flows';
 
 // ============================================================================
 // Flow State Types
@@ -20,6 +25,15 @@ export interface FlowState {
     edges: Edge[];
     flowName: string;
     flowId: string;
+    flowDescription?: string;
+    /** Spec fields the canvas doesn't edit, kept so they survive a round trip */
+    variables: VariableDefinition[];
+    tools: ToolDefinition[];
+    metadata: FlowMetadata | null;
+    /** Server `updatedAt` of the last save or load; null until the flow is saved */
+    remoteUpdatedAt: string | null;
+    /** Latest published version, or null while the flow is an unpublished draft */
+    publishedVersion: number | null;
     isDirty: boolean;
     lastSaved: Date | null;
 }
@@ -52,7 +66,7 @@ const initialNodes: Node<FlowNodeData>[] = [
         data: {
             type: 'collect_input',
             name: 'Get Input',
-            config: { prompt: '', variableName: 'user_message', validation: { type: 'text', minLength: 1 }, timeout: { seconds: 60 } }
+            config: { prompt: 'Please describe what you need help with.', variableName: 'user_message', validation: { type: 'text', minLength: 1 }, timeout: { seconds: 60 } }
         },
     },
     {
@@ -81,7 +95,7 @@ const initialNodes: Node<FlowNodeData>[] = [
         data: {
             type: 'knowledge_search',
             name: 'Search FAQ',
-            config: { knowledgeBaseId: 'kb_faq', query: '{{user_message}}' }
+            config: { knowledgeBaseId: 'kb_faq', query: '{{user_message}}', resultVariable: 'faq_result' }
         },
     },
     {
@@ -101,7 +115,7 @@ const initialNodes: Node<FlowNodeData>[] = [
         data: {
             type: 'tool_call',
             name: 'Check Status',
-            config: { toolId: 'system_status', inputs: {} }
+            config: { toolId: 'system_status', inputs: {}, resultVariable: 'status_result' }
         },
     },
     {
@@ -111,7 +125,7 @@ const initialNodes: Node<FlowNodeData>[] = [
         data: {
             type: 'condition',
             name: 'Check Answer',
-            config: { conditions: [{ variable: 'faq_confidence', operator: 'gte', value: 0.7, targetNodeId: 'msg_answer' }], fallbackNodeId: 'escalate_1' }
+            config: { conditions: [{ id: 'found', variable: 'faq_result.confidence', operator: 'greater_or_equal', value: 0.7, targetNodeId: 'msg_answer' }], defaultNodeId: 'escalate_1' }
         },
     },
     {
@@ -121,7 +135,7 @@ const initialNodes: Node<FlowNodeData>[] = [
         data: {
             type: 'message',
             name: 'Provide Answer',
-            config: { message: '{{faq_answer}}' }
+            config: { message: '{{faq_result.answer}}' }
         },
     },
     {
@@ -151,10 +165,10 @@ const initialEdges: Edge[] = [
     { id: 'e2', source: 'collect_1', target: 'router_1', type: 'custom' },
     { id: 'e3', source: 'router_1', target: 'kb_1', type: 'custom', label: 'order_status' },
     { id: 'e4', source: 'router_1', target: 'msg_refund', type: 'custom', label: 'refund' },
-    { id: 'e5', source: 'router_1', target: 'tool_1', type: 'custom', label: 'tech_support' },
+    { id: 'e5', source: 'router_1', target: 'tool_1', type: 'custom', label: 'technical_support' },
     { id: 'e6', source: 'kb_1', target: 'condition_1', type: 'custom' },
     { id: 'e7', source: 'condition_1', target: 'msg_answer', type: 'custom', label: 'found' },
-    { id: 'e8', source: 'condition_1', target: 'escalate_1', type: 'custom', label: 'not found' },
+    { id: 'e8', source: 'condition_1', target: 'escalate_1', type: 'custom', label: 'default' },
     { id: 'e9', source: 'msg_answer', target: 'end_1', type: 'custom' },
     { id: 'e10', source: 'msg_refund', target: 'end_1', type: 'custom' },
     { id: 'e11', source: 'tool_1', target: 'escalate_1', type: 'custom' },
@@ -170,6 +184,11 @@ export const flowStateAtom = atom<FlowState>({
     edges: initialEdges,
     flowName: 'Customer Support IVA',
     flowId: 'flow_customer_support',
+    variables: [],
+    tools: [],
+    metadata: null,
+    remoteUpdatedAt: null,
+    publishedVersion: null,
     isDirty: false,
     lastSaved: null,
 });
@@ -204,13 +223,9 @@ export const settingsAtom = atomWithStorage('ivakit-settings', {
     gridSize: 15,
     showMinimap: true,
     showControls: true,
-    aiProvider: 'ollama' as 'ollama' | 'openai' | 'anthropic',
-    ollamaUrl: 'http://localhost:11434',
-    ollamaModel: 'llama3.2',
-    openaiApiKey: '',
-    openaiModel: 'gpt-4o',
-    anthropicApiKey: '',
-    anthropicModel: 'claude-3-sonnet-20240229',
+    apiUrl: 'http://localhost:3001',
+    // Matches STUDIO_TOKEN on the API server
+    studioToken: '',
 });
 
 // ============================================================================
@@ -243,42 +258,15 @@ export const edgeCountAtom = atom((get) => get(flowStateAtom).edges.length);
 
 // Flow validation
 export const flowValidationAtom = atom((get) => {
-    const { nodes, edges } = get(flowStateAtom);
-    const errors: string[] = [];
-
-    // Check for start node
-    const startNodes = nodes.filter(n => n.data.type === 'start');
-    if (startNodes.length === 0) {
-        errors.push('Flow must have a Start node');
-    } else if (startNodes.length > 1) {
-        errors.push('Flow can only have one Start node');
-    }
-
-    // Check for end node
-    const endNodes = nodes.filter(n => n.data.type === 'end');
-    if (endNodes.length === 0) {
-        errors.push('Flow must have at least one End node');
-    }
-
-    // Check for orphan nodes (no incoming or outgoing edges)
-    const nodesWithEdges = new Set([
-        ...edges.map(e => e.source),
-        ...edges.map(e => e.target),
-    ]);
-
-    const orphanNodes = nodes.filter(n =>
-        n.data.type !== 'start' &&
-        n.data.type !== 'end' &&
-        !nodesWithEdges.has(n.id)
-    );
-
-    if (orphanNodes.length > 0) {
-        errors.push(`${orphanNodes.length} node(s) are not connected`);
-    }
+    const { diagnostics } = analyzeFlow(toFlowDefinition(get(flowStateAtom)));
+    const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+    const warnings = diagnostics.filter(d => d.severity === 'warning').map(d => d.message);
 
     return {
         isValid: errors.length === 0,
         errors,
+        warnings,
+        diagnostics,
     };
 });
 
@@ -459,3 +447,118 @@ export const updateFlowNameAtom = atom(null, (get, set, name: string) => {
         isDirty: true,
     }));
 });
+
+// ============================================================================
+// Persistence Atoms
+// ============================================================================
+
+// Flows stored on the API server
+export const flowListAtom = atom<FlowRecord[]>([]);
+
+// Reload the flow list
+export const refreshFlowListAtom = atom(null, async (get, set) => {
+    const { apiUrl } = get(settingsAtom);
+    set(flowListAtom, await listFlows(apiUrl));
+});
+
+// Open a flow from the server, replacing the canvas
+export const openFlowAtom = atom(null, async (get, set, flowId: string) => {
+    const { apiUrl } = get(settingsAtom);
+    const record = await getFlow(apiUrl, flowId);
+    if (!record) {
+        throw new Error(`Flow ${flowId} not found`);
+    }
+
+    set(flowStateAtom, {
+        ...fromFlowDefinition(JSON.parse(record.definition)),
+        remoteUpdatedAt: record.updatedAt,
+        publishedVersion: record.status === 'published' ? record.version : null,
+        isDirty: false,
+        lastSaved: new Date(record.updatedAt),
+    });
+    set(historyAtom, { past: [], future: [] });
+    set(selectedNodeIdAtom, null);
+});
+
+// Start a new, unsaved flow
+export const newFlowAtom = atom(null, (get, set) => {
+    set(flowStateAtom, {
+        nodes: [
+            {
+                id: 'start_1',
+                type: 'flowNode',
+                position: { x: 250, y: 50 },
+                data: { type: 'start', name: 'Start', config: {} },
+            },
+            {
+                id: 'end_1',
+                type: 'flowNode',
+                position: { x: 250, y: 250 },
+                data: { type: 'end', name: 'End', config: { status: 'completed' } },
+            },
+        ],
+        edges: [{ id: 'e1', source: 'start_1', target: 'end_1', type: 'custom' }],
+        flowName: 'Untitled Flow',
+        flowId: `flow_${Date.now()}`,
+        variables: [],
+        tools: [],
+        metadata: null,
+        remoteUpdatedAt: null,
+        publishedVersion: null,
+        isDirty: false,
+        lastSaved: null,
+    });
+    set(historyAtom, { past: [], future: [] });
+    set(selectedNodeIdAtom, null);
+});
+
+// Save the current flow. Unless `force` is set, the save fails with a
+// CONFLICT ApiError when the server copy changed since it was loaded.
+export const saveFlowAtom = atom(null, async (get, set, options: { force?: boolean } = {}) => {
+    const { apiUrl } = get(settingsAtom);
+    const state = get(flowStateAtom);
+    const definition = exportFlowDefinition(state);
+
+    const result = state.remoteUpdatedAt === null
+        ? await createFlow(apiUrl, definition)
+        : await updateFlow(apiUrl, definition, options.force ? undefined : state.remoteUpdatedAt);
+
+    // Keep the dirty flag if the canvas changed while the request was in flight
+    set(flowStateAtom, (current) => ({
+        ...current,
+        flowId: result.id,
+        metadata: definition.metadata,
+        remoteUpdatedAt: result.updatedAt,
+        isDirty: current !== state,
+        lastSaved: new Date(result.updatedAt),
+    }));
+});
+
+// Save pending changes, then publish the draft as a new version
+export const publishFlowAtom = atom(null, async (get, set, options: PublishOptions = {}) => {
+    const state = get(flowStateAtom);
+    if (state.isDirty || state.remoteUpdatedAt === null) {
+        await set(saveFlowAtom);
+    }
+
+    const { apiUrl } = get(settingsAtom);
+    const { version, updatedAt } = await publishFlow(apiUrl, get(flowStateAtom).flowId, options);
+
+    set(flowStateAtom, (current) => ({
+        ...current,
+        remoteUpdatedAt: updatedAt,
+        publishedVersion: version,
+    }));
+    return version;
+});
+
+// Delete a flow on the server, starting a new flow if it was the open one
+export const deleteFlowAtom = atom(null, async (get, set, flowId: string) => {
+    const { apiUrl } = get(settingsAtom);
+    await deleteFlow(apiUrl, flowId);
+
+    if (get(flowStateAtom).flowId === flowId) {
+        set(newFlowAtom);
+    }
+    set(flowListAtom, (flows) => flows.filter(f => f.id !== flowId));
+});
@@ -2,7 +2,17 @@
  * Anthropic Adapter (Optional Cloud)
  */
 
-import type { AIAdapter, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
+import type { AIAdapter, ChatMessage, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
+import { readEventData, isEventObject } from '../stream';
+import { exampleAnswer, fewShotExamples, formatIntentList } from '../prompts';
+import { priced } from '../pricing';
+
+/** The streamed Messages API events this adapter reads */
+type AnthropicStreamEvent =
+    | { type: 'message_start'; message?: { usage?: { input_tokens?: unknown } } }
+    | { type: 'content_block_delta'; delta?: { type?: unknown; text?: unknown } }
+    | { type: 'message_delta'; usage?: { output_tokens?: unknown } }
+    | { type: 'ping' | 'content_block_start' | 'content_block_stop' | 'message_stop' | 'error' };
 
 export class AnthropicAdapter implements AIAdapter {
     private apiKey: string;
@@ -22,12 +32,15 @@ export class AnthropicAdapter implements AIAdapter {
 
         const model = options.model?.model || this.defaultModel;
 
-        const intentList = options.intents
-            .map(i => `- ${i.name}: ${i.description}`)
-            .join('\n');
+        const intentList = formatIntentList(options.intents);
+        const demonstrations = fewShotExamples(options.intents).flatMap(example => [
+            { role: 'user', content: example.message },
+            { role: 'assistant', content: exampleAnswer(example.intent) },
+        ]);
 
         const response = await fetch(`${this.baseUrl}/messages`, {
             method: 'POST',
+            signal: options.signal,
             headers: {
                 'Content-Type': 'application/json',
                 'x-api-key': this.apiKey,
@@ -38,6 +51,7 @@ export class AnthropicAdapter implements AIAdapter {
                 max_tokens: 500,
                 system: `${options.systemPrompt}\n\nAvailable intents:\n${intentList}\n\nRespond with only valid JSON containing "intent", "confidence", and "reasoning".`,
                 messages: [
+                    ...demonstrations,
                     {
                         role: 'user',
                         content: options.userMessage,
@@ -55,11 +69,15 @@ export class AnthropicAdapter implements AIAdapter {
         const content = data.content[0].text;
         const result = JSON.parse(content);
 
-        return {
+        return priced('anthropic', model, {
             intent: result.intent,
             confidence: result.confidence || 0.8,
             reasoning: result.reasoning,
-        };
+            tokens: {
+                input: data.usage?.input_tokens || 0,
+                output: data.usage?.output_tokens || 0,
+            },
+        });
     }
 
     async generate(options: GenerateOptions): Promise<GenerateResult> {
@@ -68,9 +86,11 @@ export class AnthropicAdapter implements AIAdapter {
         }
 
         const model = options.model?.model || this.defaultModel;
+        const stream = Boolean(options.onToken) && !options.schema;
 
         const response = await fetch(`${this.baseUrl}/messages`, {
             method: 'POST',
+            signal: options.signal,
             headers: {
                 'Content-Type': 'application/json',
                 'x-api-key': this.apiKey,
@@ -79,11 +99,15 @@ export class AnthropicAdapter implements AIAdapter {
             body: JSON.stringify({
                 model,
                 max_tokens: options.model?.maxTokens ?? 500,
-                system: options.systemPrompt,
-                messages: [
+                system: options.schema
+                    ? `${options.systemPrompt}\n\nRespond with only a JSON object matching this schema: ${JSON.stringify(options.schema)}`
+                    : options.systemPrompt,
+                messages: toAnthropicMessages([
+                    ...(options.history ?? []),
                     { role: 'user', content: options.userMessage },
-                ],
+                ]),
                 temperature: options.model?.temperature ?? 0.7,
+                stream,
             }),
         });
 
@@ -91,6 +115,10 @@ export class AnthropicAdapter implements AIAdapter {
             throw new Error(`Anthropic API error: ${response.status}`);
         }
 
+        if (stream) {
+            return priced('anthropic', model, await this.readStream(response, options.onToken!));
+        }
+
         const data = await response.json();
         const content = data.content[0].text;
 
@@ -103,13 +131,57 @@ export class AnthropicAdapter implements AIAdapter {
             }
         }
 
-        return {
+        return priced('anthropic', model, {
             response: content,
             structured,
             tokens: {
                 input: data.usage?.input_tokens || 0,
                 output: data.usage?.output_tokens || 0,
             },
-        };
+        });
+    }
+
+    /**
+     * Collect a streamed message, forwarding each text delta
+     */
+    private async readStream(response: Response, onToken: (delta: string) => void): Promise<GenerateResult> {
+        let text = '';
+        const tokens = { input: 0, output: 0 };
+
+        for await (const data of readEventData(response)) {
+            if (!isEventObject(data)) continue;
+            const event = data as AnthropicStreamEvent;
+
+            if (event.type === 'message_start') {
+                tokens.input = Number(event.message?.usage?.input_tokens) || 0;
+            } else if (event.type === 'content_block_delta') {
+                if (event.delta?.type === 'text_delta' && typeof event.delta.text === 'string') {
+                    text += event.delta.text;
+                    onToken(event.delta.text);
+                }
+            } else if (event.type === 'message_delta') {
+                tokens.output = Number(event.usage?.output_tokens) || 0;
+            }
+        }
+
+        return { response: text, tokens };
+    }
+}
+
+/**
+ * The Messages API needs a conversation that starts with the user and
+ * alternates roles, so drop leading assistant turns and merge repeats
+ */
+function toAnthropicMessages(messages: ChatMessage[]): ChatMessage[] {
+    const merged: ChatMessage[] = [];
+    for (const message of messages) {
+        const last = merged[merged.length - 1];
+        if (!last && message.role === 'assistant') continue;
+        if (last?.role === message.role) {
+            last.content += `\n\n${message.content}`;
+        } else {
+            merged.push({ ...message });
+        }
     }
+    return merged;
 }
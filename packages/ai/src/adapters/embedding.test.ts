@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { EmbeddingAdapter } from './embedding';
+import type { ClassifyIntent } from '../types';
+import { LOCAL_EMBEDDING_MODEL } from '../embedders';
+
+const intents: ClassifyIntent[] = [
+    { name: 'check_balance', description: 'Check the account balance', examples: ['How much money is in my account?'] },
+    { name: 'reset_password', description: 'Reset a forgotten password', examples: ['I forgot my password'] },
+];
+
+const classify = (userMessage: string, adapter = new EmbeddingAdapter(LOCAL_EMBEDDING_MODEL)) =>
+    adapter.classify({ systemPrompt: '', userMessage, intents });
+
+describe('EmbeddingAdapter', () => {
+    it('routes to the intent with the nearest example', async () => {
+        const result = await classify('how much money is in my checking account');
+
+        expect(result).toMatchObject({ intent: 'check_balance', model: LOCAL_EMBEDDING_MODEL, cost: 0 });
+        expect(result.noMatch).toBeUndefined();
+        expect(result.confidence).toBeGreaterThan(0.5);
+        expect(result.reasoning).toContain('How much money is in my account?');
+    });
+
+    it('reports no match for unrelated messages and names the closest intent', async () => {
+        const result = await classify('what time does the zoo open on sundays');
+
+        expect(result).toMatchObject({ intent: '', confidence: 0, noMatch: true });
+        expect(result.reasoning).toMatch(/^No intent is similar enough \(closest: \w+ at \d\.\d\d\)$/);
+    });
+
+    it('reports no match when there are no intents', async () => {
+        const result = await new EmbeddingAdapter(LOCAL_EMBEDDING_MODEL)
+            .classify({ systemPrompt: '', userMessage: 'hello', intents: [] });
+
+        expect(result).toMatchObject({ intent: '', noMatch: true, reasoning: 'No intents to match' });
+    });
+
+    it('is less confident about a message that sits between two intents', async () => {
+        const clear = await classify('I forgot my password');
+        const ambiguous = await classify('reset my account');
+
+        expect(clear.confidence).toBe(1);
+        expect(ambiguous.confidence).toBeLessThan(0.5);
+    });
+
+    it('uses the calibration it was given', async () => {
+        const strict = new EmbeddingAdapter(LOCAL_EMBEDDING_MODEL, undefined, { minSimilarity: 0.99, strongSimilarity: 1 });
+
+        expect((await classify('how much money is in my checking account', strict)).noMatch).toBe(true);
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Embedding Adapter
+ *
+ * Classifies intents by nearest-neighbour similarity between the user
+ * message and each intent's name, description and examples. Deterministic,
+ * fast and fully offline with the local embedder, so it can route every turn
+ * without an LLM call. It can't generate text.
+ */
+
+import type { AIAdapter, ClassifyIntent, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
+import { createTextEmbedder, cosineSimilarity, LOCAL_EMBEDDING_MODEL } from '../embedders';
+import type { TextEmbedder } from '../embedders';
+
+/** Intent sets whose embeddings are kept between calls */
+const MAX_CACHED_INTENT_SETS = 50;
+
+/** Softmax temperature over intent similarities; lower trusts small margins more */
+const MARGIN_TEMPERATURE = 0.05;
+
+/**
+ * Similarity scale of an embedder: below `minSimilarity` nothing matches,
+ * at `strongSimilarity` and above a match is certain
+ */
+export interface SimilarityCalibration {
+    minSimilarity: number;
+    strongSimilarity: number;
+}
+
+/** Hashed features score lower than neural embeddings for the same paraphrase */
+const LOCAL_CALIBRATION: SimilarityCalibration = { minSimilarity: 0.25, strongSimilarity: 0.6 };
+const NEURAL_CALIBRATION: SimilarityCalibration = { minSimilarity: 0.55, strongSimilarity: 0.85 };
+
+interface IntentVectors {
+    texts: string[];
+    intents: ClassifyIntent[];
+    vectors: number[][];
+}
+
+export class EmbeddingAdapter implements AIAdapter {
+    private defaultModel: string;
+    private baseUrl?: string;
+    private calibration?: SimilarityCalibration;
+    private embedders = new Map<string, TextEmbedder>();
+    private cache = new Map<string, IntentVectors>();
+
+    constructor(defaultModel?: string, baseUrl?: string, calibration?: SimilarityCalibration) {
+        this.defaultModel = defaultModel || process.env.EMBEDDING_MODEL || LOCAL_EMBEDDING_MODEL;
+        this.baseUrl = baseUrl;
+        this.calibration = calibration;
+    }
+
+    async classify(options: ClassifyOptions): Promise<ClassifyResult> {
+        // A node's model name only names an embedder when the node asked for this provider
+        const model = options.model?.provider === 'embedding' ? options.model.model : undefined;
+        const embedder = this.embedderFor(model || this.defaultModel);
+        const calibration = this.calibration ??
+            (embedder.model === LOCAL_EMBEDDING_MODEL ? LOCAL_CALIBRATION : NEURAL_CALIBRATION);
+
+        const { texts, intents, vectors } = await this.intentVectors(embedder, options.intents);
+        const [query] = await embedder.embed([options.userMessage]);
+
+        // Each intent scores its nearest text
+        const scores = new Map<string, { similarity: number; text: string }>();
+        vectors.forEach((vector, i) => {
+            const similarity = cosineSimilarity(query, vector);
+            const best = scores.get(intents[i].name);
+            if (!best || similarity > best.similarity) {
+                scores.set(intents[i].name, { similarity, text: texts[i] });
+            }
+        });
+
+        const ranked = [...scores.entries()].sort((a, b) => b[1].similarity - a[1].similarity);
+        const [top] = ranked;
+
+        if (!top || top[1].similarity < calibration.minSimilarity) {
+            return {
+                intent: '',
+                confidence: 0,
+                noMatch: true,
+                tokens: { input: 0, output: 0 },
+                model: embedder.model,
+                cost: 0,
+                reasoning: top
+                    ? `No intent is similar enough (closest: ${top[0]} at ${top[1].similarity.toFixed(2)})`
+                    : 'No intents to match',
+            };
+        }
+
+        return {
+            intent: top[0],
+            confidence: calibrate(ranked.map(([, score]) => score.similarity), calibration),
+            reasoning: `Nearest: "${top[1].text}" (similarity ${top[1].similarity.toFixed(2)})`,
+            // Embeddings run locally; no generated tokens to count
+            tokens: { input: 0, output: 0 },
+            model: embedder.model,
+            cost: 0,
+        };
+    }
+
+    async generate(_options: GenerateOptions): Promise<GenerateResult> {
+        throw new Error('The embedding provider only classifies intents; use an LLM provider to generate text');
+    }
+
+    private embedderFor(model: string): TextEmbedder {
+        let embedder = this.embedders.get(model);
+        if (!embedder) {
+            embedder = createTextEmbedder(model, this.baseUrl);
+            this.embedders.set(model, embedder);
+        }
+        return embedder;
+    }
+
+    /**
+     * Embed every intent's texts once per intent set and model
+     */
+    private async intentVectors(embedder: TextEmbedder, intents: ClassifyIntent[]): Promise<IntentVectors> {
+        const texts: string[] = [];
+        const owners: ClassifyIntent[] = [];
+        for (const intent of intents) {
+            const candidates = [intent.name.replace(/[_-]+/g, ' '), intent.description, ...(intent.examples ?? [])];
+            for (const text of candidates) {
+                if (text?.trim()) {
+                    texts.push(text.trim());
+                    owners.push(intent);
+                }
+            }
+        }
+
+        const key = `${embedder.model}\n${JSON.stringify(texts)}\n${owners.map(i => i.name).join(',')}`;
+        const cached = this.cache.get(key);
+        if (cached) return cached;
+
+        const entry = { texts, intents: owners, vectors: await embedder.embed(texts) };
+        if (this.cache.size >= MAX_CACHED_INTENT_SETS) {
+            const oldest = this.cache.keys().next();
+            if (!oldest.done) this.cache.delete(oldest.value);
+        }
+        this.cache.set(key, entry);
+        return entry;
+    }
+}
+
+/**
+ * Confidence from the ranked similarities: how far the best clears the
+ * no-match floor, times how clearly it beats the other intents
+ */
+function calibrate(similarities: number[], calibration: SimilarityCalibration): number {
+    const [best] = similarities;
+    const { minSimilarity, strongSimilarity } = calibration;
+    const absolute = Math.min(1, (best - minSimilarity) / (strongSimilarity - minSimilarity));
+
+    const weights = similarities.map(s => Math.exp((s - best) / MARGIN_TEMPERATURE));
+    const relative = 1 / weights.reduce((sum, w) => sum + w, 0);
+
+    return Math.round(absolute * relative * 1000) / 1000;
+}
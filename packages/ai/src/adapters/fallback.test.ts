@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FallbackAdapter } from './fallback';
+import { fallbackOptionsFromEnv } from '../service';
+import type { AIAdapter, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
+
+const classifyOptions: ClassifyOptions = {
+    systemPrompt: 'Classify',
+    userMessage: 'Hello',
+    intents: [{ name: 'greeting', description: 'Says hi' }],
+};
+
+const answer: ClassifyResult = { intent: 'greeting', confidence: 0.9, tokens: { input: 1, output: 1 } };
+
+/** Adapter whose classify and generate run `behaviour` and count calls */
+function adapter(behaviour: (options: ClassifyOptions | GenerateOptions) => Promise<unknown>) {
+    const calls = { count: 0 };
+    const fake: AIAdapter = {
+        classify: async (options) => {
+            calls.count++;
+            return behaviour(options) as Promise<ClassifyResult>;
+        },
+        generate: async (options) => {
+            calls.count++;
+            return behaviour(options) as Promise<GenerateResult>;
+        },
+    };
+    return { adapter: fake, calls };
+}
+
+const ok = () => adapter(async () => answer);
+const failing = (message = 'down') => adapter(async () => {
+    throw new Error(message);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('FallbackAdapter', () => {
+    it('requires at least one provider', () => {
+        expect(() => new FallbackAdapter([])).toThrow('at least one provider');
+    });
+
+    it('answers from the first provider that succeeds and reports it', async () => {
+        const first = failing();
+        const second = ok();
+        const third = ok();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const chain = new FallbackAdapter([
+            { name: 'ollama', adapter: first.adapter },
+            { name: 'openai', adapter: second.adapter },
+            { name: 'rules', adapter: third.adapter },
+        ]);
+
+        expect(await chain.classify(classifyOptions)).toEqual({ ...answer, provider: 'openai' });
+        expect([first.calls.count, second.calls.count, third.calls.count]).toEqual([1, 1, 0]);
+    });
+
+    it('lists every failure when no provider answers', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const chain = new FallbackAdapter([
+            { name: 'ollama', adapter: failing('refused').adapter },
+            { name: 'openai', adapter: failing('401').adapter },
+        ]);
+
+        await expect(chain.classify(classifyOptions))
+            .rejects.toThrow('All AI providers failed to classify (ollama: refused; openai: 401)');
+    });
+
+    it('times out a slow provider, aborts it and moves on', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        let signal: AbortSignal | undefined;
+        const slow = adapter(options => {
+            signal = options.signal;
+            return new Promise(() => {});
+        });
+
+        const chain = new FallbackAdapter([
+            { name: 'ollama', adapter: slow.adapter, timeoutMs: 10 },
+            { name: 'rules', adapter: ok().adapter },
+        ], { timeoutMs: 60_000 });
+
+        expect((await chain.classify(classifyOptions)).provider).toBe('rules');
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('skips a provider while its circuit is open and retries it after the cool-down', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        let now = 1_000_000;
+        vi.spyOn(Date, 'now').mockImplementation(() => now);
+
+        const flaky = failing();
+        const backup = ok();
+        const chain = new FallbackAdapter([
+            { name: 'ollama', adapter: flaky.adapter },
+            { name: 'rules', adapter: backup.adapter },
+        ], { failureThreshold: 2, cooldownMs: 5_000 });
+
+        await chain.classify(classifyOptions);
+        expect(chain.openCircuits()).toEqual([]);
+        await chain.classify(classifyOptions);
+        expect(chain.openCircuits()).toEqual(['ollama']);
+
+        await chain.classify(classifyOptions);
+        expect(flaky.calls.count).toBe(2);
+
+        // One trial call after the cool-down; failing it reopens the circuit
+        now += 5_001;
+        expect(chain.openCircuits()).toEqual([]);
+        await chain.classify(classifyOptions);
+        expect(flaky.calls.count).toBe(3);
+        expect(chain.openCircuits()).toEqual(['ollama']);
+        expect(backup.calls.count).toBe(4);
+    });
+
+    it('closes the circuit again once the provider answers', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        let down = true;
+        const recovering = adapter(async () => {
+            if (down) throw new Error('down');
+            return answer;
+        });
+        const chain = new FallbackAdapter([
+            { name: 'ollama', adapter: recovering.adapter },
+            { name: 'rules', adapter: ok().adapter },
+        ], { failureThreshold: 2 });
+
+        await chain.classify(classifyOptions);
+        down = false;
+        expect((await chain.classify(classifyOptions)).provider).toBe('ollama');
+
+        // The earlier failure no longer counts towards the threshold
+        down = true;
+        await chain.classify(classifyOptions);
+        expect(chain.openCircuits()).toEqual([]);
+    });
+
+    it('tries every provider when all circuits are open', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const only = failing();
+        const chain = new FallbackAdapter([{ name: 'ollama', adapter: only.adapter }], { failureThreshold: 1 });
+
+        await expect(chain.classify(classifyOptions)).rejects.toThrow('All AI providers failed');
+        expect(chain.openCircuits()).toEqual(['ollama']);
+        await expect(chain.classify(classifyOptions)).rejects.toThrow('All AI providers failed');
+        expect(only.calls.count).toBe(2);
+    });
+
+    it('sends the model name only to the provider it was picked for', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const models: Array<ClassifyOptions['model']> = [];
+        const recording = (fail: boolean) => adapter(async options => {
+            models.push(options.model);
+            if (fail) throw new Error('down');
+            return answer;
+        });
+
+        const chain = new FallbackAdapter([
+            { name: 'ollama', adapter: recording(true).adapter },
+            { name: 'openai', adapter: recording(true).adapter },
+            { name: 'anthropic', adapter: recording(false).adapter },
+        ]);
+
+        await chain.classify({ ...classifyOptions, model: { provider: 'ollama', model: 'llama3.2', temperature: 0.1 } });
+        expect(models).toEqual([
+            { provider: 'ollama', model: 'llama3.2', temperature: 0.1 },
+            { provider: 'ollama', temperature: 0.1 },
+            { provider: 'ollama', temperature: 0.1 },
+        ]);
+    });
+
+    it('does not fall back once a provider has streamed text', async () => {
+        const streaming = adapter(async options => {
+            (options as GenerateOptions).onToken?.('Hel');
+            throw new Error('connection reset');
+        });
+        const backup = ok();
+        const chain = new FallbackAdapter([
+            { name: 'openai', adapter: streaming.adapter },
+            { name: 'rules', adapter: backup.adapter },
+        ]);
+
+        const tokens: string[] = [];
+        await expect(chain.generate({ systemPrompt: 's', userMessage: 'u', onToken: t => tokens.push(t) }))
+            .rejects.toThrow('connection reset');
+        expect(tokens).toEqual(['Hel']);
+        expect(backup.calls.count).toBe(0);
+    });
+});
+
+describe('fallbackOptionsFromEnv', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('reads numeric settings and ignores invalid ones', () => {
+        vi.stubEnv('AI_TIMEOUT_MS', '2500');
+        vi.stubEnv('AI_CIRCUIT_FAILURES', 'many');
+        vi.stubEnv('AI_CIRCUIT_COOLDOWN_MS', '');
+
+        expect(fallbackOptionsFromEnv()).toEqual({
+            timeoutMs: 2500,
+            failureThreshold: undefined,
+            cooldownMs: undefined,
+        });
+    });
+});
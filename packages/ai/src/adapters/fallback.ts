@@ -0,0 +1,169 @@
+/**
+ * Fallback Adapter
+ *
+ * Tries an ordered chain of providers (e.g. ollama → openai → rules) until
+ * one answers. Each attempt has a timeout, and a provider that keeps failing
+ * is skipped for a cool-down (circuit breaker) instead of costing every
+ * request a timeout. Results report the provider that answered.
+ */
+
+import type { AIAdapter, AIConfig, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 30000;
+
+export interface FallbackProvider {
+    /** Reported as `provider` in results */
+    name: string;
+    adapter: AIAdapter;
+    /** Overrides the chain's timeout for this provider */
+    timeoutMs?: number;
+}
+
+export interface FallbackOptions {
+    /** Per-attempt timeout in milliseconds */
+    timeoutMs?: number;
+    /** Consecutive failures that open a provider's circuit */
+    failureThreshold?: number;
+    /** How long an open circuit skips the provider, in milliseconds */
+    cooldownMs?: number;
+}
+
+interface CircuitState {
+    failures: number;
+    openUntil: number;
+}
+
+export class FallbackAdapter implements AIAdapter {
+    private providers: FallbackProvider[];
+    private timeoutMs: number;
+    private failureThreshold: number;
+    private cooldownMs: number;
+    private circuits = new Map<string, CircuitState>();
+
+    constructor(providers: FallbackProvider[], options: FallbackOptions = {}) {
+        if (providers.length === 0) {
+            throw new Error('A fallback chain needs at least one provider');
+        }
+        this.providers = providers;
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+        this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    }
+
+    async classify(options: ClassifyOptions): Promise<ClassifyResult> {
+        return this.run('classify', (provider, signal) => provider.adapter.classify({
+            ...options,
+            model: modelFor(provider, options.model),
+            signal,
+        }));
+    }
+
+    async generate(options: GenerateOptions): Promise<GenerateResult> {
+        const { onToken } = options;
+        let streamed = false;
+
+        return this.run(
+            'generate',
+            (provider, signal) => provider.adapter.generate({
+                ...options,
+                model: modelFor(provider, options.model),
+                signal,
+                onToken: onToken && (delta => {
+                    streamed = true;
+                    onToken(delta);
+                }),
+            }),
+            // Text already streamed from one provider can't be taken back
+            () => !streamed
+        );
+    }
+
+    /**
+     * Providers whose circuit is currently open
+     */
+    openCircuits(): string[] {
+        const now = Date.now();
+        return this.providers.filter(p => this.isOpen(p.name, now)).map(p => p.name);
+    }
+
+    private async run<T extends object>(
+        operation: string,
+        call: (provider: FallbackProvider, signal: AbortSignal) => Promise<T>,
+        canRetry: () => boolean = () => true
+    ): Promise<T & { provider: string }> {
+        const now = Date.now();
+        const closed = this.providers.filter(p => !this.isOpen(p.name, now));
+        // With every circuit open, try them all rather than fail without asking anyone
+        const candidates = closed.length > 0 ? closed : this.providers;
+        const failures: string[] = [];
+
+        for (const provider of candidates) {
+            try {
+                const result = await this.attempt(provider, call);
+                this.circuits.delete(provider.name);
+                return { ...result, provider: provider.name };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                failures.push(`${provider.name}: ${message}`);
+                this.recordFailure(provider.name);
+
+                if (!canRetry()) throw error;
+                console.warn(`AI provider ${provider.name} failed to ${operation}, trying the next one: ${message}`);
+            }
+        }
+
+        throw new Error(`All AI providers failed to ${operation} (${failures.join('; ')})`);
+    }
+
+    private async attempt<T>(
+        provider: FallbackProvider,
+        call: (provider: FallbackProvider, signal: AbortSignal) => Promise<T>
+    ): Promise<T> {
+        const timeoutMs = provider.timeoutMs ?? this.timeoutMs;
+        const controller = new AbortController();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+                controller.abort();
+                reject(new Error(`timed out after ${timeoutMs}ms`));
+            }, timeoutMs);
+        });
+
+        try {
+            return await Promise.race([call(provider, controller.signal), timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private isOpen(name: string, now: number): boolean {
+        const circuit = this.circuits.get(name);
+        return !!circuit && circuit.openUntil > now;
+    }
+
+    /**
+     * Count a failure; at the threshold the circuit opens. After the cool-down
+     * one trial call is let through, and failing it reopens the circuit.
+     */
+    private recordFailure(name: string): void {
+        const circuit = this.circuits.get(name) ?? { failures: 0, openUntil: 0 };
+        circuit.failures++;
+        if (circuit.failures >= this.failureThreshold) {
+            circuit.openUntil = Date.now() + this.cooldownMs;
+        }
+        this.circuits.set(name, circuit);
+    }
+}
+
+/**
+ * A model name only applies to the provider it was picked for; other providers
+ * in the chain run their own default model with the same settings.
+ */
+function modelFor(provider: FallbackProvider, model: AIConfig | undefined): AIConfig | undefined {
+    if (!model || model.provider === provider.name) return model;
+    const { model: _model, ...settings } = model;
+    return settings;
+}
@@ -5,6 +5,9 @@
  */
 
 import type { AIAdapter, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
+import { readLines } from '../stream';
+import { exampleAnswer, fewShotExamples, formatIntentList } from '../prompts';
+import { priced } from '../pricing';
 
 const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
 const DEFAULT_MODEL = 'llama3.2';
@@ -21,15 +24,16 @@ export class OllamaAdapter implements AIAdapter {
     async classify(options: ClassifyOptions): Promise<ClassifyResult> {
         const model = options.model?.model || this.defaultModel;
 
-        const intentList = options.intents
-            .map(i => `- ${i.name}: ${i.description}`)
-            .join('\n');
+        const intentList = formatIntentList(options.intents);
+        const examples = fewShotExamples(options.intents)
+            .map(example => `User message: "${example.message}"\nJSON Response: ${exampleAnswer(example.intent)}`)
+            .join('\n\n');
 
         const prompt = `${options.systemPrompt}
 
 Available intents:
 ${intentList}
-
+${examples ? `\nExamples:\n\n${examples}\n` : ''}
 User message: "${options.userMessage}"
 
 Respond with a JSON object containing:
@@ -42,6 +46,7 @@ JSON Response:`;
         try {
             const response = await fetch(`${this.baseUrl}/api/generate`, {
                 method: 'POST',
+                signal: options.signal,
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     model,
@@ -61,40 +66,45 @@ JSON Response:`;
             const data = await response.json();
             const result = JSON.parse(data.response);
 
-            return {
+            return priced('ollama', model, {
                 intent: result.intent || options.intents[0]?.name || 'unknown',
                 confidence: Math.min(1, Math.max(0, result.confidence || 0.5)),
                 reasoning: result.reasoning,
-            };
+                tokens: {
+                    input: data.prompt_eval_count || 0,
+                    output: data.eval_count || 0,
+                },
+            });
         } catch (error) {
             console.error('Ollama classify error:', error);
-            // Return fallback
-            return {
-                intent: options.intents[0]?.name || 'unknown',
-                confidence: 0.1,
-                reasoning: 'Classification failed, using fallback',
-            };
+            throw error;
         }
     }
 
     async generate(options: GenerateOptions): Promise<GenerateResult> {
         const model = options.model?.model || this.defaultModel;
 
-        let prompt = `${options.systemPrompt}\n\nUser: ${options.userMessage}`;
+        const transcript = (options.history ?? [])
+            .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`)
+            .join('\n');
+        let prompt = `${options.systemPrompt}\n\n${transcript ? `${transcript}\n` : ''}User: ${options.userMessage}`;
 
         if (options.schema) {
             prompt += `\n\nRespond with a JSON object matching this schema: ${JSON.stringify(options.schema)}`;
         }
 
+        const stream = Boolean(options.onToken) && !options.schema;
+
         try {
             const response = await fetch(`${this.baseUrl}/api/generate`, {
                 method: 'POST',
+                signal: options.signal,
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     model,
                     prompt,
                     format: options.schema ? 'json' : undefined,
-                    stream: false,
+                    stream,
                     options: {
                         temperature: options.model?.temperature ?? 0.7,
                         num_predict: options.model?.maxTokens ?? 500,
@@ -106,6 +116,10 @@ JSON Response:`;
                 throw new Error(`Ollama API error: ${response.status}`);
             }
 
+            if (stream) {
+                return priced('ollama', model, await this.readStream(response, options.onToken!));
+            }
+
             const data = await response.json();
 
             let structured: unknown;
@@ -117,20 +131,42 @@ JSON Response:`;
                 }
             }
 
-            return {
+            return priced('ollama', model, {
                 response: data.response,
                 structured,
                 tokens: {
                     input: data.prompt_eval_count || 0,
                     output: data.eval_count || 0,
                 },
-            };
+            });
         } catch (error) {
             console.error('Ollama generate error:', error);
             throw error;
         }
     }
 
+    /**
+     * Collect a streamed generation, forwarding each delta
+     */
+    private async readStream(response: Response, onToken: (delta: string) => void): Promise<GenerateResult> {
+        let text = '';
+        const tokens = { input: 0, output: 0 };
+
+        for await (const line of readLines(response)) {
+            const chunk = JSON.parse(line);
+            if (chunk.response) {
+                text += chunk.response;
+                onToken(chunk.response);
+            }
+            if (chunk.done) {
+                tokens.input = chunk.prompt_eval_count || 0;
+                tokens.output = chunk.eval_count || 0;
+            }
+        }
+
+        return { response: text, tokens };
+    }
+
     /**
      * Check if Ollama is available
      */
@@ -3,6 +3,15 @@
  */
 
 import type { AIAdapter, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
+import { readEventData, isEventObject } from '../stream';
+import { exampleAnswer, fewShotExamples, formatIntentList } from '../prompts';
+import { priced } from '../pricing';
+
+/** The parts of a streamed Chat Completions chunk this adapter reads */
+interface ChatCompletionChunk {
+    choices?: Array<{ delta?: { content?: unknown } }>;
+    usage?: { prompt_tokens?: unknown; completion_tokens?: unknown };
+}
 
 export class OpenAIAdapter implements AIAdapter {
     private apiKey: string;
@@ -22,12 +31,15 @@ export class OpenAIAdapter implements AIAdapter {
 
         const model = options.model?.model || this.defaultModel;
 
-        const intentList = options.intents
-            .map(i => `- ${i.name}: ${i.description}`)
-            .join('\n');
+        const intentList = formatIntentList(options.intents);
+        const demonstrations = fewShotExamples(options.intents).flatMap(example => [
+            { role: 'user', content: example.message },
+            { role: 'assistant', content: exampleAnswer(example.intent) },
+        ]);
 
         const response = await fetch(`${this.baseUrl}/chat/completions`, {
             method: 'POST',
+            signal: options.signal,
             headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${this.apiKey}`,
@@ -39,6 +51,7 @@ export class OpenAIAdapter implements AIAdapter {
                         role: 'system',
                         content: `${options.systemPrompt}\n\nAvailable intents:\n${intentList}`,
                     },
+                    ...demonstrations,
                     {
                         role: 'user',
                         content: options.userMessage,
@@ -56,11 +69,15 @@ export class OpenAIAdapter implements AIAdapter {
         const data = await response.json();
         const result = JSON.parse(data.choices[0].message.content);
 
-        return {
+        return priced('openai', model, {
             intent: result.intent,
             confidence: result.confidence || 0.8,
             reasoning: result.reasoning,
-        };
+            tokens: {
+                input: data.usage?.prompt_tokens || 0,
+                output: data.usage?.completion_tokens || 0,
+            },
+        });
     }
 
     async generate(options: GenerateOptions): Promise<GenerateResult> {
@@ -69,9 +86,11 @@ export class OpenAIAdapter implements AIAdapter {
         }
 
         const model = options.model?.model || this.defaultModel;
+        const stream = Boolean(options.onToken) && !options.schema;
 
         const response = await fetch(`${this.baseUrl}/chat/completions`, {
             method: 'POST',
+            signal: options.signal,
             headers: {
                 'Content-Type': 'application/json',
                 'Authorization': `Bearer ${this.apiKey}`,
@@ -79,12 +98,20 @@ export class OpenAIAdapter implements AIAdapter {
             body: JSON.stringify({
                 model,
                 messages: [
-                    { role: 'system', content: options.systemPrompt },
+                    {
+                        role: 'system',
+                        content: options.schema
+                            ? `${options.systemPrompt}\n\nRespond with a JSON object matching this schema: ${JSON.stringify(options.schema)}`
+                            : options.systemPrompt,
+                    },
+                    ...(options.history ?? []),
                     { role: 'user', content: options.userMessage },
                 ],
                 response_format: options.schema ? { type: 'json_object' } : undefined,
                 temperature: options.model?.temperature ?? 0.7,
                 max_tokens: options.model?.maxTokens ?? 500,
+                stream,
+                stream_options: stream ? { include_usage: true } : undefined,
             }),
         });
 
@@ -92,6 +119,10 @@ export class OpenAIAdapter implements AIAdapter {
             throw new Error(`OpenAI API error: ${response.status}`);
         }
 
+        if (stream) {
+            return priced('openai', model, await this.readStream(response, options.onToken!));
+        }
+
         const data = await response.json();
         const content = data.choices[0].message.content;
 
@@ -104,13 +135,38 @@ export class OpenAIAdapter implements AIAdapter {
             }
         }
 
-        return {
+        return priced('openai', model, {
             response: content,
             structured,
             tokens: {
                 input: data.usage?.prompt_tokens || 0,
                 output: data.usage?.completion_tokens || 0,
             },
-        };
+        });
+    }
+
+    /**
+     * Collect a streamed completion, forwarding each delta
+     */
+    private async readStream(response: Response, onToken: (delta: string) => void): Promise<GenerateResult> {
+        let text = '';
+        const tokens = { input: 0, output: 0 };
+
+        for await (const data of readEventData(response)) {
+            if (!isEventObject(data)) continue;
+            const event = data as ChatCompletionChunk;
+
+            const delta = event.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta) {
+                text += delta;
+                onToken(delta);
+            }
+            if (isEventObject(event.usage)) {
+                tokens.input = Number(event.usage.prompt_tokens) || 0;
+                tokens.output = Number(event.usage.completion_tokens) || 0;
+            }
+        }
+
+        return { response: text, tokens };
     }
 }
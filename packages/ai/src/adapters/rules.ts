@@ -7,37 +7,82 @@
 
 import type { AIAdapter, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from '../types';
 
+const STOP_WORDS = ['a', 'an', 'the', 'is', 'are', 'to', 'for', 'of', 'and', 'or', 'in', 'on', 'at', 'by'];
+
+/** Share of an example's words a message must contain to count as similar */
+const MIN_EXAMPLE_OVERLAP = 0.5;
+
+type Evidence = Pick<ClassifyResult, 'intent' | 'confidence' | 'reasoning'>;
+
 export class RulesAdapter implements AIAdapter {
     async classify(options: ClassifyOptions): Promise<ClassifyResult> {
         const message = options.userMessage.toLowerCase();
+        const messageWords = new Set(this.contentWords(message));
+        const messagePhrase = ` ${this.normalize(message)} `;
 
-        // Simple keyword matching
+        // Score every intent; ties go to the intent listed first
+        let best: Evidence | undefined;
         for (const intent of options.intents) {
             const keywords = this.extractKeywords(intent.name, intent.description);
-            const matchCount = keywords.filter(keyword => message.includes(keyword)).length;
+            const matched = keywords.filter(keyword => message.includes(keyword));
+            const evidence: Evidence[] = [];
 
-            if (matchCount > 0) {
-                return {
+            if (matched.length > 0) {
+                evidence.push({
                     intent: intent.name,
-                    confidence: Math.min(0.8, matchCount * 0.2),
-                    reasoning: `Matched keywords: ${keywords.filter(k => message.includes(k)).join(', ')}`,
-                };
+                    confidence: Math.min(0.8, matched.length * 0.2),
+                    reasoning: `Matched keywords: ${matched.join(', ')}`,
+                });
+            }
+
+            // Examples count as phrases: contained verbatim, or mostly shared words
+            for (const example of intent.examples ?? []) {
+                const phrase = this.normalize(example);
+                if (!phrase) continue;
+
+                if (messagePhrase.includes(` ${phrase} `)) {
+                    evidence.push({ intent: intent.name, confidence: 0.9, reasoning: `Matched example: "${example}"` });
+                    continue;
+                }
+
+                const words = this.contentWords(phrase);
+                const overlap = words.length > 0 ? words.filter(w => messageWords.has(w)).length / words.length : 0;
+                if (overlap >= MIN_EXAMPLE_OVERLAP) {
+                    evidence.push({
+                        intent: intent.name,
+                        confidence: 0.3 + 0.5 * overlap,
+                        reasoning: `Similar to example: "${example}"`,
+                    });
+                }
+            }
+
+            for (const result of evidence) {
+                if (!best || result.confidence > best.confidence) best = result;
             }
         }
 
+        // No LLM, so no tokens and no cost
+        if (best) return { ...best, tokens: { input: 0, output: 0 }, cost: 0 };
+
         // No match - return first intent as fallback
         return {
             intent: options.intents[0]?.name || 'unknown',
             confidence: 0.1,
             reasoning: 'No keyword matches found, using fallback',
+            tokens: { input: 0, output: 0 },
+            cost: 0,
         };
     }
 
     async generate(options: GenerateOptions): Promise<GenerateResult> {
         // Rules adapter can't generate - return a default message
+        const response = "I'm unable to process that request at the moment. Please try again later or contact support.";
+        if (!options.schema) options.onToken?.(response);
+
         return {
-            response: "I'm unable to process that request at the moment. Please try again later or contact support.",
+            response,
             tokens: { input: 0, output: 0 },
+            cost: 0,
         };
     }
 
@@ -45,12 +90,22 @@ export class RulesAdapter implements AIAdapter {
         const text = `${name} ${description}`.toLowerCase();
 
         // Remove common words and extract meaningful keywords
-        const stopWords = ['a', 'an', 'the', 'is', 'are', 'to', 'for', 'of', 'and', 'or', 'in', 'on', 'at', 'by'];
-        const words = text.split(/\W+/).filter(w => w.length > 2 && !stopWords.includes(w));
+        const words = this.contentWords(text);
 
         // Also add the intent name variations
         const nameVariations = name.split('_').filter(w => w.length > 2);
 
         return [...new Set([...words, ...nameVariations])];
     }
+
+    /**
+     * Lowercase words with punctuation collapsed, so "Where's my order?" matches "where's my order"
+     */
+    private normalize(text: string): string {
+        return text.toLowerCase().split(/\W+/).filter(Boolean).join(' ');
+    }
+
+    private contentWords(text: string): string[] {
+        return text.toLowerCase().split(/\W+/).filter(w => w.length > 2 && !STOP_WORDS.includes(w));
+    }
 }
@@ -0,0 +1,131 @@
+/**
+ * Text Embedders
+ *
+ * Vectors for the embedding intent classifier. The local embedder hashes
+ * words, word pairs and character trigrams, so it runs fully offline and
+ * tolerates small spelling and inflection differences ("shipped" vs
+ * "shipping"). Any other model name is embedded with Ollama.
+ */
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashing';
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_DIMENSIONS = 1024;
+
+/** Words too common to say anything about intent */
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'is', 'are', 'was', 'to', 'for', 'of', 'and', 'or', 'in', 'on', 'at', 'by',
+    'i', 'me', 'my', 'you', 'your', 'it', 'this', 'that', 'do', 'can', 'please',
+]);
+
+export interface TextEmbedder {
+    /** Model identifier */
+    readonly model: string;
+
+    /** Embed a batch of texts, one vector per text */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export function createTextEmbedder(model: string = LOCAL_EMBEDDING_MODEL, baseUrl?: string): TextEmbedder {
+    return model === LOCAL_EMBEDDING_MODEL ? new LocalEmbedder() : new OllamaTextEmbedder(model, baseUrl);
+}
+
+export class LocalEmbedder implements TextEmbedder {
+    readonly model = LOCAL_EMBEDDING_MODEL;
+    private dimensions: number;
+
+    constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+        this.dimensions = dimensions;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+            .filter(word => word.length > 1 && !STOP_WORDS.has(word));
+
+        const add = (feature: string, weight: number) => {
+            const hash = fnv1a(feature);
+            // A second bit of the hash picks the sign to reduce collision bias
+            vector[hash % this.dimensions] += (hash >>> 16) & 1 ? weight : -weight;
+        };
+
+        for (const [i, word] of words.entries()) {
+            add(`w:${word}`, 1);
+            if (i > 0) add(`b:${words[i - 1]} ${word}`, 1);
+
+            const padded = `#${word}#`;
+            for (let j = 0; j + 3 <= padded.length; j++) {
+                add(`c:${padded.slice(j, j + 3)}`, 0.5);
+            }
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm > 0 ? vector.map(v => v / norm) : vector;
+    }
+}
+
+export class OllamaTextEmbedder implements TextEmbedder {
+    readonly model: string;
+    private baseUrl: string;
+
+    constructor(model: string, baseUrl?: string) {
+        this.model = model;
+        this.baseUrl = baseUrl || process.env.OLLAMA_URL || DEFAULT_OLLAMA_URL;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+
+        const response = await fetch(`${this.baseUrl}/api/embed`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: this.model, input: texts }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Ollama embed error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+            throw new Error('Ollama embed returned an unexpected number of embeddings');
+        }
+
+        return data.embeddings;
+    }
+}
+
+/**
+ * Cosine similarity between two vectors (0 when dimensions differ)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
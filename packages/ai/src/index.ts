@@ -6,11 +6,26 @@
  * - OpenAI (optional cloud)
  * - Anthropic (optional cloud)
  * - Rules-based fallback
+ * - Embedding similarity (offline intent classification)
+ * - Fallback chains across providers
+ * - Per-node provider routing
+ * - Token usage and cost estimates
  */
 
-export { createAIService } from './service';
+export { createAIService, createFallbackService } from './service';
+export type { FallbackChainConfig } from './service';
+export { AIRegistry, createAIRegistry } from './registry';
+export type { AIRegistryOptions, AIRegistrySettings, ProviderSettings } from './registry';
+export { estimateCost, modelPrice, setModelPrice } from './pricing';
+export type { ModelPrice } from './pricing';
 export { OllamaAdapter } from './adapters/ollama';
 export { OpenAIAdapter } from './adapters/openai';
 export { AnthropicAdapter } from './adapters/anthropic';
 export { RulesAdapter } from './adapters/rules';
-export type { AIAdapter, AIConfig } from './types';
+export { EmbeddingAdapter } from './adapters/embedding';
+export { FallbackAdapter } from './adapters/fallback';
+export type { FallbackOptions, FallbackProvider } from './adapters/fallback';
+export { createTextEmbedder, LocalEmbedder, OllamaTextEmbedder, LOCAL_EMBEDDING_MODEL } from './embedders';
+export type { SimilarityCalibration } from './adapters/embedding';
+export type { TextEmbedder } from './embedders';
+export type { AIAdapter, AIConfig, ChatMessage, ClassifyIntent } from './types';
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { estimateCost, modelPrice, priced, setModelPrice } from './pricing';
+
+describe('modelPrice', () => {
+    it('matches dated snapshots by their longest prefix', () => {
+        expect(modelPrice('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+        expect(modelPrice('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+        expect(modelPrice('openai', 'gpt-4-0613')).toEqual({ input: 30, output: 60 });
+        expect(modelPrice('anthropic', 'claude-3-5-sonnet-20240620')).toEqual({ input: 3, output: 15 });
+    });
+
+    it('prices local providers at zero', () => {
+        for (const provider of ['ollama', 'rules', 'embedding']) {
+            expect(modelPrice(provider, 'anything')).toEqual({ input: 0, output: 0 });
+        }
+    });
+
+    it('has no price for unknown models and providers', () => {
+        expect(modelPrice('openai', 'o1-preview')).toBeUndefined();
+        expect(modelPrice('mistral', 'mistral-large')).toBeUndefined();
+    });
+});
+
+describe('estimateCost', () => {
+    it('charges input and output tokens per million', () => {
+        expect(estimateCost('anthropic', 'claude-3-haiku-20240307', { input: 2_000_000, output: 400_000 })).toBe(1);
+    });
+
+    it('is undefined without a price and zero for local providers', () => {
+        expect(estimateCost('openai', 'o1-preview', { input: 10, output: 10 })).toBeUndefined();
+        expect(estimateCost('ollama', 'llama3.2', { input: 10, output: 10 })).toBe(0);
+    });
+});
+
+describe('setModelPrice', () => {
+    it('adds prices for new providers and models', () => {
+        setModelPrice('acme', 'acme-large', { input: 1, output: 2 });
+        expect(estimateCost('acme', 'acme-large-v2', { input: 1_000_000, output: 1_000_000 })).toBe(3);
+    });
+
+    it('replaces an existing price without dropping the others', () => {
+        setModelPrice('acme', 'acme-small', { input: 0.1, output: 0.2 });
+        setModelPrice('acme', 'acme-small', { input: 0.2, output: 0.4 });
+        expect(modelPrice('acme', 'acme-small')).toEqual({ input: 0.2, output: 0.4 });
+        expect(modelPrice('acme', 'acme-large')).toEqual({ input: 1, output: 2 });
+    });
+});
+
+describe('priced', () => {
+    it('labels a result with its model and cost', () => {
+        const result = priced('openai', 'gpt-3.5-turbo', { text: 'Hi', tokens: { input: 1_000, output: 2_000 } });
+        expect(result).toEqual({
+            text: 'Hi',
+            tokens: { input: 1_000, output: 2_000 },
+            model: 'gpt-3.5-turbo',
+            cost: 0.0035,
+        });
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Model Pricing
+ *
+ * Published list prices for cloud models, used to estimate what each AI
+ * call costs. Local providers are free. Prices change: extend or correct
+ * the table at startup with `setModelPrice`.
+ */
+
+/** USD per million tokens */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+/** Providers that run locally and cost nothing per token */
+const FREE_PROVIDERS = new Set(['ollama', 'rules', 'embedding']);
+
+/** Keyed by model name prefix, so dated snapshots match their family */
+const PRICES: Record<string, Record<string, ModelPrice>> = {
+    openai: {
+        'gpt-4o': { input: 2.5, output: 10 },
+        'gpt-4o-mini': { input: 0.15, output: 0.6 },
+        'gpt-4-turbo': { input: 10, output: 30 },
+        'gpt-4': { input: 30, output: 60 },
+        'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    },
+    anthropic: {
+        'claude-3-opus': { input: 15, output: 75 },
+        'claude-3-sonnet': { input: 3, output: 15 },
+        'claude-3-haiku': { input: 0.25, output: 1.25 },
+        'claude-3-5-sonnet': { input: 3, output: 15 },
+        'claude-3-5-haiku': { input: 0.8, output: 4 },
+    },
+};
+
+/**
+ * Price of a model: the entry with the longest matching prefix, so
+ * `gpt-4o-mini-2024-07-18` is priced as `gpt-4o-mini`, not `gpt-4o`
+ */
+export function modelPrice(provider: string, model: string): ModelPrice | undefined {
+    if (FREE_PROVIDERS.has(provider)) return { input: 0, output: 0 };
+
+    const prices = PRICES[provider] ?? {};
+    const match = Object.keys(prices)
+        .filter(prefix => model.startsWith(prefix))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? prices[match] : undefined;
+}
+
+/**
+ * Add or replace the price of a model (or model prefix)
+ */
+export function setModelPrice(provider: string, model: string, price: ModelPrice): void {
+    PRICES[provider] = { ...PRICES[provider], [model]: price };
+}
+
+/**
+ * Estimated cost in USD, or undefined when the model has no price
+ */
+export function estimateCost(
+    provider: string,
+    model: string,
+    tokens: { input: number; output: number }
+): number | undefined {
+    const price = modelPrice(provider, model);
+    if (!price) return undefined;
+    return (tokens.input * price.input + tokens.output * price.output) / 1_000_000;
+}
+
+/**
+ * Label an adapter result with the model that produced it and its cost
+ */
+export function priced<T extends { tokens: { input: number; output: number } }>(
+    provider: string,
+    model: string,
+    result: T
+): T & { model: string; cost?: number } {
+    return { ...result, model, cost: estimateCost(provider, model, result.tokens) };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { exampleAnswer, fewShotExamples, formatIntentList } from './prompts';
+import { OpenAIAdapter } from './adapters/openai';
+import type { ClassifyIntent } from './types';
+
+const billing: ClassifyIntent = {
+    name: 'billing',
+    description: 'Questions about invoices',
+    examples: ['Where is my invoice?', '  ', 'Why was I charged twice?'],
+};
+const shipping: ClassifyIntent = {
+    name: 'shipping',
+    description: 'Delivery status',
+    examples: ['Where is my parcel?'],
+};
+const other: ClassifyIntent = { name: 'other', description: 'Anything else' };
+
+describe('fewShotExamples', () => {
+    it('takes examples round-robin across intents and skips blank ones', () => {
+        expect(fewShotExamples([billing, shipping, other]).map(e => [e.intent.name, e.message])).toEqual([
+            ['billing', 'Where is my invoice?'],
+            ['shipping', 'Where is my parcel?'],
+            ['billing', 'Why was I charged twice?'],
+        ]);
+    });
+
+    it('uses at most five examples per intent', () => {
+        const chatty = { ...other, examples: Array.from({ length: 8 }, (_, i) => `message ${i}`) };
+        expect(fewShotExamples([chatty])).toHaveLength(5);
+    });
+
+    it('returns nothing without examples', () => {
+        expect(fewShotExamples([other])).toEqual([]);
+    });
+});
+
+describe('prompt formatting', () => {
+    it('lists intents one per line', () => {
+        expect(formatIntentList([billing, other])).toBe('- billing: Questions about invoices\n- other: Anything else');
+    });
+
+    it('answers demonstrations in the classify response format', () => {
+        expect(JSON.parse(exampleAnswer(billing))).toEqual({
+            intent: 'billing',
+            confidence: 0.9,
+            reasoning: 'Questions about invoices',
+        });
+    });
+});
+
+describe('classify demonstrations', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('sends examples as turns between the system prompt and the message', async () => {
+        const fetchMock = vi.fn(async () => Response.json({
+            choices: [{ message: { content: '{"intent":"shipping","confidence":0.8}' } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5 },
+        }));
+        vi.stubGlobal('fetch', fetchMock);
+
+        await new OpenAIAdapter('sk-test').classify({
+            systemPrompt: 'Classify',
+            userMessage: 'Has my order shipped?',
+            intents: [billing, shipping],
+        });
+
+        const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+        const { messages } = JSON.parse(init.body as string);
+        expect(messages.map((m: { role: string }) => m.role))
+            .toEqual(['system', 'user', 'assistant', 'user', 'assistant', 'user', 'assistant', 'user']);
+        expect(messages[1].content).toBe('Where is my invoice?');
+        expect(JSON.parse(messages[2].content).intent).toBe('billing');
+        expect(messages.at(-1).content).toBe('Has my order shipped?');
+    });
+});
@@ -0,0 +1,47 @@
+/**
+ * Classification Prompts
+ *
+ * Shared rendering of intent lists and few-shot demonstrations, so every
+ * provider sees the same intents and examples.
+ */
+
+import type { ClassifyIntent } from './types';
+
+/** Examples used per intent; more add prompt tokens for little gain */
+const MAX_EXAMPLES_PER_INTENT = 5;
+
+export interface FewShotExample {
+    message: string;
+    intent: ClassifyIntent;
+}
+
+/**
+ * One line per intent: `- name: description`
+ */
+export function formatIntentList(intents: ClassifyIntent[]): string {
+    return intents.map(i => `- ${i.name}: ${i.description}`).join('\n');
+}
+
+/**
+ * Intent examples as demonstrations, taken round-robin across intents so
+ * no intent's examples all sit closest to the real message
+ */
+export function fewShotExamples(intents: ClassifyIntent[]): FewShotExample[] {
+    const examples: FewShotExample[] = [];
+
+    for (let i = 0; i < MAX_EXAMPLES_PER_INTENT; i++) {
+        for (const intent of intents) {
+            const message = intent.examples?.[i]?.trim();
+            if (message) examples.push({ message, intent });
+        }
+    }
+
+    return examples;
+}
+
+/**
+ * The response a demonstration expects, in the format classify asks for
+ */
+export function exampleAnswer(intent: ClassifyIntent): string {
+    return JSON.stringify({ intent: intent.name, confidence: 0.9, reasoning: intent.description });
+}
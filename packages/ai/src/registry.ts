@@ -0,0 +1,118 @@
+/**
+ * AI Registry
+ *
+ * Routes each call to the provider its node asks for (`model.provider`),
+ * creating one adapter per provider on first use from server-side settings.
+ * Calls that name no provider, like knowledge answer synthesis, go to the
+ * default provider. Settings can be replaced at runtime with `configure`.
+ */
+
+import type { AIAdapter, AIConfig, ClassifyOptions, ClassifyResult, GenerateOptions, GenerateResult } from './types';
+import { createAIService, createFallbackService, fallbackOptionsFromEnv } from './service';
+import type { FallbackOptions } from './adapters/fallback';
+
+/** Credentials, base URL and default model for one provider */
+export type ProviderSettings = Partial<Omit<AIConfig, 'provider'>>;
+
+export interface AIRegistryOptions {
+    /** Settings per provider; providers without settings use their environment defaults */
+    providers?: Partial<Record<AIConfig['provider'], ProviderSettings>>;
+    /** Provider for calls that don't name one */
+    defaultProvider?: AIConfig['provider'];
+    /**
+     * Providers tried in order for calls to the first one, e.g.
+     * `['ollama', 'openai', 'rules']`; used while that one is the default
+     */
+    fallbackChain?: Array<AIConfig['provider']>;
+    /** Timeouts and circuit breaker settings for the fallback chain */
+    fallbackOptions?: FallbackOptions;
+}
+
+/** The registry settings an operator can change at runtime */
+export type AIRegistrySettings = Pick<AIRegistryOptions, 'providers' | 'defaultProvider'>;
+
+export class AIRegistry implements AIAdapter {
+    private settings: Partial<Record<string, ProviderSettings>>;
+    private defaultProvider: string;
+    private fallbackChain: Array<AIConfig['provider']>;
+    private fallbackOptions: FallbackOptions;
+    private adapters = new Map<string, AIAdapter>();
+
+    constructor(options: AIRegistryOptions = {}) {
+        this.settings = options.providers ?? {};
+        this.defaultProvider = options.defaultProvider ?? 'ollama';
+        this.fallbackChain = options.fallbackChain ?? [];
+        this.fallbackOptions = options.fallbackOptions ?? {};
+    }
+
+    /**
+     * Replace provider settings and the default provider. Adapters are
+     * recreated on next use, so calls already running finish on the old ones.
+     */
+    configure(settings: AIRegistrySettings): void {
+        this.settings = settings.providers ?? {};
+        if (settings.defaultProvider) {
+            this.defaultProvider = settings.defaultProvider;
+        }
+        this.adapters.clear();
+    }
+
+    /**
+     * Current provider settings and default provider
+     */
+    current(): Required<AIRegistrySettings> {
+        return {
+            providers: this.settings,
+            defaultProvider: this.defaultProvider as AIConfig['provider'],
+        };
+    }
+
+    async classify(options: ClassifyOptions): Promise<ClassifyResult> {
+        const provider = options.model?.provider || this.defaultProvider;
+        const result = await this.get(provider).classify(options);
+        return { ...result, provider: result.provider ?? provider };
+    }
+
+    async generate(options: GenerateOptions): Promise<GenerateResult> {
+        const provider = options.model?.provider || this.defaultProvider;
+        const result = await this.get(provider).generate(options);
+        return { ...result, provider: result.provider ?? provider };
+    }
+
+    /**
+     * The adapter for a provider, created on first use
+     */
+    get(provider: string = this.defaultProvider): AIAdapter {
+        let adapter = this.adapters.get(provider);
+        if (!adapter) {
+            adapter = provider === this.fallbackChain[0] && this.fallbackChain.length > 1
+                ? createFallbackService({
+                    providers: this.fallbackChain.map(p => ({ ...this.settings[p], provider: p })),
+                    ...this.fallbackOptions,
+                })
+                : createAIService({ ...this.settings[provider], provider: provider as AIConfig['provider'] });
+            this.adapters.set(provider, adapter);
+        }
+        return adapter;
+    }
+}
+
+/**
+ * Registry configured from the environment. `AI_PROVIDER` names the default
+ * provider; when it lists several (e.g. `ollama,openai,rules`), calls for
+ * the first one, or for no provider, run through the fallback chain.
+ */
+export function createAIRegistry(providers: AIRegistryOptions['providers'] = {}): AIRegistry {
+    const chain = (process.env.AI_PROVIDER || 'ollama')
+        .split(',')
+        .map(p => p.trim() as AIConfig['provider'])
+        .filter(Boolean);
+    const [defaultProvider] = chain;
+
+    return new AIRegistry({
+        providers,
+        defaultProvider,
+        fallbackChain: chain,
+        fallbackOptions: fallbackOptionsFromEnv(),
+    });
+}
@@ -9,8 +9,30 @@ import { OllamaAdapter } from './adapters/ollama';
 import { OpenAIAdapter } from './adapters/openai';
 import { AnthropicAdapter } from './adapters/anthropic';
 import { RulesAdapter } from './adapters/rules';
+import { EmbeddingAdapter } from './adapters/embedding';
+import { FallbackAdapter } from './adapters/fallback';
+import type { FallbackOptions } from './adapters/fallback';
 
+export interface FallbackChainConfig extends FallbackOptions {
+    /** Providers to try in order, each with its own settings */
+    providers: Array<Partial<AIConfig> & Pick<AIConfig, 'provider'> & { timeoutMs?: number }>;
+}
+
+/**
+ * Create an adapter for one provider, or a fallback chain when `AI_PROVIDER`
+ * lists several (e.g. `ollama,openai,rules`)
+ */
 export function createAIService(config?: Partial<AIConfig>): AIAdapter {
+    if (!config?.provider) {
+        const providers = (process.env.AI_PROVIDER || '').split(',').map(p => p.trim()).filter(Boolean);
+        if (providers.length > 1) {
+            return createFallbackService({
+                providers: providers.map(provider => ({ provider: provider as AIConfig['provider'] })),
+                ...fallbackOptionsFromEnv(),
+            });
+        }
+    }
+
     const provider = config?.provider || process.env.AI_PROVIDER || 'ollama';
 
     switch (provider) {
@@ -26,8 +48,44 @@ export function createAIService(config?: Partial<AIConfig>): AIAdapter {
         case 'rules':
             return new RulesAdapter();
 
+        case 'embedding':
+            return new EmbeddingAdapter(config?.model, config?.baseUrl);
+
         default:
             console.warn(`Unknown AI provider: ${provider}, falling back to rules-based`);
             return new RulesAdapter();
     }
 }
+
+/**
+ * Create an adapter that tries each configured provider in turn
+ */
+export function createFallbackService(config: FallbackChainConfig): AIAdapter {
+    const { providers, ...options } = config;
+
+    return new FallbackAdapter(
+        providers.map(({ timeoutMs, ...provider }) => ({
+            name: provider.provider,
+            adapter: createAIService(provider),
+            timeoutMs,
+        })),
+        options
+    );
+}
+
+/**
+ * Chain timeouts and circuit breaker settings from `AI_TIMEOUT_MS`,
+ * `AI_CIRCUIT_FAILURES` and `AI_CIRCUIT_COOLDOWN_MS`
+ */
+export function fallbackOptionsFromEnv(): FallbackOptions {
+    return {
+        timeoutMs: envNumber('AI_TIMEOUT_MS'),
+        failureThreshold: envNumber('AI_CIRCUIT_FAILURES'),
+        cooldownMs: envNumber('AI_CIRCUIT_COOLDOWN_MS'),
+    };
+}
+
+function envNumber(name: string): number | undefined {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { readEventData, readLines, isEventObject } from './stream';
+
+function streamed(chunks: string[]): Response {
+    const encoder = new TextEncoder();
+    return new Response(new ReadableStream({
+        start(controller) {
+            for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+            controller.close();
+        },
+    }));
+}
+
+async function collect<T>(items: AsyncGenerator<T>): Promise<T[]> {
+    const result: T[] = [];
+    for await (const item of items) result.push(item);
+    return result;
+}
+
+describe('readLines', () => {
+    it('joins lines split across chunks and skips blank ones', async () => {
+        expect(await collect(readLines(streamed(['{"a":', '1}\n\n{"b"', ':2}'])))).toEqual(['{"a":1}', '{"b":2}']);
+    });
+});
+
+describe('readEventData', () => {
+    it('parses data lines until [DONE]', async () => {
+        const response = streamed([
+            'event: ping\n',
+            'data: {"type":"a"}\n',
+            'data: not json\n',
+            'data: [1, 2]\n',
+            'data: [DONE]\n',
+            'data: {"type":"after"}\n',
+        ]);
+
+        expect(await collect(readEventData(response))).toEqual([{ type: 'a' }, [1, 2]]);
+    });
+});
+
+describe('isEventObject', () => {
+    it('accepts only JSON objects', () => {
+        expect(isEventObject({ type: 'a' })).toBe(true);
+        expect(isEventObject([1])).toBe(false);
+        expect(isEventObject(null)).toBe(false);
+        expect(isEventObject('text')).toBe(false);
+    });
+});
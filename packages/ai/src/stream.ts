@@ -0,0 +1,63 @@
+/**
+ * Streaming Helpers
+ *
+ * Readers for the two streaming wire formats used by providers:
+ * newline-delimited JSON (Ollama) and Server-Sent Events (OpenAI, Anthropic).
+ */
+
+/**
+ * Yield each non-empty line of a streamed response body
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+
+            for (const line of lines) {
+                if (line.trim()) yield line;
+            }
+        }
+
+        buffer += decoder.decode();
+        if (buffer.trim()) yield buffer;
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Yield the parsed JSON payload of each SSE `data:` line, stopping at `[DONE]`.
+ * Payloads are untrusted; callers narrow them to the events they handle.
+ */
+export async function* readEventData(response: Response): AsyncGenerator<unknown> {
+    for await (const line of readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+
+        const data = line.slice(5).trim();
+        if (data === '[DONE]') return;
+
+        try {
+            yield JSON.parse(data);
+        } catch {
+            // Ignore keep-alive or partial payloads
+        }
+    }
+}
+
+/**
+ * Whether a parsed payload is a JSON object
+ */
+export function isEventObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -3,7 +3,7 @@
  */
 
 export interface AIConfig {
-    provider: 'ollama' | 'openai' | 'anthropic' | 'rules';
+    provider: 'ollama' | 'openai' | 'anthropic' | 'rules' | 'embedding';
     model?: string;
     temperature?: number;
     maxTokens?: number;
@@ -11,30 +11,65 @@ export interface AIConfig {
     baseUrl?: string;
 }
 
+export interface ClassifyIntent {
+    name: string;
+    description: string;
+    /** Sample user messages, rendered as few-shot demonstrations */
+    examples?: string[];
+}
+
 export interface ClassifyOptions {
     systemPrompt: string;
     userMessage: string;
-    intents: Array<{ name: string; description: string }>;
+    intents: ClassifyIntent[];
     model?: AIConfig;
+    /** Aborts the request, e.g. when a fallback chain times it out */
+    signal?: AbortSignal;
 }
 
 export interface ClassifyResult {
     intent: string;
     confidence: number;
     reasoning?: string;
+    /** No intent was similar enough to the message; `intent` is empty and `reasoning` names the closest one */
+    noMatch?: boolean;
+    /** Provider that answered, when a fallback chain picked one */
+    provider?: string;
+    tokens: { input: number; output: number };
+    /** Model that answered */
+    model?: string;
+    /** Estimated cost in USD, undefined when the model has no price */
+    cost?: number;
+}
+
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
 }
 
 export interface GenerateOptions {
     systemPrompt: string;
     userMessage: string;
+    /** Earlier conversation turns, oldest first */
+    history?: ChatMessage[];
     model?: AIConfig;
     schema?: Record<string, unknown>;
+    /** Stream the response, called with each text delta (ignored for structured output) */
+    onToken?: (delta: string) => void;
+    /** Aborts the request, e.g. when a fallback chain times it out */
+    signal?: AbortSignal;
 }
 
 export interface GenerateResult {
     response: string;
     structured?: unknown;
     tokens: { input: number; output: number };
+    /** Provider that answered, when a fallback chain picked one */
+    provider?: string;
+    /** Model that answered */
+    model?: string;
+    /** Estimated cost in USD, undefined when the model has no price */
+    cost?: number;
 }
 
 export interface AIAdapter {
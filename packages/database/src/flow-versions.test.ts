@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { FlowVersionStore } from './flow-versions';
+import { flows } from './schema';
+import { createTestDatabase, insertFlow } from './testing';
+
+let database: Awaited<ReturnType<typeof createTestDatabase>>;
+let versions: FlowVersionStore;
+
+beforeEach(async () => {
+    database = await createTestDatabase();
+    await insertFlow(database.db, 'flow', { name: 'First' });
+    versions = new FlowVersionStore(database.db);
+});
+
+afterEach(() => {
+    database.close();
+});
+
+async function editDraft(definition: unknown) {
+    await database.db.update(flows).set({ definition: JSON.stringify(definition) }).where(eq(flows.id, 'flow'));
+}
+
+async function flowRow() {
+    const [row] = await database.db.select().from(flows).where(eq(flows.id, 'flow'));
+    return row;
+}
+
+describe('FlowVersionStore', () => {
+    it('snapshots the draft as numbered versions', async () => {
+        const first = await versions.publish('flow', { changeNote: 'Launch', createdBy: 'ada' });
+        await editDraft({ name: 'Second' });
+        const second = await versions.publish('flow');
+
+        expect([first.version, second.version]).toEqual([1, 2]);
+        expect((await versions.get('flow', 1))?.definition).toEqual({ name: 'First' });
+        expect((await versions.latest('flow'))?.definition).toEqual({ name: 'Second' });
+        expect((await versions.list('flow')).map(v => [v.version, v.changeNote, v.createdBy]))
+            .toEqual([[2, undefined, undefined], [1, 'Launch', 'ada']]);
+        expect(await flowRow()).toMatchObject({ version: 2, status: 'published', publishedAt: second.createdAt });
+    });
+
+    it('keeps published snapshots when the draft changes', async () => {
+        await versions.publish('flow');
+        await editDraft({ name: 'Work in progress' });
+
+        expect((await versions.latest('flow'))?.definition).toEqual({ name: 'First' });
+    });
+
+    it('records why a flow was published with errors', async () => {
+        await versions.publish('flow', { forceReason: 'Hotfix' });
+        expect((await versions.get('flow', 1))?.forceReason).toBe('Hotfix');
+    });
+
+    it('rolls back by republishing an old version without touching the draft', async () => {
+        await versions.publish('flow');
+        await editDraft({ name: 'Second' });
+        await versions.publish('flow');
+        await editDraft({ name: 'Draft' });
+
+        const rolledBack = await versions.rollback('flow', 1);
+
+        expect(rolledBack).toMatchObject({ version: 3, changeNote: 'Rollback to version 1' });
+        expect((await versions.latest('flow'))?.definition).toEqual({ name: 'First' });
+        expect(JSON.parse((await flowRow()).definition)).toEqual({ name: 'Draft' });
+    });
+
+    it('keeps the version a session was pinned to after later publishes', async () => {
+        const pinned = (await versions.publish('flow')).version;
+        await editDraft({ name: 'Second' });
+        await versions.publish('flow');
+        await versions.rollback('flow', 2);
+
+        expect((await versions.get('flow', pinned))?.definition).toEqual({ name: 'First' });
+    });
+
+    it('rejects unknown flows and versions', async () => {
+        await expect(versions.publish('missing')).rejects.toThrow('Flow missing not found');
+        await expect(versions.rollback('flow', 7)).rejects.toThrow('Flow flow has no version 7');
+        expect(await versions.latest('flow')).toBeNull();
+        expect(await versions.get('flow', 1)).toBeNull();
+    });
+
+    it('deletes every version of a flow', async () => {
+        await versions.publish('flow');
+        await versions.publish('flow');
+        await versions.deleteAll('flow');
+
+        expect(await versions.list('flow')).toEqual([]);
+    });
+});
@@ -0,0 +1,152 @@
+/**
+ * Flow Version Store
+ *
+ * Immutable snapshots of published flows in the `flow_versions` table.
+ * `flows.definition` is the working draft; publishing copies it into a new
+ * numbered version, and rolling back republishes an older snapshot without
+ * touching the draft.
+ */
+
+import { eq, and, desc } from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { FlowDefinition, FlowVersionInfo } from '@ivakit/shared';
+import { generateId } from '@ivakit/shared';
+import * as schema from './schema';
+import { flows, flowVersions } from './schema';
+
+type VersionDatabase = LibSQLDatabase<typeof schema>;
+
+export interface PublishOptions {
+    changeNote?: string;
+    createdBy?: string;
+    /** Recorded when publishing a flow that failed validation */
+    forceReason?: string;
+}
+
+export interface FlowVersion extends FlowVersionInfo {
+    definition: FlowDefinition;
+}
+
+export class FlowVersionStore {
+    private db: VersionDatabase;
+
+    constructor(db: VersionDatabase) {
+        this.db = db;
+    }
+
+    /**
+     * Snapshot the flow's current draft as the next version
+     */
+    async publish(flowId: string, options: PublishOptions = {}): Promise<FlowVersionInfo> {
+        const rows = await this.db.select().from(flows).where(eq(flows.id, flowId));
+        const flow = rows[0];
+        if (!flow) {
+            throw new Error(`Flow ${flowId} not found`);
+        }
+
+        return this.createVersion(flowId, flow.definition, options);
+    }
+
+    /**
+     * Republish an earlier version as a new version. The draft is left as is.
+     */
+    async rollback(flowId: string, version: number, options: PublishOptions = {}): Promise<FlowVersionInfo> {
+        const target = await this.get(flowId, version);
+        if (!target) {
+            throw new Error(`Flow ${flowId} has no version ${version}`);
+        }
+
+        return this.createVersion(flowId, JSON.stringify(target.definition), {
+            createdBy: options.createdBy,
+            changeNote: options.changeNote ?? `Rollback to version ${version}`,
+        });
+    }
+
+    /**
+     * List versions, newest first
+     */
+    async list(flowId: string): Promise<FlowVersionInfo[]> {
+        const rows = await this.db.select().from(flowVersions)
+            .where(eq(flowVersions.flowId, flowId))
+            .orderBy(desc(flowVersions.version));
+
+        return rows.map(toInfo);
+    }
+
+    async get(flowId: string, version: number): Promise<FlowVersion | null> {
+        const rows = await this.db.select().from(flowVersions)
+            .where(and(eq(flowVersions.flowId, flowId), eq(flowVersions.version, version)));
+        const row = rows[0];
+        if (!row) return null;
+
+        return { ...toInfo(row), definition: JSON.parse(row.definition) };
+    }
+
+    /**
+     * The most recently published version, or null if the flow was never published
+     */
+    async latest(flowId: string): Promise<FlowVersion | null> {
+        const rows = await this.db.select().from(flowVersions)
+            .where(eq(flowVersions.flowId, flowId))
+            .orderBy(desc(flowVersions.version))
+            .limit(1);
+        const row = rows[0];
+        if (!row) return null;
+
+        return { ...toInfo(row), definition: JSON.parse(row.definition) };
+    }
+
+    /**
+     * Remove all versions of a flow
+     */
+    async deleteAll(flowId: string): Promise<void> {
+        await this.db.delete(flowVersions).where(eq(flowVersions.flowId, flowId));
+    }
+
+    private async createVersion(
+        flowId: string,
+        definition: string,
+        options: PublishOptions
+    ): Promise<FlowVersionInfo> {
+        return this.db.transaction(async (tx) => {
+            const latest = await tx.select({ version: flowVersions.version }).from(flowVersions)
+                .where(eq(flowVersions.flowId, flowId))
+                .orderBy(desc(flowVersions.version))
+                .limit(1);
+
+            const now = new Date().toISOString();
+            const row = {
+                id: generateId('fv'),
+                flowId,
+                version: (latest[0]?.version ?? 0) + 1,
+                definition,
+                createdAt: now,
+                createdBy: options.createdBy ?? null,
+                changeNote: options.changeNote ?? null,
+                forceReason: options.forceReason ?? null,
+            };
+
+            await tx.insert(flowVersions).values(row);
+            await tx.update(flows).set({
+                version: row.version,
+                status: 'published',
+                publishedAt: now,
+                updatedAt: now,
+            }).where(eq(flows.id, flowId));
+
+            return toInfo(row);
+        });
+    }
+}
+
+function toInfo(row: typeof flowVersions.$inferSelect): FlowVersionInfo {
+    return {
+        id: row.id,
+        flowId: row.flowId,
+        version: row.version,
+        createdAt: row.createdAt,
+        createdBy: row.createdBy ?? undefined,
+        changeNote: row.changeNote ?? undefined,
+        forceReason: row.forceReason ?? undefined,
+    };
+}
@@ -7,6 +7,10 @@ import { createClient } from '@libsql/client';
 import * as schema from './schema';
 
 export * from './schema';
+export { SqlSessionStorage } from './session-storage';
+export { FlowVersionStore } from './flow-versions';
+export type { FlowVersion, PublishOptions } from './flow-versions';
+export { SettingsStore } from './settings-store';
 
 // Create database client
 const client = createClient({
@@ -31,6 +31,7 @@ export const flowVersions = sqliteTable('flow_versions', {
     createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
     createdBy: text('created_by'),
     changeNote: text('change_note'),
+    forceReason: text('force_reason'), // Set when published despite validation errors
 });
 
 // ============================================================================
@@ -40,14 +41,18 @@ export const flowVersions = sqliteTable('flow_versions', {
 export const sessions = sqliteTable('sessions', {
     id: text('id').primaryKey(),
     flowId: text('flow_id').notNull().references(() => flows.id),
-    flowVersion: integer('flow_version').notNull(),
+    flowVersion: integer('flow_version'), // null when running the unpublished draft
     currentNodeId: text('current_node_id').notNull(),
     variables: text('variables').notNull().$defaultFn(() => '{}'), // JSON
     status: text('status', {
         enum: ['active', 'waiting_input', 'completed', 'escalated', 'error', 'timeout']
     }).notNull().default('active'),
     channel: text('channel', { enum: ['chat', 'voice', 'simulator'] }).notNull().default('chat'),
+    waitingSince: text('waiting_since'),
+    timeoutAt: text('timeout_at'), // input deadline while waiting
     metadata: text('metadata'), // JSON
+    frames: text('frames'), // JSON, open subflow calls
+    usage: text('usage'), // JSON, AI tokens and cost
     createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
     updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
     completedAt: text('completed_at'),
@@ -59,6 +64,7 @@ export const sessionMessages = sqliteTable('session_messages', {
     role: text('role', { enum: ['user', 'assistant', 'system'] }).notNull(),
     content: text('content').notNull(),
     nodeId: text('node_id'),
+    attachments: text('attachments'), // JSON
     timestamp: text('timestamp').notNull().$defaultFn(() => new Date().toISOString()),
 });
 
@@ -68,6 +74,7 @@ export const sessionSteps = sqliteTable('session_steps', {
     stepNumber: integer('step_number').notNull(),
     nodeId: text('node_id').notNull(),
     nodeType: text('node_type').notNull(),
+    flowId: text('flow_id'), // set for nodes that ran inside a subflow
     input: text('input'), // JSON
     output: text('output'), // JSON
     duration: integer('duration'), // milliseconds
@@ -107,7 +114,7 @@ export const documentChunks = sqliteTable('document_chunks', {
     documentId: text('document_id').notNull().references(() => documents.id),
     knowledgeBaseId: text('knowledge_base_id').notNull().references(() => knowledgeBases.id),
     content: text('content').notNull(),
-    embedding: blob('embedding'), // Float32Array serialized
+    embedding: blob('embedding', { mode: 'buffer' }), // Float32Array serialized
     startIndex: integer('start_index').notNull(),
     endIndex: integer('end_index').notNull(),
     metadata: text('metadata'), // JSON
@@ -129,6 +136,17 @@ export const tools = sqliteTable('tools', {
     updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
 });
 
+// ============================================================================
+// Settings
+// ============================================================================
+
+// Server settings changed from the studio, e.g. AI providers
+export const settings = sqliteTable('settings', {
+    key: text('key').primaryKey(),
+    value: text('value').notNull(), // JSON
+    updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+});
+
 // ============================================================================
 // Analytics
 // ============================================================================
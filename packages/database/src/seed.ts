@@ -5,7 +5,7 @@
  */
 
 import { db } from './index';
-import { flows, knowledgeBases, documents, tools } from './schema';
+import { flows, flowVersions, knowledgeBases, documents, tools } from './schema';
 import type { FlowDefinition } from '@ivakit/shared';
 
 // Demo Flow: Customer Support IVA
@@ -144,6 +144,17 @@ const customerSupportFlow: FlowDefinition = {
                 variableName: 'customer_message',
             },
         },
+        {
+            id: 'set_turn',
+            type: 'set_variable',
+            name: 'Count Turn',
+            position: { x: 450, y: 895 },
+            config: {
+                assignments: [
+                    { variable: 'attempts', mode: 'expression', value: 'attempts + 1' },
+                ],
+            },
+        },
         {
             id: 'condition_end',
             type: 'condition',
@@ -183,7 +194,8 @@ const customerSupportFlow: FlowDefinition = {
         { id: 'e11', source: 'msg_refund', target: 'collect_2' },
         { id: 'e12', source: 'tool_1', target: 'msg_tech' },
         { id: 'e13', source: 'msg_tech', target: 'collect_2' },
-        { id: 'e14', source: 'collect_2', target: 'condition_end' },
+        { id: 'e14', source: 'collect_2', target: 'set_turn' },
+        { id: 'e17', source: 'set_turn', target: 'condition_end' },
         { id: 'e15', source: 'condition_end', target: 'router_1', label: 'continue' },
         { id: 'e16', source: 'condition_end', target: 'end_1', label: 'goodbye' },
     ],
@@ -459,6 +471,14 @@ async function seed() {
         },
     ]).onConflictDoNothing();
 
+    await db.insert(flowVersions).values([customerSupportFlow, orderTrackingFlow].map(flow => ({
+        id: `fv_${flow.id}_1`,
+        flowId: flow.id,
+        version: 1,
+        definition: JSON.stringify(flow),
+        changeNote: 'Initial version',
+    }))).onConflictDoNothing();
+
     // Insert knowledge base
     console.log('  Creating knowledge base...');
     await db.insert(knowledgeBases).values({
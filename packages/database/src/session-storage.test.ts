@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSession } from '@ivakit/shared';
+import type { ExecutionStep, SessionState } from '@ivakit/shared';
+import { SqlSessionStorage } from './session-storage';
+import { createTestDatabase, insertFlow } from './testing';
+
+let database: Awaited<ReturnType<typeof createTestDatabase>>;
+let storage: SqlSessionStorage;
+
+beforeEach(async () => {
+    database = await createTestDatabase();
+    await insertFlow(database.db, 'flow');
+    storage = new SqlSessionStorage(database.db);
+});
+
+afterEach(() => {
+    database.close();
+});
+
+function step(id: string, nodeId = id): ExecutionStep {
+    return { stepId: id, nodeId, nodeType: 'message', timestamp: '2024-01-01T00:00:00Z', output: { id } };
+}
+
+function session(history: ExecutionStep[] = []): SessionState {
+    return { ...createSession('flow', 'start'), id: 'session', history };
+}
+
+const stepIds = async () => (await storage.get('session'))?.history.map(s => s.stepId);
+
+describe('SqlSessionStorage', () => {
+    it('round-trips a session', async () => {
+        const saved: SessionState = {
+            ...session([step('a')]),
+            flowVersion: 2,
+            variables: { name: 'Ada', order: { total: 3 } },
+            status: 'waiting_input',
+            waitingSince: '2024-01-01T00:00:00Z',
+            timeoutAt: '2024-01-01T00:01:00Z',
+            frames: [{ flowId: 'parent', callerNodeId: 'call', callerVariables: { x: 1 } }],
+            usage: { calls: 1, inputTokens: 10, outputTokens: 5, cost: 0.01, byFlow: {} },
+        };
+        await storage.set(saved);
+
+        expect(await storage.get('session')).toEqual(saved);
+        expect(await storage.get('missing')).toBeNull();
+    });
+
+    it('appends steps added since the last write', async () => {
+        await storage.set(session([step('a'), step('b')]));
+        await storage.set(session([step('a'), step('b'), step('c')]));
+
+        expect(await stepIds()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('keeps new steps when the history was trimmed in memory', async () => {
+        await storage.set(session([step('a'), step('b'), step('c')]));
+        await storage.set(session([step('c'), step('d')]));
+
+        expect(await stepIds()).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('does not repeat steps of a history rebuilt in a different order', async () => {
+        await storage.set(session([step('a'), step('b')]));
+        await storage.set(session([step('b'), step('a'), step('c')]));
+
+        expect(await stepIds()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('lists sessions whose input wait has expired', async () => {
+        await storage.set({ ...session(), status: 'waiting_input', waitingSince: 'w1', timeoutAt: '2024-01-01T00:01:00Z' });
+        await storage.set({ ...session(), id: 'later', status: 'waiting_input', timeoutAt: '2024-01-01T00:05:00Z' });
+        await storage.set({ ...session(), id: 'done', status: 'completed', timeoutAt: '2024-01-01T00:00:30Z' });
+
+        expect(await storage.listTimedOut('2024-01-01T00:02:00Z')).toEqual([{ id: 'session', waitingSince: 'w1' }]);
+    });
+
+    it('keeps messages in the order they were sent and deletes them with the session', async () => {
+        await storage.set(session([step('a')]));
+        const timestamp = '2024-01-01T00:00:00Z';
+        await storage.appendMessages('session', [
+            { id: 'm1', role: 'assistant', content: 'Hi', timestamp },
+            { id: 'm2', role: 'user', content: 'Hello', timestamp },
+        ]);
+        await storage.appendMessages('session', [{ id: 'm3', role: 'assistant', content: 'Name?', timestamp }]);
+
+        expect((await storage.getMessages('session')).map(m => m.content)).toEqual(['Hi', 'Hello', 'Name?']);
+
+        await storage.delete('session');
+        expect(await storage.get('session')).toBeNull();
+        expect(await storage.getMessages('session')).toEqual([]);
+    });
+});
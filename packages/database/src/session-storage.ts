@@ -0,0 +1,188 @@
+/**
+ * SQL Session Storage
+ *
+ * Durable session storage backed by the `sessions`, `session_steps` and
+ * `session_messages` tables.
+ * Structurally implements the runtime `SessionStorage` interface so sessions
+ * survive API restarts.
+ */
+
+import { and, eq, asc, lte, sql } from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import type { SessionState, SessionMessage, SessionFrame, SessionUsage, ExecutionStep, NodeType, MessageAttachment } from '@ivakit/shared';
+import * as schema from './schema';
+import { sessions, sessionSteps, sessionMessages } from './schema';
+
+type SessionDatabase = LibSQLDatabase<typeof schema>;
+
+type SessionChannel = 'chat' | 'voice' | 'simulator';
+
+const TERMINAL_STATUSES: SessionState['status'][] = ['completed', 'escalated', 'error', 'timeout'];
+
+export class SqlSessionStorage {
+    private db: SessionDatabase;
+
+    constructor(db: SessionDatabase) {
+        this.db = db;
+    }
+
+    async get(sessionId: string): Promise<SessionState | null> {
+        const rows = await this.db.select().from(sessions).where(eq(sessions.id, sessionId));
+        const row = rows[0];
+        if (!row) return null;
+
+        const stepRows = await this.db.select().from(sessionSteps)
+            .where(eq(sessionSteps.sessionId, sessionId))
+            .orderBy(asc(sessionSteps.stepNumber));
+
+        const history: ExecutionStep[] = stepRows.map(step => ({
+            stepId: step.id,
+            nodeId: step.nodeId,
+            nodeType: step.nodeType as NodeType,
+            flowId: step.flowId ?? undefined,
+            timestamp: step.timestamp,
+            input: parseJson(step.input),
+            output: parseJson(step.output),
+            duration: step.duration ?? undefined,
+            error: parseJson(step.error) as ExecutionStep['error'],
+        }));
+
+        return {
+            id: row.id,
+            flowId: row.flowId,
+            flowVersion: row.flowVersion ?? undefined,
+            currentNodeId: row.currentNodeId,
+            variables: (parseJson(row.variables) as Record<string, unknown>) ?? {},
+            history,
+            status: row.status,
+            waitingSince: row.waitingSince ?? undefined,
+            timeoutAt: row.timeoutAt ?? undefined,
+            createdAt: row.createdAt,
+            updatedAt: row.updatedAt,
+            metadata: parseJson(row.metadata) as Record<string, unknown> | undefined,
+            frames: parseJson(row.frames) as SessionFrame[] | undefined,
+            usage: parseJson(row.usage) as SessionUsage | undefined,
+        };
+    }
+
+    async set(session: SessionState): Promise<void> {
+        const completedAt = TERMINAL_STATUSES.includes(session.status) ? session.updatedAt : null;
+        const channel = (session.metadata?.channel as SessionChannel | undefined) ?? 'chat';
+
+        await this.db.transaction(async (tx) => {
+            await tx.insert(sessions).values({
+                id: session.id,
+                flowId: session.flowId,
+                flowVersion: session.flowVersion ?? null,
+                currentNodeId: session.currentNodeId,
+                variables: JSON.stringify(session.variables),
+                status: session.status,
+                channel,
+                waitingSince: session.waitingSince ?? null,
+                timeoutAt: session.timeoutAt ?? null,
+                metadata: session.metadata ? JSON.stringify(session.metadata) : null,
+                frames: session.frames ? JSON.stringify(session.frames) : null,
+                usage: session.usage ? JSON.stringify(session.usage) : null,
+                createdAt: session.createdAt,
+                updatedAt: session.updatedAt,
+                completedAt,
+            }).onConflictDoUpdate({
+                target: sessions.id,
+                set: {
+                    currentNodeId: session.currentNodeId,
+                    variables: JSON.stringify(session.variables),
+                    status: session.status,
+                    waitingSince: session.waitingSince ?? null,
+                    timeoutAt: session.timeoutAt ?? null,
+                    metadata: session.metadata ? JSON.stringify(session.metadata) : null,
+                    frames: session.frames ? JSON.stringify(session.frames) : null,
+                    usage: session.usage ? JSON.stringify(session.usage) : null,
+                    updatedAt: session.updatedAt,
+                    completedAt,
+                },
+            });
+
+            // Steps are matched by ID rather than position, so a history that
+            // was trimmed or rebuilt in memory neither drops nor repeats steps
+            const storedSteps = await tx.select({ id: sessionSteps.id, stepNumber: sessionSteps.stepNumber })
+                .from(sessionSteps)
+                .where(eq(sessionSteps.sessionId, session.id));
+            const storedIds = new Set(storedSteps.map(step => step.id));
+            const nextNumber = storedSteps.reduce((next, step) => Math.max(next, step.stepNumber + 1), 0);
+
+            const newSteps = session.history.filter(step => !storedIds.has(step.stepId));
+            if (newSteps.length > 0) {
+                await tx.insert(sessionSteps).values(newSteps.map((step, i) => ({
+                    id: step.stepId,
+                    sessionId: session.id,
+                    stepNumber: nextNumber + i,
+                    nodeId: step.nodeId,
+                    nodeType: step.nodeType,
+                    flowId: step.flowId ?? null,
+                    input: step.input !== undefined ? JSON.stringify(step.input) : null,
+                    output: step.output !== undefined ? JSON.stringify(step.output) : null,
+                    duration: step.duration ?? null,
+                    error: step.error ? JSON.stringify(step.error) : null,
+                    timestamp: step.timestamp,
+                }))).onConflictDoNothing();
+            }
+        });
+    }
+
+    async listTimedOut(now: string): Promise<Array<Pick<SessionState, 'id' | 'waitingSince'>>> {
+        const rows = await this.db.select({ id: sessions.id, waitingSince: sessions.waitingSince }).from(sessions)
+            .where(and(eq(sessions.status, 'waiting_input'), lte(sessions.timeoutAt, now)));
+
+        return rows.map(row => ({ id: row.id, waitingSince: row.waitingSince ?? undefined }));
+    }
+
+    async appendMessages(sessionId: string, messages: SessionMessage[]): Promise<void> {
+        if (messages.length === 0) return;
+
+        await this.db.insert(sessionMessages).values(messages.map(message => ({
+            id: message.id,
+            sessionId,
+            role: message.role,
+            content: message.content,
+            nodeId: message.nodeId ?? null,
+            attachments: message.attachments ? JSON.stringify(message.attachments) : null,
+            timestamp: message.timestamp,
+        }))).onConflictDoNothing();
+    }
+
+    async getMessages(sessionId: string): Promise<SessionMessage[]> {
+        // rowid breaks ties between messages sent within the same millisecond
+        const rows = await this.db.select().from(sessionMessages)
+            .where(eq(sessionMessages.sessionId, sessionId))
+            .orderBy(asc(sessionMessages.timestamp), sql`rowid`);
+
+        return rows.map(row => ({
+            id: row.id,
+            role: row.role,
+            content: row.content,
+            nodeId: row.nodeId ?? undefined,
+            attachments: parseJson(row.attachments) as MessageAttachment[] | undefined,
+            timestamp: row.timestamp,
+        }));
+    }
+
+    async delete(sessionId: string): Promise<void> {
+        await this.db.transaction(async (tx) => {
+            await tx.delete(sessionSteps).where(eq(sessionSteps.sessionId, sessionId));
+            await tx.delete(sessionMessages).where(eq(sessionMessages.sessionId, sessionId));
+            await tx.delete(sessions).where(eq(sessions.id, sessionId));
+        });
+    }
+}
+
+/**
+ * Parse a nullable JSON column
+ */
+function parseJson(value: string | null): unknown {
+    if (value === null) return undefined;
+    try {
+        return JSON.parse(value);
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,36 @@
+/**
+ * Settings Store
+ *
+ * Server settings kept as JSON values in the `settings` table, one row per
+ * key, so changes made from the studio survive restarts.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { LibSQLDatabase } from 'drizzle-orm/libsql';
+import * as schema from './schema';
+import { settings } from './schema';
+
+type SettingsDatabase = LibSQLDatabase<typeof schema>;
+
+export class SettingsStore {
+    private db: SettingsDatabase;
+
+    constructor(db: SettingsDatabase) {
+        this.db = db;
+    }
+
+    /**
+     * The stored value, or null when the key was never set
+     */
+    async get<T>(key: string): Promise<T | null> {
+        const rows = await this.db.select().from(settings).where(eq(settings.key, key));
+        return rows[0] ? JSON.parse(rows[0].value) as T : null;
+    }
+
+    async set<T>(key: string, value: T): Promise<void> {
+        const updatedAt = new Date().toISOString();
+        await this.db.insert(settings)
+            .values({ key, value: JSON.stringify(value), updatedAt })
+            .onConflictDoUpdate({ target: settings.key, set: { value: JSON.stringify(value), updatedAt } });
+    }
+}
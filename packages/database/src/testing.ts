@@ -0,0 +1,46 @@
+/**
+ * Test Database
+ *
+ * A throwaway SQLite database with the current schema, for tests.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { drizzle } from 'drizzle-orm/libsql';
+import { createClient } from '@libsql/client';
+import { generateSQLiteDrizzleJson, generateSQLiteMigration } from 'drizzle-kit/payload';
+import * as schema from './schema';
+import { flows } from './schema';
+
+/**
+ * Create a database in a temporary directory; `close` deletes it
+ */
+export async function createTestDatabase() {
+    const dir = mkdtempSync(join(tmpdir(), 'ivakit-db-'));
+    const client = createClient({ url: `file:${join(dir, 'test.db')}` });
+    const db = drizzle(client, { schema });
+
+    const statements = await generateSQLiteMigration(
+        await generateSQLiteDrizzleJson({}),
+        await generateSQLiteDrizzleJson(schema)
+    );
+    for (const statement of statements) {
+        await client.execute(statement);
+    }
+
+    return {
+        db,
+        close() {
+            client.close();
+            rmSync(dir, { recursive: true, force: true });
+        },
+    };
+}
+
+/**
+ * Insert a draft flow row for rows that reference one
+ */
+export async function insertFlow(db: Awaited<ReturnType<typeof createTestDatabase>>['db'], id: string, definition: unknown = {}) {
+    await db.insert(flows).values({ id, name: id, definition: JSON.stringify(definition) });
+}
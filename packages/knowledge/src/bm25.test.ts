@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { bm25Scores } from './bm25';
+
+const documents = [
+    'Returns are accepted within 30 days of delivery.',
+    'Order SKU-4471 ships from the Berlin warehouse.',
+    'Shipping is free on orders over 50 dollars. Shipping takes 3 days.',
+];
+
+describe('bm25Scores', () => {
+    it('returns one score per document', () => {
+        expect(bm25Scores('returns', documents)).toHaveLength(documents.length);
+    });
+
+    it('scores zero for documents without query terms', () => {
+        const [returns, sku] = bm25Scores('returns', documents);
+        expect(returns).toBeGreaterThan(0);
+        expect(sku).toBe(0);
+    });
+
+    it('matches exact identifiers', () => {
+        const scores = bm25Scores('where is sku-4471', documents);
+        expect(scores.indexOf(Math.max(...scores))).toBe(1);
+    });
+
+    it('ranks repeated terms higher', () => {
+        const [short, long] = bm25Scores('shipping', ['Shipping info.', 'Shipping and more shipping info.']);
+        expect(long).toBeGreaterThan(short);
+    });
+
+    it('weights rare terms above common ones', () => {
+        const corpus = ['order status', 'order refund', 'order tracking'];
+        const [status, refund] = bm25Scores('order refund', corpus);
+        expect(refund).toBeGreaterThan(status);
+    });
+
+    it('ignores stop words', () => {
+        expect(bm25Scores('what is the', documents)).toEqual([0, 0, 0]);
+    });
+
+    it('handles an empty corpus and query', () => {
+        expect(bm25Scores('anything', [])).toEqual([]);
+        expect(bm25Scores('', documents)).toEqual([0, 0, 0]);
+    });
+});
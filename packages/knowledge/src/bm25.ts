@@ -0,0 +1,58 @@
+/**
+ * BM25 Keyword Scoring
+ *
+ * Okapi BM25 over chunk contents. Exact-term matching catches SKU codes,
+ * policy names and other identifiers that embeddings tend to blur.
+ */
+
+import { tokenize } from './tokenizer';
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'to', 'for', 'of', 'and', 'or',
+    'in', 'on', 'at', 'by', 'with', 'it', 'my', 'me', 'i', 'you', 'your', 'do', 'does',
+    'can', 'how', 'what', 'when', 'where', 'this', 'that', 'there',
+]);
+
+function terms(text: string): string[] {
+    return tokenize(text).filter(t => !STOP_WORDS.has(t));
+}
+
+/**
+ * Score every document against the query; returns one score per document
+ */
+export function bm25Scores(query: string, documents: string[]): number[] {
+    const queryTerms = [...new Set(terms(query))];
+    if (queryTerms.length === 0 || documents.length === 0) {
+        return documents.map(() => 0);
+    }
+
+    const docTerms = documents.map(terms);
+    const avgLength = docTerms.reduce((sum, t) => sum + t.length, 0) / documents.length || 1;
+
+    // Document frequency per query term
+    const df = new Map<string, number>();
+    for (const term of queryTerms) {
+        df.set(term, docTerms.filter(t => t.includes(term)).length);
+    }
+
+    return docTerms.map(tokens => {
+        const tf = new Map<string, number>();
+        for (const token of tokens) {
+            tf.set(token, (tf.get(token) ?? 0) + 1);
+        }
+
+        let score = 0;
+        for (const term of queryTerms) {
+            const freq = tf.get(term) ?? 0;
+            if (freq === 0) continue;
+
+            const n = df.get(term) ?? 0;
+            const idf = Math.log(1 + (documents.length - n + 0.5) / (n + 0.5));
+            score += idf * (freq * (K1 + 1)) / (freq + K1 * (1 - B + B * tokens.length / avgLength));
+        }
+        return score;
+    });
+}
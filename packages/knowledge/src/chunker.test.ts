@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { chunkText } from './chunker';
+
+const paragraph = (word: string, count: number) => Array.from({ length: count }, () => word).join(' ') + '.';
+
+describe('chunkText', () => {
+    it('returns short text as one chunk', () => {
+        expect(chunkText('  Hello world.  ', { chunkSize: 100, chunkOverlap: 10 })).toEqual([
+            { content: 'Hello world.', startIndex: 2, endIndex: 16 },
+        ]);
+    });
+
+    it('returns nothing for blank text', () => {
+        expect(chunkText(' \n\n ', { chunkSize: 100, chunkOverlap: 10 })).toEqual([]);
+    });
+
+    it('prefers paragraph breaks', () => {
+        const text = `${paragraph('alpha', 10)}\n\n${paragraph('beta', 10)}`;
+        const chunks = chunkText(text, { chunkSize: 80, chunkOverlap: 0 });
+
+        expect(chunks[0].content).toBe(paragraph('alpha', 10));
+        expect(chunks[1].content).toBe(paragraph('beta', 10));
+    });
+
+    it('breaks at sentences before words', () => {
+        const text = 'First sentence here. Second sentence is a bit longer than the first one';
+        const [first] = chunkText(text, { chunkSize: 30, chunkOverlap: 0 });
+
+        expect(first.content).toBe('First sentence here.');
+    });
+
+    it('never splits words when a space is close enough', () => {
+        const text = paragraph('word', 50);
+        for (const chunk of chunkText(text, { chunkSize: 33, chunkOverlap: 8 })) {
+            expect(chunk.content).toMatch(/^word( word)*\.?$/);
+        }
+    });
+
+    it('overlaps consecutive chunks and covers the whole text', () => {
+        const text = paragraph('token', 60);
+        const chunks = chunkText(text, { chunkSize: 50, chunkOverlap: 12 });
+
+        expect(chunks[0].startIndex).toBe(0);
+        expect(chunks.at(-1)!.endIndex).toBe(text.length);
+        for (let i = 1; i < chunks.length; i++) {
+            expect(chunks[i].startIndex).toBeLessThan(chunks[i - 1].endIndex);
+            expect(chunks[i].startIndex).toBeGreaterThan(chunks[i - 1].startIndex);
+        }
+    });
+
+    it('always makes progress, even with an overlap as large as the chunk', () => {
+        const text = 'x'.repeat(100);
+        const chunks = chunkText(text, { chunkSize: 10, chunkOverlap: 50 });
+
+        expect(chunks.length).toBeGreaterThan(0);
+        expect(chunks.at(-1)!.endIndex).toBe(100);
+        expect(chunks.every((chunk, i) => i === 0 || chunk.startIndex > chunks[i - 1].startIndex)).toBe(true);
+    });
+});
@@ -0,0 +1,80 @@
+/**
+ * Text Chunker
+ *
+ * Splits document text into overlapping chunks, preferring paragraph and
+ * sentence boundaries so passages stay readable.
+ */
+
+import type { ChunkOptions, TextChunk } from './types';
+
+/** Don't break further back than this fraction of the chunk to find a boundary */
+const MIN_BREAK_RATIO = 0.5;
+
+/**
+ * Split text into chunks of roughly `chunkSize` characters
+ */
+export function chunkText(text: string, options: ChunkOptions): TextChunk[] {
+    const chunkSize = Math.max(1, options.chunkSize);
+    const overlap = Math.min(Math.max(0, options.chunkOverlap), chunkSize - 1);
+    const chunks: TextChunk[] = [];
+
+    let start = skipWhitespace(text, 0);
+
+    while (start < text.length) {
+        let end = Math.min(start + chunkSize, text.length);
+
+        if (end < text.length) {
+            end = findBreak(text, start, end);
+        }
+
+        const content = text.slice(start, end).trim();
+        if (content) {
+            chunks.push({ content, startIndex: start, endIndex: end });
+        }
+
+        if (end >= text.length) break;
+
+        // Step back by the overlap, but always make progress
+        const next = Math.max(end - overlap, start + 1);
+        start = skipWhitespace(text, alignToWord(text, next, end));
+    }
+
+    return chunks;
+}
+
+/**
+ * Find the best break point at or before `end`
+ */
+function findBreak(text: string, start: number, end: number): number {
+    const window = text.slice(start, end);
+    const minBreak = Math.floor(window.length * MIN_BREAK_RATIO);
+
+    const candidates = [
+        window.lastIndexOf('\n\n'),
+        Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '), window.lastIndexOf('\n')),
+        window.lastIndexOf(' '),
+    ];
+
+    for (const index of candidates) {
+        if (index >= minBreak) {
+            return start + index + 1;
+        }
+    }
+
+    return end;
+}
+
+/**
+ * Move forward to the start of the next word so overlaps don't begin mid-word
+ */
+function alignToWord(text: string, index: number, limit: number): number {
+    if (index === 0 || /\s/.test(text[index - 1])) return index;
+    let i = index;
+    while (i < limit && !/\s/.test(text[i])) i++;
+    return i < limit ? i : index;
+}
+
+function skipWhitespace(text: string, index: number): number {
+    while (index < text.length && /\s/.test(text[index])) index++;
+    return index;
+}
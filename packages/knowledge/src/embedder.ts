@@ -0,0 +1,17 @@
+/**
+ * Embedder Factory
+ *
+ * Creates the embedder for a knowledge base's `embeddingModel` setting.
+ */
+
+import type { Embedder } from './types';
+import { OllamaEmbedder } from './embedders/ollama';
+import { HashingEmbedder, HASHING_MODEL } from './embedders/hashing';
+
+export function createEmbedder(model: string): Embedder {
+    if (model === HASHING_MODEL) {
+        return new HashingEmbedder();
+    }
+
+    return new OllamaEmbedder(model);
+}
@@ -0,0 +1,61 @@
+/**
+ * Hashing Embedder
+ *
+ * Deterministic, dependency-free embeddings using the hashing trick over word
+ * unigrams and bigrams. Runs fully offline, which makes it suitable for tests
+ * and air-gapped installs; quality is closer to keyword search than to a
+ * neural model.
+ */
+
+import type { Embedder } from '../types';
+import { tokenize } from '../tokenizer';
+
+export const HASHING_MODEL = 'local-hashing';
+
+const DEFAULT_DIMENSIONS = 512;
+
+export class HashingEmbedder implements Embedder {
+    readonly model = HASHING_MODEL;
+    private dimensions: number;
+
+    constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+        this.dimensions = dimensions;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => this.embedOne(text));
+    }
+
+    private embedOne(text: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const tokens = tokenize(text);
+
+        const features = [
+            ...tokens,
+            ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`),
+        ];
+
+        for (const feature of features) {
+            const hash = fnv1a(feature);
+            const index = hash % this.dimensions;
+            // Use a second bit of the hash as the sign to reduce collision bias
+            const sign = (hash >>> 16) & 1 ? 1 : -1;
+            vector[index] += sign;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm > 0 ? vector.map(v => v / norm) : vector;
+    }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
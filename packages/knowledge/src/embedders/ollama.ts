@@ -0,0 +1,43 @@
+/**
+ * Ollama Embedder
+ *
+ * Local embeddings via Ollama's embed API.
+ */
+
+import type { Embedder } from '../types';
+
+const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+export class OllamaEmbedder implements Embedder {
+    readonly model: string;
+    private baseUrl: string;
+
+    constructor(model: string, baseUrl?: string) {
+        this.model = model;
+        this.baseUrl = baseUrl || process.env.OLLAMA_URL || DEFAULT_OLLAMA_URL;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+
+        const response = await fetch(`${this.baseUrl}/api/embed`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                model: this.model,
+                input: texts,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Ollama embed error: ${response.status}`);
+        }
+
+        const data = await response.json();
+        if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+            throw new Error('Ollama embed returned an unexpected number of embeddings');
+        }
+
+        return data.embeddings;
+    }
+}
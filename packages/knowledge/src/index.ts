@@ -0,0 +1,38 @@
+/**
+ * IVAkit Knowledge Module
+ *
+ * Local-first knowledge base pipeline:
+ * - Parsing (txt, md, html)
+ * - Chunking by knowledge base settings
+ * - Embedding (Ollama, or offline hashing)
+ * - Vector storage in SQLite
+ * - Vector, BM25 keyword and hybrid retrieval with reranking
+ * - Grounded answers
+ */
+
+export { KnowledgeIngestor } from './ingest';
+export type { KnowledgeIngestorOptions } from './ingest';
+export { KnowledgeSearchService } from './search';
+export type { KnowledgeSearchServiceOptions } from './search';
+export { LLMReranker } from './rerank';
+export { bm25Scores } from './bm25';
+export { createEmbedder } from './embedder';
+export { OllamaEmbedder } from './embedders/ollama';
+export { HashingEmbedder, HASHING_MODEL } from './embedders/hashing';
+export { chunkText } from './chunker';
+export { extractText } from './parsers';
+export { serializeVector, deserializeVector, cosineSimilarity } from './vectors';
+export type {
+    Embedder,
+    DocumentType,
+    ChunkOptions,
+    TextChunk,
+    IngestDocumentOptions,
+    KnowledgeSearchOptions,
+    KnowledgeSearchResult,
+    RetrievedPassage,
+    RetrievalMode,
+    RerankMode,
+    Reranker,
+    AnswerGenerator,
+} from './types';
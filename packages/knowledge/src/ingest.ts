@@ -0,0 +1,146 @@
+/**
+ * Knowledge Ingestor
+ *
+ * Parses documents, chunks them according to the knowledge base settings,
+ * embeds each chunk and stores the vectors in `document_chunks`.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '@ivakit/database';
+import { documents, documentChunks } from '@ivakit/database';
+import type { DocumentInfo, KnowledgeBaseSettings } from '@ivakit/shared';
+import { generateId } from '@ivakit/shared';
+import type { Embedder, IngestDocumentOptions, DocumentType } from './types';
+import { extractText } from './parsers';
+import { chunkText } from './chunker';
+import { createEmbedder } from './embedder';
+import { serializeVector } from './vectors';
+import { loadSettings } from './settings';
+
+const EMBED_BATCH_SIZE = 32;
+
+export interface KnowledgeIngestorOptions {
+    /** Resolve the embedder for a knowledge base's embedding model */
+    embedderFor?: (model: string) => Embedder;
+}
+
+export class KnowledgeIngestor {
+    private db: Database;
+    private embedderFor: (model: string) => Embedder;
+
+    constructor(db: Database, options: KnowledgeIngestorOptions = {}) {
+        this.db = db;
+        this.embedderFor = options.embedderFor ?? createEmbedder;
+    }
+
+    /**
+     * Ingest a document into a knowledge base
+     */
+    async ingestDocument(options: IngestDocumentOptions): Promise<DocumentInfo> {
+        const settings = await loadSettings(this.db, options.knowledgeBaseId);
+        const documentId = options.documentId ?? generateId('doc');
+        const uploadedAt = new Date().toISOString();
+
+        const chunkRows = await this.buildChunks(
+            options.knowledgeBaseId,
+            documentId,
+            options.name,
+            options.type,
+            options.content,
+            settings
+        );
+
+        await this.db.transaction(async (tx) => {
+            await tx.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+            await tx.delete(documents).where(eq(documents.id, documentId));
+
+            await tx.insert(documents).values({
+                id: documentId,
+                knowledgeBaseId: options.knowledgeBaseId,
+                name: options.name,
+                type: options.type,
+                content: options.content,
+                size: options.content.length,
+                uploadedAt,
+            });
+
+            if (chunkRows.length > 0) {
+                await tx.insert(documentChunks).values(chunkRows);
+            }
+        });
+
+        return {
+            id: documentId,
+            name: options.name,
+            type: options.type,
+            size: options.content.length,
+            chunks: chunkRows.length,
+            uploadedAt,
+        };
+    }
+
+    /**
+     * Re-chunk and re-embed every document in a knowledge base
+     * (e.g. after changing its settings or for seeded documents)
+     */
+    async reindexKnowledgeBase(knowledgeBaseId: string): Promise<DocumentInfo[]> {
+        const docs = await this.db.select().from(documents)
+            .where(eq(documents.knowledgeBaseId, knowledgeBaseId));
+
+        const results: DocumentInfo[] = [];
+        for (const doc of docs) {
+            results.push(await this.ingestDocument({
+                knowledgeBaseId,
+                documentId: doc.id,
+                name: doc.name,
+                type: doc.type,
+                content: doc.content,
+            }));
+        }
+        return results;
+    }
+
+    /**
+     * Remove a document and its chunks
+     */
+    async deleteDocument(documentId: string): Promise<void> {
+        await this.db.transaction(async (tx) => {
+            await tx.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+            await tx.delete(documents).where(eq(documents.id, documentId));
+        });
+    }
+
+    private async buildChunks(
+        knowledgeBaseId: string,
+        documentId: string,
+        documentName: string,
+        type: DocumentType,
+        content: string,
+        settings: KnowledgeBaseSettings
+    ): Promise<Array<typeof documentChunks.$inferInsert>> {
+        const text = extractText(content, type);
+        const chunks = chunkText(text, settings);
+        const embedder = this.embedderFor(settings.embeddingModel);
+
+        const vectors: number[][] = [];
+        for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+            const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+            vectors.push(...await embedder.embed(batch.map(c => c.content)));
+        }
+
+        return chunks.map((chunk, i) => ({
+            id: generateId('chunk'),
+            documentId,
+            knowledgeBaseId,
+            content: chunk.content,
+            embedding: serializeVector(vectors[i]),
+            startIndex: chunk.startIndex,
+            endIndex: chunk.endIndex,
+            metadata: JSON.stringify({
+                documentName,
+                chunkIndex: i,
+                embeddingModel: embedder.model,
+            }),
+        }));
+    }
+}
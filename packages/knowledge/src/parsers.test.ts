@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { extractText } from './parsers';
+
+describe('extractText markdown', () => {
+    it('strips emphasis markers', () => {
+        expect(extractText('**Bold** and *italic*, __strong__ and _em_.', 'md'))
+            .toBe('Bold and italic, strong and em.');
+    });
+
+    it('keeps underscores inside identifiers', () => {
+        expect(extractText('Set max_retry_count and user_id in config_file.yaml', 'md'))
+            .toBe('Set max_retry_count and user_id in config_file.yaml');
+    });
+
+    it('keeps asterisks that are not emphasis', () => {
+        expect(extractText('2 * 3 * 4 = 24', 'md')).toBe('2 * 3 * 4 = 24');
+    });
+
+    it('strips headings, lists, links, code and rules', () => {
+        const markdown = [
+            '# Returns',
+            '- Ship it back within [30 days](https://example.com/returns)',
+            '1. Use `RETURN_LABEL`',
+            '---',
+            '> Refunds take _5 days_',
+        ].join('\n');
+
+        expect(extractText(markdown, 'md')).toBe(
+            'Returns\nShip it back within 30 days\nUse RETURN_LABEL\n\nRefunds take 5 days'
+        );
+    });
+});
+
+describe('extractText html', () => {
+    it('drops tags, scripts and decodes entities', () => {
+        expect(extractText('<p>Fish &amp; chips</p><script>alert(1)</script><p>&#163;5</p>', 'html'))
+            .toBe('Fish & chips\n\n£5');
+    });
+});
@@ -0,0 +1,86 @@
+/**
+ * Document Parsers
+ *
+ * Convert uploaded documents to plain text ready for chunking.
+ */
+
+import type { DocumentType } from './types';
+
+const HTML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+/**
+ * Extract plain text from a document
+ */
+export function extractText(content: string, type: DocumentType): string {
+    switch (type) {
+        case 'txt':
+            return normalizeWhitespace(content);
+        case 'md':
+            return normalizeWhitespace(stripMarkdown(content));
+        case 'html':
+            return normalizeWhitespace(stripHtml(content));
+        default:
+            throw new Error(`Unsupported document type: ${type}`);
+    }
+}
+
+/**
+ * Remove markdown syntax, keeping the readable text
+ */
+function stripMarkdown(markdown: string): string {
+    return markdown
+        .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1')     // fenced code: keep body
+        .replace(/`([^`]+)`/g, '$1')                      // inline code
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')         // images
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')          // links
+        .replace(/^#{1,6}\s+/gm, '')                      // headings
+        .replace(/^\s*>\s?/gm, '')                        // blockquotes
+        .replace(/^\s*([-*_]\s*){3,}$/gm, '')             // rules
+        .replace(/^\s*[-*+]\s+/gm, '')                    // bullets
+        .replace(/^\s*\d+\.\s+/gm, '')                    // numbered lists
+        // Emphasis hugs its text, and `_` only counts at word boundaries so snake_case stays
+        .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '$1')           // bold
+        .replace(/(?<!\w)__(?=\S)(.+?)(?<=\S)__(?!\w)/g, '$1')
+        .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '$1')               // italics
+        .replace(/(?<!\w)_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1');
+}
+
+/**
+ * Remove HTML tags, scripts and styles
+ */
+function stripHtml(html: string): string {
+    return html
+        .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<\/(p|div|h[1-6]|li|tr|section|article|br)\s*>/gi, '\n\n')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&(#\d+|#x[0-9a-f]+|\w+);/gi, (match, entity: string) => {
+            if (entity.startsWith('#x') || entity.startsWith('#X')) {
+                return String.fromCodePoint(parseInt(entity.slice(2), 16));
+            }
+            if (entity.startsWith('#')) {
+                return String.fromCodePoint(parseInt(entity.slice(1), 10));
+            }
+            return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+        });
+}
+
+/**
+ * Collapse runs of spaces and blank lines
+ */
+function normalizeWhitespace(text: string): string {
+    return text
+        .replace(/\r\n?/g, '\n')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,46 @@
+/**
+ * Rerankers
+ *
+ * Rescore retrieved candidates against the query. A cross-encoder can be
+ * plugged in through the `Reranker` interface; the LLM reranker uses the
+ * configured AI service.
+ */
+
+import type { AnswerGenerator, Reranker } from './types';
+
+const RERANK_SYSTEM_PROMPT = `You rate how well each numbered passage answers the query.
+Score each passage from 0 (irrelevant) to 10 (directly answers the query).
+Respond with a JSON object: {"scores": number[]} with one score per passage, in order.`;
+
+const RERANK_SCHEMA = {
+    type: 'object',
+    properties: {
+        scores: { type: 'array', items: { type: 'number' } },
+    },
+    required: ['scores'],
+};
+
+export class LLMReranker implements Reranker {
+    private ai: AnswerGenerator;
+
+    constructor(ai: AnswerGenerator) {
+        this.ai = ai;
+    }
+
+    async rerank(query: string, passages: string[]): Promise<number[]> {
+        const list = passages.map((p, i) => `[${i + 1}] ${p}`).join('\n\n');
+
+        const result = await this.ai.generate({
+            systemPrompt: RERANK_SYSTEM_PROMPT,
+            userMessage: `Query: ${query}\n\nPassages:\n${list}`,
+            schema: RERANK_SCHEMA,
+        });
+
+        const scores = (result.structured as { scores?: unknown } | undefined)?.scores;
+        if (!Array.isArray(scores) || scores.length !== passages.length) {
+            throw new Error('Reranker returned an unexpected number of scores');
+        }
+
+        return scores.map(s => Math.min(1, Math.max(0, Number(s) / 10 || 0)));
+    }
+}
@@ -0,0 +1,252 @@
+/**
+ * Knowledge Search Service
+ *
+ * Top-K retrieval over stored chunks by cosine similarity, BM25 keywords, or
+ * a weighted blend of both, with optional reranking. Answer synthesis is only
+ * marked grounded when the model cites the retrieved passages and reports the
+ * answer as supported by them.
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '@ivakit/database';
+import { documentChunks } from '@ivakit/database';
+import type {
+    AnswerGenerator,
+    Embedder,
+    KnowledgeSearchOptions,
+    KnowledgeSearchResult,
+    RerankMode,
+    Reranker,
+    RetrievedPassage,
+} from './types';
+import { createEmbedder } from './embedder';
+import { deserializeVector, cosineSimilarity } from './vectors';
+import { bm25Scores } from './bm25';
+import { LLMReranker } from './rerank';
+import { loadSettings } from './settings';
+
+const DEFAULT_TOP_K = 3;
+const DEFAULT_MIN_SCORE = 0.5;
+const DEFAULT_VECTOR_WEIGHT = 0.5;
+
+/** Candidates handed to the reranker, as a multiple of top K */
+const RERANK_POOL_FACTOR = 3;
+
+const ANSWER_SYSTEM_PROMPT = `You answer customer questions using ONLY the numbered passages provided.
+Rules:
+- Use only facts stated in the passages. Do not use outside knowledge.
+- Cite every passage you use with its number, e.g. [1].
+- If the passages do not contain the answer, set "supported" to false and leave "answer" empty.
+Respond with a JSON object: {"answer": string, "citations": number[], "supported": boolean}`;
+
+const ANSWER_SCHEMA = {
+    type: 'object',
+    properties: {
+        answer: { type: 'string' },
+        citations: { type: 'array', items: { type: 'number' } },
+        supported: { type: 'boolean' },
+    },
+    required: ['answer', 'citations', 'supported'],
+};
+
+export interface KnowledgeSearchServiceOptions {
+    /** Resolve the embedder for a knowledge base's embedding model */
+    embedderFor?: (model: string) => Embedder;
+
+    /** Compose answers from retrieved passages; without it the top passage is returned */
+    ai?: AnswerGenerator;
+
+    /** Cross-encoder used when `rerank: 'cross_encoder'` is requested */
+    crossEncoder?: Reranker;
+}
+
+export class KnowledgeSearchService {
+    private db: Database;
+    private embedderFor: (model: string) => Embedder;
+    private ai?: AnswerGenerator;
+    private rerankers: Partial<Record<RerankMode, Reranker>> = {};
+
+    constructor(db: Database, options: KnowledgeSearchServiceOptions = {}) {
+        this.db = db;
+        this.embedderFor = options.embedderFor ?? createEmbedder;
+        this.ai = options.ai;
+
+        if (options.ai) {
+            this.rerankers.llm = new LLMReranker(options.ai);
+        }
+        if (options.crossEncoder) {
+            this.rerankers.cross_encoder = options.crossEncoder;
+        }
+    }
+
+    async search(options: KnowledgeSearchOptions): Promise<KnowledgeSearchResult> {
+        const passages = await this.retrieve(options);
+
+        if (passages.length === 0) {
+            return { results: [], answer: '', confidence: 0, grounded: false };
+        }
+
+        const confidence = passages[0].score;
+        const ai = options.ai ?? this.ai;
+
+        if (!ai || options.synthesize === false) {
+            // Extractive answer: the best passage is trivially supported by itself
+            return {
+                results: passages,
+                answer: passages[0].content,
+                confidence,
+                grounded: true,
+                citations: [1],
+            };
+        }
+
+        const synthesized = await this.synthesize(ai, options.query, passages);
+        return {
+            results: passages,
+            answer: synthesized.answer,
+            confidence: synthesized.grounded ? confidence : 0,
+            grounded: synthesized.grounded,
+            citations: synthesized.citations,
+        };
+    }
+
+    /**
+     * Retrieve the top-K passages above the minimum score
+     */
+    async retrieve(options: KnowledgeSearchOptions): Promise<RetrievedPassage[]> {
+        const mode = options.retrievalMode ?? 'vector';
+        const topK = options.topK ?? DEFAULT_TOP_K;
+        const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+        const vectorWeight = mode === 'hybrid'
+            ? Math.min(1, Math.max(0, options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT))
+            : mode === 'vector' ? 1 : 0;
+
+        const chunks = await this.db.select().from(documentChunks)
+            .where(eq(documentChunks.knowledgeBaseId, options.knowledgeBaseId));
+
+        let queryVector: number[] | undefined;
+        if (mode !== 'keyword') {
+            const settings = await loadSettings(this.db, options.knowledgeBaseId);
+            [queryVector] = await this.embedderFor(settings.embeddingModel).embed([options.query]);
+        }
+
+        // BM25 scores are unbounded, so normalize against the best match
+        let keywordScores: number[] = [];
+        if (mode !== 'vector') {
+            const raw = bm25Scores(options.query, chunks.map(c => c.content));
+            const max = Math.max(0, ...raw);
+            keywordScores = raw.map(score => (max > 0 ? score / max : 0));
+        }
+
+        const scored: RetrievedPassage[] = [];
+
+        chunks.forEach((chunk, i) => {
+            const signals: NonNullable<RetrievedPassage['signals']> = {};
+
+            if (queryVector) {
+                if (!chunk.embedding) return;
+                signals.vector = cosineSimilarity(queryVector, deserializeVector(chunk.embedding));
+            }
+            if (mode !== 'vector') {
+                signals.keyword = keywordScores[i];
+            }
+
+            const score = vectorWeight * (signals.vector ?? 0) + (1 - vectorWeight) * (signals.keyword ?? 0);
+            if (score < minScore) return;
+
+            const metadata = chunk.metadata ? JSON.parse(chunk.metadata) : {};
+            scored.push({
+                content: chunk.content,
+                source: metadata.documentName ?? chunk.documentId,
+                score,
+                signals,
+                metadata: { ...metadata, chunkId: chunk.id, documentId: chunk.documentId },
+            });
+        });
+
+        scored.sort((a, b) => b.score - a.score);
+
+        const rerankMode = options.rerank ?? 'none';
+        if (rerankMode === 'none') {
+            return scored.slice(0, topK);
+        }
+
+        const candidates = scored.slice(0, topK * RERANK_POOL_FACTOR);
+        return (await this.rerank(rerankMode, options.query, candidates, options.ai)).slice(0, topK);
+    }
+
+    /**
+     * Rescore candidates with the requested reranker; falls back to the
+     * retrieval order when the reranker is unavailable or fails. `ai`, when
+     * given, scores the LLM mode in place of the service's AI.
+     */
+    private async rerank(
+        mode: RerankMode,
+        query: string,
+        candidates: RetrievedPassage[],
+        ai?: AnswerGenerator
+    ): Promise<RetrievedPassage[]> {
+        const reranker = mode === 'llm' && ai ? new LLMReranker(ai) : this.rerankers[mode];
+        if (!reranker) {
+            console.warn(`Reranker "${mode}" is not configured; using retrieval order`);
+            return candidates;
+        }
+        if (candidates.length < 2) {
+            return candidates;
+        }
+
+        try {
+            const scores = await reranker.rerank(query, candidates.map(c => c.content));
+            return candidates
+                .map((candidate, i) => ({
+                    ...candidate,
+                    score: scores[i],
+                    signals: { ...candidate.signals, rerank: scores[i] },
+                }))
+                .sort((a, b) => b.score - a.score);
+        } catch (error) {
+            console.error('Knowledge rerank failed:', error);
+            return candidates;
+        }
+    }
+
+    /**
+     * Ask the model to answer strictly from the passages
+     */
+    private async synthesize(
+        ai: AnswerGenerator,
+        query: string,
+        passages: RetrievedPassage[]
+    ): Promise<{ answer: string; grounded: boolean; citations: number[] }> {
+        const context = passages
+            .map((p, i) => `[${i + 1}] (${p.source})\n${p.content}`)
+            .join('\n\n');
+
+        try {
+            const result = await ai.generate({
+                systemPrompt: ANSWER_SYSTEM_PROMPT,
+                userMessage: `Passages:\n${context}\n\nQuestion: ${query}`,
+                schema: ANSWER_SCHEMA,
+            });
+
+            const structured = (result.structured ?? {}) as {
+                answer?: unknown;
+                citations?: unknown;
+                supported?: unknown;
+            };
+
+            const answer = typeof structured.answer === 'string' ? structured.answer.trim() : '';
+            const citations = Array.isArray(structured.citations)
+                ? structured.citations.filter((c): c is number => Number.isInteger(c))
+                : [];
+            const validCitations = citations.length > 0 && citations.every(c => c >= 1 && c <= passages.length);
+
+            const grounded = structured.supported === true && answer !== '' && validCitations;
+
+            return { answer: grounded ? answer : '', grounded, citations: grounded ? citations : [] };
+        } catch (error) {
+            console.error('Knowledge answer synthesis failed:', error);
+            return { answer: '', grounded: false, citations: [] };
+        }
+    }
+}
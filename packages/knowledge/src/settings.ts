@@ -0,0 +1,23 @@
+/**
+ * Knowledge Base Settings
+ */
+
+import { eq } from 'drizzle-orm';
+import type { Database } from '@ivakit/database';
+import { knowledgeBases } from '@ivakit/database';
+import type { KnowledgeBaseSettings } from '@ivakit/shared';
+import { KnowledgeBaseSettingsSchema } from '@ivakit/shared';
+
+/**
+ * Load and validate a knowledge base's settings
+ */
+export async function loadSettings(db: Database, knowledgeBaseId: string): Promise<KnowledgeBaseSettings> {
+    const rows = await db.select().from(knowledgeBases)
+        .where(eq(knowledgeBases.id, knowledgeBaseId));
+
+    if (!rows[0]) {
+        throw new Error(`Knowledge base "${knowledgeBaseId}" not found`);
+    }
+
+    return KnowledgeBaseSettingsSchema.parse(JSON.parse(rows[0].settings));
+}
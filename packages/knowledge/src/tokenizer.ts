@@ -0,0 +1,10 @@
+/**
+ * Tokenizer shared by the hashing embedder and keyword index
+ */
+
+/**
+ * Lowercase word tokens
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
@@ -0,0 +1,96 @@
+/**
+ * Knowledge Types
+ */
+
+import type { DocumentInfo, SearchResult } from '@ivakit/shared';
+
+/**
+ * Turns text into vectors
+ */
+export interface Embedder {
+    /** Model identifier stored alongside each chunk */
+    readonly model: string;
+
+    /** Embed a batch of texts, one vector per text */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export type DocumentType = DocumentInfo['type'];
+
+export interface ChunkOptions {
+    /** Target chunk size in characters */
+    chunkSize: number;
+
+    /** Characters shared between consecutive chunks */
+    chunkOverlap: number;
+}
+
+export interface TextChunk {
+    content: string;
+    startIndex: number;
+    endIndex: number;
+}
+
+export interface IngestDocumentOptions {
+    knowledgeBaseId: string;
+    name: string;
+    type: DocumentType;
+    content: string;
+    /** Replace an existing document with this ID */
+    documentId?: string;
+}
+
+/**
+ * The subset of the AI service used for answer synthesis and reranking
+ */
+export interface AnswerGenerator {
+    generate(options: {
+        systemPrompt: string;
+        userMessage: string;
+        schema?: Record<string, unknown>;
+    }): Promise<{ response: string; structured?: unknown }>;
+}
+
+/**
+ * Rescores passages against a query; one score (0-1) per passage
+ */
+export interface Reranker {
+    rerank(query: string, passages: string[]): Promise<number[]>;
+}
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export type RerankMode = 'none' | 'llm' | 'cross_encoder';
+
+export interface KnowledgeSearchOptions {
+    knowledgeBaseId: string;
+    query: string;
+    /** Number of passages to return */
+    topK?: number;
+    /** Minimum similarity score (0-1) */
+    minScore?: number;
+    /** Retrieval strategy (default: vector) */
+    retrievalMode?: RetrievalMode;
+    /** Weight of the vector score in hybrid mode, 0-1 (default: 0.5) */
+    vectorWeight?: number;
+    /** Rescore candidates before taking the top K (default: none) */
+    rerank?: RerankMode;
+    /** Compose an answer with the AI service (default: when configured) */
+    synthesize?: boolean;
+    /**
+     * Composes the answer and LLM rerank scores for this search instead of
+     * the service's AI, e.g. one that records the calls' usage
+     */
+    ai?: AnswerGenerator;
+}
+
+export type RetrievedPassage = SearchResult;
+
+export interface KnowledgeSearchResult {
+    results: RetrievedPassage[];
+    answer: string;
+    confidence: number;
+    grounded: boolean;
+    /** 1-based indexes into `results` that support the answer */
+    citations?: number[];
+}
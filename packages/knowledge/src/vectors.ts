@@ -0,0 +1,35 @@
+/**
+ * Vector Serialization
+ *
+ * Embeddings are stored in SQLite as little-endian Float32 blobs.
+ */
+
+export function serializeVector(vector: number[]): Buffer {
+    const floats = Float32Array.from(vector);
+    return Buffer.from(floats.buffer, floats.byteOffset, floats.byteLength);
+}
+
+export function deserializeVector(blob: Buffer | Uint8Array): Float32Array {
+    // Copy so the Float32Array is aligned regardless of the source buffer offset
+    const bytes = Uint8Array.from(blob);
+    return new Float32Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 4));
+}
+
+/**
+ * Cosine similarity between two vectors (0 when dimensions differ)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
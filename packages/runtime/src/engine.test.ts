@@ -0,0 +1,425 @@
+import { describe, it, expect } from 'vitest';
+import type { FlowDefinition } from '@ivakit/shared';
+import { FlowEngine } from './engine';
+import { SessionManager } from './session';
+import type { RuntimeEvent, RuntimeServices, SessionStorage } from './types';
+
+const flow: FlowDefinition = {
+    version: '1.0',
+    id: 'flow',
+    name: 'Timeout',
+    entryNode: 'start',
+    variables: [],
+    nodes: [
+        { id: 'start', type: 'start', name: 'Start', position: { x: 0, y: 0 }, config: {} },
+        {
+            id: 'ask',
+            type: 'collect_input',
+            name: 'Ask',
+            position: { x: 0, y: 100 },
+            config: { prompt: 'Name?', variableName: 'name', timeout: { seconds: 60, timeoutNodeId: 'late' } },
+        },
+        { id: 'done', type: 'end', name: 'Done', position: { x: 0, y: 200 }, config: { message: 'Thanks {{name}}', status: 'completed' } },
+        { id: 'late', type: 'end', name: 'Late', position: { x: 200, y: 200 }, config: { message: 'Too slow', status: 'completed' } },
+    ],
+    edges: [
+        { id: 'e1', source: 'start', target: 'ask' },
+        { id: 'e2', source: 'ask', target: 'done' },
+    ],
+    tools: [],
+    metadata: { createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+};
+
+function engine() {
+    const sessions = new SessionManager();
+    const services = {
+        sessions,
+        ai: {},
+        knowledge: {},
+        tools: {},
+    } as unknown as RuntimeServices;
+    return { sessions, engine: new FlowEngine(services) };
+}
+
+const resolveFlow = async () => flow;
+
+describe('FlowEngine timeouts', () => {
+    it('records a deadline while waiting and fires once it passes', async () => {
+        const { engine: flowEngine } = engine();
+        const { session } = await flowEngine.startSession(flow);
+        expect(session.status).toBe('waiting_input');
+        expect(Date.parse(session.timeoutAt!) - Date.parse(session.waitingSince!)).toBe(60_000);
+
+        expect(await flowEngine.tick(resolveFlow, Date.now())).toEqual([]);
+
+        const [timedOut] = await flowEngine.tick(resolveFlow, Date.now() + 61_000);
+        expect(timedOut.session.status).toBe('completed');
+        expect(timedOut.messages.map(m => m.content)).toEqual(['Too slow']);
+        expect(timedOut.session.history.find(step => step.output && (step.output as { timedOut?: boolean }).timedOut))
+            .toMatchObject({ nodeId: 'ask', nodeType: 'collect_input' });
+    });
+
+    it('does not fire for a session a reply already moved on', async () => {
+        const { engine: flowEngine, sessions } = engine();
+        const { session } = await flowEngine.startSession(flow);
+
+        const reply = flowEngine.processInput(flow, session.id, 'Ada');
+        const sweep = flowEngine.tick(resolveFlow, Date.now() + 61_000);
+        const [turn, timedOut] = await Promise.all([reply, sweep]);
+
+        expect(turn.messages.map(m => m.content)).toEqual(['Thanks Ada']);
+        expect(timedOut).toEqual([]);
+        expect((await sessions.get(session.id))?.timeoutAt).toBeUndefined();
+    });
+
+    it('closes the session as timed out without a timeout branch', async () => {
+        const noBranch: FlowDefinition = {
+            ...flow,
+            nodes: flow.nodes.map(n => n.type === 'collect_input' ? { ...n, config: { ...n.config, timeout: { seconds: 60 } } } : n),
+        };
+        const { engine: flowEngine } = engine();
+        const events: RuntimeEvent[] = [];
+        flowEngine.on(event => events.push(event));
+        const { session } = await flowEngine.startSession(noBranch);
+
+        const [timedOut] = await flowEngine.tick(async () => noBranch, Date.now() + 61_000);
+
+        expect(timedOut.session.status).toBe('timeout');
+        expect(timedOut.messages).toEqual([]);
+        expect(events).toContainEqual({ type: 'session_completed', sessionId: session.id, status: 'timeout' });
+    });
+
+    it('skips the sweep when the storage cannot list waiting sessions', async () => {
+        const sessions = new SessionManager();
+        const storage: SessionStorage = { get: id => sessions.get(id), set: s => sessions.set(s), delete: id => sessions.delete(id) };
+        const flowEngine = new FlowEngine({ sessions: storage, ai: {}, knowledge: {}, tools: {} } as unknown as RuntimeServices);
+        await flowEngine.startSession(flow);
+
+        expect(await flowEngine.tick(resolveFlow, Date.now() + 61_000)).toEqual([]);
+    });
+});
+
+describe('FlowEngine session locking', () => {
+    const twoQuestions: FlowDefinition = {
+        ...flow,
+        nodes: [
+            flow.nodes[0],
+            { id: 'first', type: 'collect_input', name: 'First', position: { x: 0, y: 100 }, config: { prompt: 'First name?', variableName: 'first' } },
+            { id: 'last', type: 'collect_input', name: 'Last', position: { x: 0, y: 200 }, config: { prompt: 'Last name?', variableName: 'last' } },
+            { id: 'done', type: 'end', name: 'Done', position: { x: 0, y: 300 }, config: { message: 'Thanks {{first}} {{last}}', status: 'completed' } },
+        ],
+        edges: [
+            { id: 'e1', source: 'start', target: 'first' },
+            { id: 'e2', source: 'first', target: 'last' },
+            { id: 'e3', source: 'last', target: 'done' },
+        ],
+    };
+
+    it('runs replies sent at once in the order they arrived', async () => {
+        const { engine: flowEngine } = engine();
+        const { session } = await flowEngine.startSession(twoQuestions);
+
+        const [first, second] = await Promise.all([
+            flowEngine.processInput(twoQuestions, session.id, 'Ada'),
+            flowEngine.processInput(twoQuestions, session.id, 'Lovelace'),
+        ]);
+
+        expect(first.messages.map(m => m.content)).toEqual(['Last name?']);
+        expect(second.messages.map(m => m.content)).toEqual(['Thanks Ada Lovelace']);
+        expect(second.session.status).toBe('completed');
+    });
+
+    it('does not hold up later replies after a failed one', async () => {
+        const { engine: flowEngine } = engine();
+        const { session } = await flowEngine.startSession(twoQuestions);
+
+        const [failed, next] = await Promise.allSettled([
+            flowEngine.processInput({ ...twoQuestions, id: 'other' }, session.id, 'Ada'),
+            flowEngine.processInput(twoQuestions, session.id, 'Ada'),
+        ]);
+
+        expect(failed.status).toBe('rejected');
+        expect(next.status === 'fulfilled' && next.value.messages.map(m => m.content)).toEqual(['Last name?']);
+    });
+});
+
+describe('FlowEngine usage', () => {
+    it('records the AI calls a knowledge search makes', async () => {
+        const searchFlow: FlowDefinition = {
+            ...flow,
+            nodes: [
+                flow.nodes[0],
+                {
+                    id: 'search',
+                    type: 'knowledge_search',
+                    name: 'Search',
+                    position: { x: 0, y: 100 },
+                    config: { knowledgeBaseId: 'kb', query: 'Opening hours?', resultVariable: 'found' },
+                },
+                { id: 'done', type: 'end', name: 'Done', position: { x: 0, y: 200 }, config: { status: 'completed' } },
+            ],
+            edges: [
+                { id: 'e1', source: 'start', target: 'search' },
+                { id: 'e2', source: 'search', target: 'done' },
+            ],
+        };
+
+        const services = {
+            sessions: new SessionManager(),
+            ai: {
+                generate: async () => ({
+                    response: '{}',
+                    provider: 'openai',
+                    model: 'gpt-4o-mini',
+                    tokens: { input: 120, output: 30 },
+                    cost: 0.001,
+                }),
+            },
+            knowledge: {
+                search: async (options: { ai?: RuntimeServices['ai'] }) => {
+                    const answer = await options.ai?.generate({ systemPrompt: 'Answer', userMessage: 'Opening hours?' });
+                    return { results: [], answer: answer?.response ?? '', confidence: 1, grounded: true };
+                },
+            },
+            tools: {},
+        } as unknown as RuntimeServices;
+
+        const { session } = await new FlowEngine(services).startSession(searchFlow);
+
+        expect(session.usage).toMatchObject({ calls: 1, inputTokens: 120, outputTokens: 30, cost: 0.001 });
+        expect(session.history.find(step => step.nodeId === 'search')?.output)
+            .toMatchObject({ usage: [{ provider: 'openai', model: 'gpt-4o-mini', inputTokens: 120 }] });
+    });
+});
+
+describe('FlowEngine tool failures', () => {
+    const toolFlow = (onError: { action: 'escalate'; targetNodeId?: string }): FlowDefinition => ({
+        ...flow,
+        nodes: [
+            flow.nodes[0],
+            {
+                id: 'call',
+                type: 'tool_call',
+                name: 'Call',
+                position: { x: 0, y: 100 },
+                config: { toolId: 'orders', inputs: {}, resultVariable: 'order', onError },
+            },
+            { id: 'agent', type: 'escalate', name: 'Agent', position: { x: 200, y: 200 }, config: { reason: 'Orders down' } },
+            { id: 'done', type: 'end', name: 'Done', position: { x: 0, y: 200 }, config: { status: 'completed' } },
+        ],
+        edges: [
+            { id: 'e1', source: 'start', target: 'call' },
+            { id: 'e2', source: 'call', target: 'done' },
+        ],
+    });
+
+    function failingEngine() {
+        const attempts = [
+            { attempt: 1, success: false, status: 503, error: 'HTTP 503', duration: 12 },
+            { attempt: 2, success: false, status: 503, error: 'HTTP 503', duration: 9 },
+        ];
+        const services = {
+            sessions: new SessionManager(),
+            ai: {},
+            knowledge: {},
+            tools: { execute: async () => ({ success: false, error: 'HTTP 503', attempts }) },
+        } as unknown as RuntimeServices;
+        return { engine: new FlowEngine(services), attempts };
+    }
+
+    it('escalates directly without an Escalate node target', async () => {
+        const { engine: flowEngine, attempts } = failingEngine();
+        const escalations: string[] = [];
+        flowEngine.on(event => {
+            if (event.type === 'session_escalated') escalations.push(event.reason ?? '');
+        });
+
+        const { session } = await flowEngine.startSession(toolFlow({ action: 'escalate' }));
+
+        expect(session.status).toBe('escalated');
+        expect(escalations).toEqual(['Tool "orders" failed: HTTP 503']);
+        expect(session.history.find(step => step.nodeId === 'call')?.output)
+            .toMatchObject({ escalated: true, attempts });
+    });
+
+    it('routes to the Escalate node in the target', async () => {
+        const { engine: flowEngine } = failingEngine();
+        const { session } = await flowEngine.startSession(toolFlow({ action: 'escalate', targetNodeId: 'agent' }));
+
+        expect(session.status).toBe('escalated');
+        expect(session.history.map(step => step.nodeId)).toEqual(['start', 'call', 'agent']);
+    });
+});
+
+describe('FlowEngine subflows', () => {
+    const caller: FlowDefinition = {
+        ...flow,
+        variables: [{ name: 'name', type: 'string', defaultValue: 'Ada' }],
+        nodes: [
+            flow.nodes[0],
+            {
+                id: 'call',
+                type: 'subflow',
+                name: 'Call',
+                position: { x: 0, y: 100 },
+                config: { flowId: 'child', inputs: { who: 'name' }, outputs: { answer: 'reply' } },
+            },
+            { id: 'done', type: 'end', name: 'Done', position: { x: 0, y: 200 }, config: { message: '{{name}} said {{answer}}', status: 'completed' } },
+        ],
+        edges: [
+            { id: 'e1', source: 'start', target: 'call' },
+            { id: 'e2', source: 'call', target: 'done' },
+        ],
+    };
+
+    const child = (prompt: string): FlowDefinition => ({
+        ...flow,
+        id: 'child',
+        nodes: [
+            flow.nodes[0],
+            { id: 'ask', type: 'collect_input', name: 'Ask', position: { x: 0, y: 100 }, config: { prompt, variableName: 'reply' } },
+            { id: 'back', type: 'end', name: 'Back', position: { x: 0, y: 200 }, config: { status: 'completed' } },
+        ],
+        edges: [
+            { id: 'e1', source: 'start', target: 'ask' },
+            { id: 'e2', source: 'ask', target: 'back' },
+        ],
+    });
+
+    /** An engine whose flow service publishes `child` versions on demand */
+    function subflowEngine(maxSubflowDepth?: number) {
+        const versions = new Map<number, FlowDefinition>([[1, child('How are you, {{who}}?')]]);
+        const services = {
+            sessions: new SessionManager(),
+            ai: {},
+            knowledge: {},
+            tools: {},
+            flows: {
+                get: async (_flowId: string, version?: number) => versions.get(version ?? versions.size) ?? null,
+                current: async () => ({ definition: versions.get(versions.size)!, version: versions.size }),
+            },
+        } as unknown as RuntimeServices;
+        const events: RuntimeEvent[] = [];
+        const flowEngine = new FlowEngine(services, { maxSubflowDepth });
+        flowEngine.on(event => events.push(event));
+        return {
+            engine: flowEngine,
+            events,
+            publish: (definition: FlowDefinition) => versions.set(versions.size + 1, definition),
+        };
+    }
+
+    it('runs the subflow in a frame and returns its outputs to the caller', async () => {
+        const { engine: flowEngine, events } = subflowEngine();
+
+        const started = await flowEngine.startSession(caller);
+        expect(started.messages.map(m => m.content)).toEqual(['How are you, Ada?']);
+        expect(started.session.frames).toEqual([{ flowId: 'child', flowVersion: 1, callerNodeId: 'call', callerVariables: { name: 'Ada' } }]);
+        expect(started.session.variables).toEqual({ who: 'Ada' });
+
+        const finished = await flowEngine.processInput(caller, started.session.id, 'Fine');
+        expect(finished.messages.map(m => m.content)).toEqual(['Ada said Fine']);
+        expect(finished.session.frames).toBeUndefined();
+        expect(finished.session.variables).toEqual({ name: 'Ada', answer: 'Fine' });
+        expect(finished.session.status).toBe('completed');
+        expect(finished.session.history.map(step => [step.nodeId, step.flowId])).toEqual([
+            ['start', undefined], ['call', undefined],
+            ['start', 'child'], ['ask', 'child'], ['ask', 'child'], ['back', 'child'],
+            ['call', undefined], ['done', undefined],
+        ]);
+        expect(events.filter(e => e.type.startsWith('subflow_'))).toEqual([
+            { type: 'subflow_started', sessionId: started.session.id, nodeId: 'call', flowId: 'child', version: 1 },
+            { type: 'subflow_completed', sessionId: started.session.id, nodeId: 'call', flowId: 'child', outputs: { answer: 'Fine' } },
+        ]);
+    });
+
+    it('keeps running the subflow version the frame was opened on', async () => {
+        const { engine: flowEngine, publish } = subflowEngine();
+        const { session } = await flowEngine.startSession(caller);
+
+        const changed = child('Changed');
+        publish({ ...changed, nodes: changed.nodes.map(n => n.type === 'end' ? { ...n, config: { ...n.config, message: 'New version' } } : n) });
+
+        const finished = await flowEngine.processInput(caller, session.id, 'Fine');
+        expect(finished.messages.map(m => m.content)).toEqual(['Ada said Fine']);
+    });
+
+    it('stops subflows nested past the depth limit', async () => {
+        const { engine: flowEngine, events } = subflowEngine(0);
+        const { session } = await flowEngine.startSession(caller);
+
+        expect(session.status).toBe('error');
+        expect(session.frames).toBeUndefined();
+        expect(events.find(e => e.type === 'node_error')).toMatchObject({ nodeId: 'call', error: { code: 'SUBFLOW_DEPTH_EXCEEDED' } });
+    });
+});
+
+describe('FlowEngine intent routing', () => {
+    const routerFlow = (fallbackIntent?: string): FlowDefinition => ({
+        ...flow,
+        variables: [{ name: 'user_message', type: 'string', defaultValue: 'When does the zoo open?' }],
+        nodes: [
+            flow.nodes[0],
+            {
+                id: 'route',
+                type: 'llm_router',
+                name: 'Route',
+                position: { x: 0, y: 100 },
+                config: {
+                    systemPrompt: 'Route the customer',
+                    intents: [
+                        { name: 'billing', description: 'Billing questions', targetNodeId: 'billing' },
+                        { name: 'other', description: 'Anything else', targetNodeId: 'help' },
+                    ],
+                    fallbackIntent,
+                },
+            },
+            { id: 'billing', type: 'end', name: 'Billing', position: { x: 0, y: 200 }, config: { message: 'Billing', status: 'completed' } },
+            { id: 'help', type: 'end', name: 'Help', position: { x: 200, y: 200 }, config: { message: 'Let me help', status: 'completed' } },
+        ],
+        edges: [{ id: 'e1', source: 'start', target: 'route' }],
+    });
+
+    /** An engine whose classifier finds nothing close to the message */
+    function noMatchEngine() {
+        const services = {
+            sessions: new SessionManager(),
+            ai: {
+                classify: async () => ({
+                    intent: '',
+                    confidence: 0,
+                    noMatch: true,
+                    reasoning: 'No intent is similar enough (closest: billing at 0.12)',
+                    tokens: { input: 0, output: 0 },
+                }),
+            },
+            knowledge: {},
+            tools: {},
+        } as unknown as RuntimeServices;
+        const events: RuntimeEvent[] = [];
+        const flowEngine = new FlowEngine(services);
+        flowEngine.on(event => events.push(event));
+        return { engine: flowEngine, events };
+    }
+
+    it('fails a no-match when the router has no fallback intent', async () => {
+        const { engine: flowEngine, events } = noMatchEngine();
+        const { session } = await flowEngine.startSession(routerFlow());
+
+        expect(session.status).toBe('error');
+        expect(events.find(e => e.type === 'node_error')).toMatchObject({
+            nodeId: 'route',
+            error: { code: 'NO_INTENT_MATCH', details: { reasoning: 'No intent is similar enough (closest: billing at 0.12)' } },
+        });
+    });
+
+    it('routes a no-match to the fallback intent', async () => {
+        const { engine: flowEngine } = noMatchEngine();
+        const { session, messages } = await flowEngine.startSession(routerFlow('other'));
+
+        expect(messages.map(m => m.content)).toEqual(['Let me help']);
+        expect(session.variables).toMatchObject({ last_intent: 'other', last_confidence: 0 });
+        expect(session.history.find(step => step.nodeId === 'route')?.output)
+            .toMatchObject({ intent: 'other', noMatch: true, fellback: true, originalIntent: undefined });
+    });
+});
@@ -4,24 +4,30 @@
  * The main execution engine for IVA flows.
  */
 
-import type { FlowDefinition, SessionState, ExecutionStep } from '@ivakit/shared';
-import { generateId, findNode, getNextNodes, cloneSession } from '@ivakit/shared';
+import type { FlowDefinition, FlowNode, CollectInputNode, SlotFillNode, SessionState, SessionMessage, ExecutionStep, AICallUsage } from '@ivakit/shared';
+import { generateId, findNode, getNextNodes, cloneSession, evaluateExpression, addSessionUsage } from '@ivakit/shared';
 import type {
     EngineConfig,
     RuntimeServices,
     RuntimeEvent,
     EventHandler,
-    NodeResult
+    NodeResult,
+    StartSessionOptions,
+    FlowResolver,
+    TurnResult
 } from './types';
 import { NodeExecutor } from './executor';
+import { meterAI } from './usage';
 
 const DEFAULT_MAX_STEPS = 100;
+const DEFAULT_MAX_SUBFLOW_DEPTH = 5;
 
 export class FlowEngine {
     private config: Required<EngineConfig>;
     private services: RuntimeServices;
     private executor: NodeExecutor;
     private eventHandlers: EventHandler[] = [];
+    private sessionLocks = new Map<string, Promise<unknown>>();
 
     constructor(services: RuntimeServices, config: EngineConfig = {}) {
         this.services = services;
@@ -29,6 +35,7 @@ export class FlowEngine {
             maxSteps: config.maxSteps ?? DEFAULT_MAX_STEPS,
             defaultToolTimeout: config.defaultToolTimeout ?? 30000,
             debug: config.debug ?? false,
+            maxSubflowDepth: config.maxSubflowDepth ?? DEFAULT_MAX_SUBFLOW_DEPTH,
         };
         this.executor = new NodeExecutor(services);
     }
@@ -43,6 +50,21 @@ export class FlowEngine {
         };
     }
 
+    /**
+     * Run `task` once earlier work on the same session in this engine has
+     * finished, so a timeout and a user reply can't both advance it
+     */
+    private async withSessionLock<T>(sessionId: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.sessionLocks.get(sessionId) ?? Promise.resolve();
+        const current = previous.catch(() => undefined).then(task);
+        this.sessionLocks.set(sessionId, current);
+        try {
+            return await current;
+        } finally {
+            if (this.sessionLocks.get(sessionId) === current) this.sessionLocks.delete(sessionId);
+        }
+    }
+
     private emit(event: RuntimeEvent): void {
         for (const handler of this.eventHandlers) {
             try {
@@ -60,9 +82,9 @@ export class FlowEngine {
     }
 
     /**
-     * Start a new session for a flow
+     * Start a new session for a flow and run its first turn
      */
-    async startSession(flow: FlowDefinition): Promise<SessionState> {
+    async startSession(flow: FlowDefinition, options: StartSessionOptions = {}): Promise<TurnResult> {
         const now = new Date().toISOString();
 
         // Find the start node
@@ -71,16 +93,22 @@ export class FlowEngine {
             throw new Error(`Entry node "${flow.entryNode}" not found in flow`);
         }
 
+        if (options.sessionId && await this.services.sessions.get(options.sessionId)) {
+            throw new Error(`Session "${options.sessionId}" already exists`);
+        }
+
         // Create initial session state
         const session: SessionState = {
-            id: generateId('session'),
+            id: options.sessionId ?? generateId('session'),
             flowId: flow.id,
+            flowVersion: options.flowVersion,
             currentNodeId: flow.entryNode,
             variables: this.initializeVariables(flow),
             history: [],
             status: 'active',
             createdAt: now,
             updatedAt: now,
+            metadata: options.metadata,
         };
 
         // Store session
@@ -100,13 +128,30 @@ export class FlowEngine {
         flow: FlowDefinition,
         sessionId: string,
         input: string
-    ): Promise<SessionState> {
-        // Get session
+    ): Promise<TurnResult> {
+        return this.withSessionLock(sessionId, () => this.applyInput(flow, sessionId, input));
+    }
+
+    private async applyInput(
+        flow: FlowDefinition,
+        sessionId: string,
+        input: string
+    ): Promise<TurnResult> {
+        // Get session (rehydrated from storage, which may outlive this process)
         const session = await this.services.sessions.get(sessionId);
         if (!session) {
             throw new Error(`Session "${sessionId}" not found`);
         }
 
+        if (session.flowId !== flow.id) {
+            throw new Error(`Session "${sessionId}" belongs to flow "${session.flowId}", not "${flow.id}"`);
+        }
+
+        const activeFlow = await this.activeFlow(flow, session);
+        if (!findNode(activeFlow, session.currentNodeId)) {
+            throw new Error(`Session "${sessionId}" is at node "${session.currentNodeId}" which no longer exists in flow "${activeFlow.id}"`);
+        }
+
         if (session.status !== 'waiting_input') {
             throw new Error(`Session "${sessionId}" is not waiting for input (status: ${session.status})`);
         }
@@ -116,8 +161,17 @@ export class FlowEngine {
         // Clone session for immutable updates
         const updatedSession = cloneSession(session);
         updatedSession.status = 'active';
+        updatedSession.waitingSince = undefined;
+        updatedSession.timeoutAt = undefined;
         updatedSession.updatedAt = new Date().toISOString();
 
+        await this.services.sessions.appendMessages?.(sessionId, [{
+            id: generateId('msg'),
+            role: 'user',
+            content: input,
+            timestamp: updatedSession.updatedAt,
+        }]);
+
         // Execute with input
         return this.executeFlow(flow, updatedSession, input);
     }
@@ -143,20 +197,46 @@ export class FlowEngine {
         return variables;
     }
 
+    /**
+     * The flow the session is currently in: the root flow, or the flow of
+     * its innermost subflow frame
+     */
+    private async activeFlow(
+        rootFlow: FlowDefinition,
+        session: SessionState,
+        resolveFlow?: FlowResolver
+    ): Promise<FlowDefinition> {
+        const frame = session.frames?.at(-1);
+        if (!frame) return rootFlow;
+
+        const flow = resolveFlow
+            ? await resolveFlow(frame.flowId, frame.flowVersion)
+            : await this.services.flows?.get(frame.flowId, frame.flowVersion);
+        if (!flow) {
+            throw new Error(`Subflow "${frame.flowId}" of session "${session.id}" could not be loaded`);
+        }
+        return flow;
+    }
+
     /**
      * Execute the flow from current position
      */
     private async executeFlow(
-        flow: FlowDefinition,
+        rootFlow: FlowDefinition,
         session: SessionState,
         input?: string
-    ): Promise<SessionState> {
+    ): Promise<TurnResult> {
         let currentSession = cloneSession(session);
+        let flow = await this.activeFlow(rootFlow, currentSession);
+        const messages: SessionMessage[] = [];
         let steps = 0;
 
         while (steps < this.config.maxSteps) {
             steps++;
 
+            // Set on events and steps for nodes that belong to a subflow
+            const subflowId = currentSession.frames?.length ? flow.id : undefined;
+
             // Get current node
             const node = findNode(flow, currentSession.currentNodeId);
             if (!node) {
@@ -169,10 +249,12 @@ export class FlowEngine {
                 type: 'node_started',
                 sessionId: currentSession.id,
                 nodeId: node.id,
-                nodeType: node.type
+                nodeType: node.type,
+                flowId: subflowId,
             });
 
             const startTime = Date.now();
+            const aiCalls: AICallUsage[] = [];
 
             // Execute node
             const result = await this.executor.execute({
@@ -180,21 +262,44 @@ export class FlowEngine {
                 session: currentSession,
                 node,
                 input,
-                services: this.services,
+                services: { ...this.services, ai: meterAI(this.services.ai, aiCalls) },
                 emit: this.emit.bind(this),
+                transcript: async () => [
+                    ...await this.getMessages(currentSession.id),
+                    ...messages,
+                ],
                 log: this.log.bind(this),
             });
 
             const duration = Date.now() - startTime;
 
+            if (result.subflow && (currentSession.frames?.length ?? 0) >= this.config.maxSubflowDepth) {
+                result.error = {
+                    code: 'SUBFLOW_DEPTH_EXCEEDED',
+                    message: `Subflows can only be nested ${this.config.maxSubflowDepth} levels deep`,
+                };
+            }
+
+            // AI usage goes in the step output and the session's totals
+            const output = aiCalls.length > 0
+                ? { ...result.output as Record<string, unknown>, usage: aiCalls }
+                : result.output;
+            for (const call of aiCalls) {
+                currentSession.usage = addSessionUsage(currentSession.usage, flow.id, call);
+                if (call.cost === undefined) {
+                    this.log('warn', `No price for ${call.provider ?? 'AI'} model "${call.model ?? 'unknown'}"; its cost is not counted`);
+                }
+            }
+
             // Record execution step
             const step: ExecutionStep = {
                 stepId: generateId('step'),
                 nodeId: node.id,
                 nodeType: node.type,
+                flowId: subflowId,
                 timestamp: new Date().toISOString(),
                 input,
-                output: result.output,
+                output,
                 duration,
                 error: result.error,
             };
@@ -205,7 +310,8 @@ export class FlowEngine {
                 sessionId: currentSession.id,
                 nodeId: node.id,
                 duration,
-                output: result.output
+                output,
+                flowId: subflowId,
             });
 
             // Update variables
@@ -215,10 +321,23 @@ export class FlowEngine {
 
             // Send message if any
             if (result.message) {
+                const message: SessionMessage = {
+                    id: generateId('msg'),
+                    role: 'assistant',
+                    content: result.message,
+                    nodeId: node.id,
+                    attachments: result.attachments,
+                    timestamp: new Date().toISOString(),
+                };
+                messages.push(message);
+
                 this.emit({
                     type: 'message_sent',
                     sessionId: currentSession.id,
-                    message: result.message
+                    message: message.content,
+                    nodeId: node.id,
+                    attachments: message.attachments,
+                    timestamp: message.timestamp
                 });
             }
 
@@ -228,7 +347,8 @@ export class FlowEngine {
                     type: 'node_error',
                     sessionId: currentSession.id,
                     nodeId: node.id,
-                    error: result.error
+                    error: result.error,
+                    flowId: subflowId,
                 });
                 currentSession.status = 'error';
                 break;
@@ -236,27 +356,70 @@ export class FlowEngine {
 
             // Check if we need to wait for input
             if (result.waitForInput) {
-                currentSession.status = 'waiting_input';
+                this.waitForInput(currentSession, node);
                 break;
             }
 
-            // Check if flow ended
-            if (result.end) {
-                currentSession.status = 'completed';
+            // Enter a subflow in a nested frame
+            if (result.subflow) {
+                const { flow: subflow, version, inputs } = result.subflow;
+                currentSession.frames = [...(currentSession.frames ?? []), {
+                    flowId: subflow.id,
+                    flowVersion: version,
+                    callerNodeId: node.id,
+                    callerVariables: currentSession.variables,
+                }];
+                currentSession.variables = { ...this.initializeVariables(subflow), ...inputs };
+                currentSession.currentNodeId = subflow.entryNode;
+                flow = subflow;
+
+                this.emit({
+                    type: 'subflow_started',
+                    sessionId: currentSession.id,
+                    nodeId: node.id,
+                    flowId: subflow.id,
+                    version
+                });
+
+                input = undefined;
+                currentSession.updatedAt = new Date().toISOString();
+                continue;
+            }
+
+            // Reaching a subflow's End node returns to its caller
+            let from: FlowNode = node;
+            if (result.end && node.type === 'end' && currentSession.frames?.length) {
+                try {
+                    const caller = await this.returnFromSubflow(rootFlow, currentSession);
+                    flow = caller.flow;
+                    from = caller.node;
+                } catch (error) {
+                    this.emit({
+                        type: 'node_error',
+                        sessionId: currentSession.id,
+                        nodeId: node.id,
+                        error: { code: 'SUBFLOW_RETURN_ERROR', message: error instanceof Error ? error.message : 'Unknown error' },
+                        flowId: subflowId,
+                    });
+                    currentSession.status = 'error';
+                    break;
+                }
+            } else if (result.end) {
+                currentSession.status = result.status ?? 'completed';
                 this.emit({
                     type: 'session_completed',
                     sessionId: currentSession.id,
-                    status: 'completed'
+                    status: currentSession.status
                 });
                 break;
             }
 
             // Determine next node
-            let nextNodeId = result.nextNodeId;
+            let nextNodeId = from === node ? result.nextNodeId : undefined;
 
             if (nextNodeId === undefined) {
                 // Follow default edge
-                const nextNodes = getNextNodes(flow, node.id);
+                const nextNodes = getNextNodes(flow, from.id);
                 if (nextNodes.length === 0) {
                     currentSession.status = 'completed';
                     break;
@@ -266,7 +429,7 @@ export class FlowEngine {
 
             if (nextNodeId === null) {
                 // Wait for input
-                currentSession.status = 'waiting_input';
+                this.waitForInput(currentSession, node);
                 break;
             }
 
@@ -281,10 +444,158 @@ export class FlowEngine {
             currentSession.status = 'error';
         }
 
-        // Persist session
+        // Persist session, then its transcript (messages reference the session row)
         await this.services.sessions.set(currentSession);
+        await this.services.sessions.appendMessages?.(currentSession.id, messages);
 
-        return currentSession;
+        return { session: currentSession, messages };
+    }
+
+    /**
+     * Mark the session as waiting for input at `node`, with a deadline when
+     * the node has a timeout
+     */
+    private waitForInput(session: SessionState, node: FlowNode): void {
+        const now = new Date();
+        session.status = 'waiting_input';
+        session.waitingSince = now.toISOString();
+        session.timeoutAt = (node.type === 'collect_input' || node.type === 'slot_fill') && node.config.timeout
+            ? new Date(now.getTime() + node.config.timeout.seconds * 1000).toISOString()
+            : undefined;
+    }
+
+    /**
+     * Close the innermost subflow frame: map the subflow's outputs into the
+     * caller's variables and return the caller's flow and subflow node
+     */
+    private async returnFromSubflow(
+        rootFlow: FlowDefinition,
+        session: SessionState
+    ): Promise<{ flow: FlowDefinition; node: FlowNode }> {
+        const frames = [...(session.frames ?? [])];
+        const frame = frames.pop()!;
+        const subflowVariables = session.variables;
+        session.frames = frames.length > 0 ? frames : undefined;
+
+        const flow = await this.activeFlow(rootFlow, session);
+        const node = findNode(flow, frame.callerNodeId);
+        if (node?.type !== 'subflow') {
+            throw new Error(`Subflow node "${frame.callerNodeId}" no longer exists in flow "${flow.id}"`);
+        }
+
+        const outputs: Record<string, unknown> = {};
+        for (const [variable, expression] of Object.entries(node.config.outputs ?? {})) {
+            outputs[variable] = evaluateExpression(expression, subflowVariables);
+        }
+        session.variables = { ...frame.callerVariables, ...outputs };
+
+        session.history.push({
+            stepId: generateId('step'),
+            nodeId: node.id,
+            nodeType: 'subflow',
+            flowId: session.frames ? flow.id : undefined,
+            timestamp: new Date().toISOString(),
+            output: { returned: true, flowId: frame.flowId, outputs },
+        });
+
+        this.emit({
+            type: 'subflow_completed',
+            sessionId: session.id,
+            nodeId: node.id,
+            flowId: frame.flowId,
+            outputs
+        });
+
+        return { flow, node };
+    }
+
+    /**
+     * Fire expired input timeouts.
+     *
+     * Sessions waiting on a `collect_input` or `slot_fill` node past their
+     * `timeoutAt` are routed to `timeoutNodeId`, or marked `timeout` if none is set.
+     * Call this periodically; returns a turn result per timed-out session.
+     */
+    async tick(resolveFlow: FlowResolver, now: number = Date.now()): Promise<TurnResult[]> {
+        if (!this.services.sessions.listTimedOut) {
+            this.log('warn', 'Session storage does not support listing timed-out sessions; timeouts disabled');
+            return [];
+        }
+
+        const due = await this.services.sessions.listTimedOut(new Date(now).toISOString());
+        const timedOut: TurnResult[] = [];
+
+        for (const candidate of due) {
+            try {
+                const result = await this.withSessionLock(candidate.id, async () => {
+                    // A reply may have moved the session on since it was listed
+                    const session = await this.services.sessions.get(candidate.id);
+                    if (session?.status !== 'waiting_input' || session.waitingSince !== candidate.waitingSince) {
+                        return null;
+                    }
+
+                    const flow = await resolveFlow(session.flowId, session.flowVersion);
+                    if (!flow) return null;
+
+                    const activeFlow = await this.activeFlow(flow, session, resolveFlow);
+                    const node = findNode(activeFlow, session.currentNodeId);
+                    if ((node?.type !== 'collect_input' && node?.type !== 'slot_fill') || !node.config.timeout) return null;
+
+                    return this.fireTimeout(flow, activeFlow, session, node);
+                });
+                if (result) timedOut.push(result);
+            } catch (e) {
+                this.log('error', `Timeout handling failed for session ${candidate.id}`, e);
+            }
+        }
+
+        return timedOut;
+    }
+
+    /**
+     * Route a timed-out session to its timeout branch or close it
+     */
+    private async fireTimeout(
+        rootFlow: FlowDefinition,
+        flow: FlowDefinition,
+        session: SessionState,
+        node: CollectInputNode | SlotFillNode
+    ): Promise<TurnResult> {
+        const { seconds, timeoutNodeId } = node.config.timeout!;
+        const updatedSession = cloneSession(session);
+        const now = new Date().toISOString();
+
+        updatedSession.history.push({
+            stepId: generateId('step'),
+            nodeId: node.id,
+            nodeType: node.type,
+            flowId: session.frames?.length ? flow.id : undefined,
+            timestamp: now,
+            output: { timedOut: true, seconds, timeoutNodeId },
+        });
+        updatedSession.waitingSince = undefined;
+        updatedSession.timeoutAt = undefined;
+        updatedSession.updatedAt = now;
+
+        this.emit({
+            type: 'session_timeout',
+            sessionId: session.id,
+            nodeId: session.currentNodeId,
+            timeoutNodeId,
+        });
+        this.log('info', `Session timed out: ${session.id} at node ${session.currentNodeId}`);
+
+        if (timeoutNodeId && findNode(flow, timeoutNodeId)) {
+            updatedSession.status = 'active';
+            updatedSession.currentNodeId = timeoutNodeId;
+            return this.executeFlow(rootFlow, updatedSession);
+        }
+
+        updatedSession.status = 'timeout';
+        await this.services.sessions.set(updatedSession);
+        this.emit({ type: 'session_completed', sessionId: session.id, status: 'timeout' });
+
+        return { session: updatedSession, messages: [] };
     }
 
     /**
@@ -294,6 +605,13 @@ export class FlowEngine {
         return this.services.sessions.get(sessionId);
     }
 
+    /**
+     * Get the session transcript (empty if the storage keeps none)
+     */
+    async getMessages(sessionId: string): Promise<SessionMessage[]> {
+        return this.services.sessions.getMessages?.(sessionId) ?? [];
+    }
+
     /**
      * End a session
      */
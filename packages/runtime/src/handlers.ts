@@ -9,15 +9,21 @@ import type {
     StartNode,
     MessageNode,
     CollectInputNode,
+    SlotFillNode,
+    SlotDefinition,
     LLMRouterNode,
+    LLMResponseNode,
     KnowledgeSearchNode,
     ToolCallNode,
     ConditionNode,
+    SetVariableNode,
+    SubflowNode,
     EscalateNode,
     EndNode
 } from '@ivakit/shared';
-import { interpolate, evaluateCondition, findConnectedEdges } from '@ivakit/shared';
-import type { ExecutionContext, NodeResult, NodeHandler } from './types';
+import { interpolate, evaluateCondition, evaluateExpression, getPath } from '@ivakit/shared';
+import type { ExecutionContext, NodeResult, NodeHandler, ToolAttempt, ToolExecuteResult } from './types';
+import { extractSlots, isValidSlotValue, normalizeSlotValue, parseDate } from './slots';
 
 /**
  * Create all node handlers
@@ -27,10 +33,14 @@ export function createNodeHandlers(): Record<string, NodeHandler> {
         start: handleStart,
         message: handleMessage,
         collect_input: handleCollectInput,
+        slot_fill: handleSlotFill,
         llm_router: handleLLMRouter,
+        llm_response: handleLLMResponse,
         knowledge_search: handleKnowledgeSearch,
         tool_call: handleToolCall,
         condition: handleCondition,
+        set_variable: handleSetVariable,
+        subflow: handleSubflow,
         escalate: handleEscalate,
         end: handleEnd,
     };
@@ -70,6 +80,7 @@ async function handleMessage(context: ExecutionContext): Promise<NodeResult> {
 
     return {
         message,
+        attachments: config.attachments,
         output: { message },
     };
 }
@@ -87,7 +98,7 @@ async function handleCollectInput(context: ExecutionContext): Promise<NodeResult
 
         // Validate input if validation rules exist
         if (config.validation) {
-            const isValid = validateInput(input, config.validation);
+            const isValid = validateInput(input, config.validation, context.session.variables);
             if (!isValid) {
                 // If retry is configured, send retry message and wait for input again
                 if (config.retry) {
@@ -118,13 +129,14 @@ async function handleCollectInput(context: ExecutionContext): Promise<NodeResult
             }
         }
 
-        // Store the valid input
+        // Store the valid input (dates normalized to YYYY-MM-DD)
+        const value = config.validation?.type === 'date' ? parseDate(input) : input;
         return {
             variables: {
-                [config.variableName]: input,
+                [config.variableName]: value,
                 [`${config.variableName}_attempts`]: 0,
             },
-            output: { collected: input },
+            output: { collected: value },
         };
     }
 
@@ -144,7 +156,11 @@ async function handleCollectInput(context: ExecutionContext): Promise<NodeResult
 /**
  * Validate input based on validation rules
  */
-function validateInput(input: string, validation: CollectInputNode['config']['validation']): boolean {
+function validateInput(
+    input: string,
+    validation: CollectInputNode['config']['validation'],
+    variables: Record<string, unknown>
+): boolean {
     if (!validation) return true;
 
     switch (validation.type) {
@@ -166,6 +182,9 @@ function validateInput(input: string, validation: CollectInputNode['config']['va
         case 'phone':
             return /^[\d\s\-+()]{10,}$/.test(input);
 
+        case 'date':
+            return parseDate(input) !== null;
+
         case 'regex':
             if (!validation.pattern) return true;
             try {
@@ -174,11 +193,230 @@ function validateInput(input: string, validation: CollectInputNode['config']['va
                 return false;
             }
 
+        case 'custom':
+            // The validator is an expression over the session variables, with the input as `value`
+            if (!validation.customValidator) return true;
+            try {
+                return !!evaluateExpression(validation.customValidator, { ...variables, value: input });
+            } catch {
+                return false;
+            }
+
         default:
             return true;
     }
 }
 
+/**
+ * Progress of the slot_fill node a session is waiting on
+ */
+interface SlotFillState {
+    nodeId: string;
+    phase: 'collecting' | 'confirming';
+    /** Slot whose prompt was sent last */
+    asked?: string;
+    /** Slots filled since the node was entered */
+    filled: string[];
+    /** Turns in a row that filled nothing */
+    attempts: number;
+}
+
+const SLOT_FILL_STATE = 'slot_fill_state';
+
+/**
+ * Slot Fill Node Handler
+ *
+ * Each turn extracts every slot it can from the message, then asks for the
+ * next missing required slot. Once all are filled, optionally reads them back
+ * for confirmation; a "no" that corrects a slot is re-confirmed, a plain "no"
+ * starts over.
+ */
+async function handleSlotFill(context: ExecutionContext): Promise<NodeResult> {
+    const node = context.node as SlotFillNode;
+    const { config } = node;
+    const saved = context.session.variables[SLOT_FILL_STATE] as SlotFillState | undefined;
+
+    // Entering the node: start fresh and ask for the first slot
+    if (context.input === undefined || saved?.nodeId !== node.id) {
+        const state: SlotFillState = { nodeId: node.id, phase: 'collecting', filled: [], attempts: 0 };
+        return askForSlot(context, state, {}, config.prompt);
+    }
+
+    const state: SlotFillState = { ...saved, filled: [...saved.filled] };
+    const input = context.input;
+    let values: Record<string, unknown> = {};
+    let notice: string | undefined;
+
+    if (state.phase === 'confirming') {
+        const answer = parseConfirmation(input);
+        if (answer === true) {
+            return completeSlotFill(config.slots, state, context.session.variables, true);
+        }
+
+        // Corrections are allowed to overwrite any slot
+        values = await extractSlotValues(context, config.slots, input);
+        if (Object.keys(values).length === 0) {
+            if (answer === null) {
+                return askForSlot(context, state, {});
+            }
+            const reset: SlotFillState = { nodeId: node.id, phase: 'collecting', filled: [], attempts: 0 };
+            const rejectMessage = config.confirmation?.rejectMessage ?? "Okay, let's start over.";
+            return askForSlot(context, reset, {}, undefined, interpolate(rejectMessage, context.session.variables));
+        }
+        state.phase = 'collecting';
+    } else {
+        const unfilled = config.slots.filter(slot => !state.filled.includes(slot.name));
+        values = await extractSlotValues(context, unfilled, input, state.asked);
+
+        // Only a reply that fills nothing counts as a bad answer to the question asked
+        if (state.asked && Object.keys(values).length === 0) {
+            const askedSlot = config.slots.find(slot => slot.name === state.asked);
+            notice = askedSlot?.errorMessage ? interpolate(askedSlot.errorMessage, context.session.variables) : undefined;
+        }
+    }
+
+    for (const name of Object.keys(values)) {
+        if (!state.filled.includes(name)) state.filled.push(name);
+    }
+
+    if (Object.keys(values).length > 0) {
+        state.attempts = 0;
+    } else {
+        state.attempts++;
+        const maxAttempts = config.maxAttempts ?? 3;
+        if (state.attempts >= maxAttempts) {
+            return {
+                variables: { [SLOT_FILL_STATE]: undefined },
+                output: { missing: missingSlots(config.slots, state).map(slot => slot.name) },
+                error: {
+                    code: 'MAX_RETRIES_EXCEEDED',
+                    message: `No slots filled in ${maxAttempts} attempts`,
+                },
+            };
+        }
+    }
+
+    return askForSlot(context, state, values, undefined, notice);
+}
+
+/**
+ * Ask for the next missing required slot, or confirm or finish once all are filled
+ */
+function askForSlot(
+    context: ExecutionContext,
+    state: SlotFillState,
+    values: Record<string, unknown>,
+    prompt?: string,
+    notice?: string
+): NodeResult {
+    const { config } = context.node as SlotFillNode;
+    const variables = { ...context.session.variables, ...values };
+    const next = missingSlots(config.slots, state)[0];
+
+    if (!next) {
+        if (!config.confirmation) {
+            return completeSlotFill(config.slots, state, variables, false, values);
+        }
+
+        const confirming: SlotFillState = { ...state, phase: 'confirming', asked: undefined };
+        return {
+            message: joinMessages(notice, interpolate(config.confirmation.message, variables)),
+            variables: { ...values, [SLOT_FILL_STATE]: confirming },
+            output: { extracted: values, confirming: true },
+            waitForInput: true,
+            nextNodeId: null,
+        };
+    }
+
+    return {
+        message: joinMessages(notice, interpolate(prompt || next.prompt, variables)),
+        variables: { ...values, [SLOT_FILL_STATE]: { ...state, asked: next.name } },
+        output: { extracted: values, missing: missingSlots(config.slots, state).map(slot => slot.name) },
+        waitForInput: true,
+        nextNodeId: null,
+    };
+}
+
+function completeSlotFill(
+    slots: SlotDefinition[],
+    state: SlotFillState,
+    variables: Record<string, unknown>,
+    confirmed: boolean,
+    values: Record<string, unknown> = {}
+): NodeResult {
+    const filled = Object.fromEntries(
+        slots.filter(slot => state.filled.includes(slot.name)).map(slot => [slot.name, variables[slot.name]])
+    );
+
+    return {
+        variables: { ...values, [SLOT_FILL_STATE]: undefined },
+        output: { slots: filled, confirmed },
+    };
+}
+
+function missingSlots(slots: SlotDefinition[], state: SlotFillState): SlotDefinition[] {
+    return slots.filter(slot => slot.required !== false && !state.filled.includes(slot.name));
+}
+
+/**
+ * Slot values in a message from the built-in parsers, topped up by the LLM
+ * when enabled. An LLM failure falls back to the parsers' values.
+ */
+async function extractSlotValues(
+    context: ExecutionContext,
+    slots: SlotDefinition[],
+    input: string,
+    asked?: string
+): Promise<Record<string, unknown>> {
+    const { config } = context.node as SlotFillNode;
+    const variables = context.session.variables;
+    const values = extractSlots(input, slots, { asked, variables });
+
+    const remaining = slots.filter(slot => !(slot.name in values));
+    if (!config.llmExtraction || remaining.length === 0) return values;
+
+    try {
+        const result = await context.services.ai.generate({
+            systemPrompt: 'Extract the requested fields from the user message. Use null for fields the message does not mention. Dates are YYYY-MM-DD.',
+            userMessage: input,
+            model: config.model,
+            schema: {
+                type: 'object',
+                properties: Object.fromEntries(remaining.map(slot => [slot.name, {
+                    type: slot.type === 'number' ? 'number' : 'string',
+                    description: slot.description ?? slot.prompt,
+                }])),
+            },
+        });
+
+        const structured = (result.structured ?? {}) as Record<string, unknown>;
+        for (const slot of remaining) {
+            const value = normalizeSlotValue(structured[slot.name], slot);
+            if (value !== undefined && isValidSlotValue(value, slot, variables)) {
+                values[slot.name] = value;
+            }
+        }
+    } catch (error) {
+        context.log('warn', `Slot extraction with the LLM failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return values;
+}
+
+/**
+ * Whether a reply confirms (true), rejects (false) or neither (null)
+ */
+function parseConfirmation(input: string): boolean | null {
+    const text = input.trim().toLowerCase();
+    if (/^(yes|yeah|yep|yup|y|sure|correct|right|ok|okay|confirm(ed)?|that'?s (right|correct))\b/.test(text)) return true;
+    if (/^(no|nope|nah|n|wrong|incorrect|not (right|correct))\b/.test(text)) return false;
+    return null;
+}
+
+function joinMessages(...parts: Array<string | undefined>): string {
+    return parts.filter(Boolean).join('\n\n');
+}
+
 /**
  * LLM Router Node Handler
  */
@@ -197,22 +435,28 @@ async function handleLLMRouter(context: ExecutionContext): Promise<NodeResult> {
         const result = await context.services.ai.classify({
             systemPrompt: config.systemPrompt,
             userMessage,
-            intents: config.intents.map(i => ({ name: i.name, description: i.description })),
+            intents: config.intents.map(i => ({ name: i.name, description: i.description, examples: i.examples })),
             model: config.model,
         });
 
-        context.log('info', `LLM Router classified intent: ${result.intent} (${(result.confidence * 100).toFixed(1)}%)`);
+        if (result.noMatch) {
+            context.log('info', `LLM Router found no matching intent${result.reasoning ? `: ${result.reasoning}` : ''}`);
+        } else {
+            context.log('info', `LLM Router classified intent: ${result.intent} (${(result.confidence * 100).toFixed(1)}%)${result.provider ? ` via ${result.provider}` : ''}`);
+        }
 
         // Check confidence threshold
         const threshold = config.confidenceThreshold ?? 0.5;
-        if (result.confidence < threshold && config.fallbackIntent) {
+        if ((result.noMatch || result.confidence < threshold) && config.fallbackIntent) {
             const fallbackIntentDef = config.intents.find(i => i.name === config.fallbackIntent);
             return {
                 output: {
                     intent: config.fallbackIntent,
                     confidence: result.confidence,
-                    originalIntent: result.intent,
-                    fellback: true
+                    originalIntent: result.noMatch ? undefined : result.intent,
+                    noMatch: result.noMatch,
+                    fellback: true,
+                    provider: result.provider,
                 },
                 variables: {
                     last_intent: config.fallbackIntent,
@@ -222,6 +466,16 @@ async function handleLLMRouter(context: ExecutionContext): Promise<NodeResult> {
             };
         }
 
+        if (result.noMatch) {
+            return {
+                error: {
+                    code: 'NO_INTENT_MATCH',
+                    message: 'No configured intent matches the message and no fallback intent is set',
+                    details: { reasoning: result.reasoning },
+                },
+            };
+        }
+
         // Find the matched intent
         const matchedIntent = config.intents.find(i => i.name === result.intent);
         if (!matchedIntent) {
@@ -244,7 +498,7 @@ async function handleLLMRouter(context: ExecutionContext): Promise<NodeResult> {
         }
 
         return {
-            output: { intent: result.intent, confidence: result.confidence },
+            output: { intent: result.intent, confidence: result.confidence, provider: result.provider },
             variables: {
                 last_intent: result.intent,
                 last_confidence: result.confidence,
@@ -265,6 +519,106 @@ async function handleLLMRouter(context: ExecutionContext): Promise<NodeResult> {
     }
 }
 
+/**
+ * LLM Response Node Handler
+ */
+async function handleLLMResponse(context: ExecutionContext): Promise<NodeResult> {
+    const node = context.node as LLMResponseNode;
+    const { config } = node;
+    const { variables } = context.session;
+
+    // Earlier turns, without system notices, ending before the message being answered
+    const transcript = (await context.transcript())
+        .filter(m => m.role === 'user' || m.role === 'assistant')
+        .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }));
+
+    let userMessage: string;
+    if (config.userMessage) {
+        userMessage = interpolate(config.userMessage, variables);
+    } else {
+        const latest = transcript.map(m => m.role).lastIndexOf('user');
+        userMessage = context.input || (latest >= 0 ? transcript[latest].content : '');
+    }
+
+    if (transcript.at(-1)?.role === 'user' && transcript.at(-1)?.content === userMessage) {
+        transcript.pop();
+    }
+    const historyWindow = config.historyWindow ?? 10;
+    const history = historyWindow > 0 ? transcript.slice(-historyWindow) : [];
+
+    const sendMessage = config.sendMessage ?? !config.schema;
+
+    let result: Awaited<ReturnType<ExecutionContext['services']['ai']['generate']>>;
+    try {
+        result = await context.services.ai.generate({
+            systemPrompt: interpolate(config.systemPrompt, variables),
+            userMessage,
+            history,
+            model: config.model,
+            schema: config.schema,
+            onToken: sendMessage && !config.schema
+                ? delta => context.emit({
+                    type: 'message_delta',
+                    sessionId: context.session.id,
+                    nodeId: node.id,
+                    delta,
+                })
+                : undefined,
+        });
+    } catch (error) {
+        return {
+            error: {
+                code: 'LLM_ERROR',
+                message: `Generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            },
+        };
+    }
+
+    const output = {
+        response: result.response,
+        structured: result.structured,
+        tokens: result.tokens,
+        model: config.model,
+        provider: result.provider,
+    };
+
+    const updates: Record<string, unknown> = {};
+    if (config.schema) {
+        const structured = result.structured;
+        if (!structured || typeof structured !== 'object' || Array.isArray(structured)) {
+            return {
+                output,
+                error: {
+                    code: 'INVALID_STRUCTURED_OUTPUT',
+                    message: 'The model did not return a JSON object',
+                    details: { response: result.response },
+                },
+            };
+        }
+
+        // Only declared properties are written, so the model can't set arbitrary variables
+        const properties = config.schema.properties as Record<string, unknown> | undefined;
+        const fields = properties ? Object.keys(properties) : Object.keys(structured);
+        for (const field of fields) {
+            if (field in structured) {
+                updates[field] = (structured as Record<string, unknown>)[field];
+            }
+        }
+    }
+
+    if (config.resultVariable) {
+        updates[config.resultVariable] = config.schema ? result.structured : result.response;
+    }
+
+    context.log('info', `LLM Response generated ${result.tokens.output} tokens`);
+
+    return {
+        message: sendMessage ? result.response : undefined,
+        variables: updates,
+        output,
+    };
+}
+
 /**
  * Knowledge Search Node Handler
  */
@@ -279,12 +633,22 @@ async function handleKnowledgeSearch(context: ExecutionContext): Promise<NodeRes
         query,
         topK: config.topK ?? 3,
         minScore: config.minScore ?? 0.5,
+        retrievalMode: config.retrievalMode,
+        vectorWeight: config.vectorWeight,
+        rerank: config.rerank,
+        // Metered, so the answer and rerank calls count towards the session's usage
+        ai: context.services.ai,
     });
 
+    const retrieval = {
+        mode: config.retrievalMode ?? 'vector',
+        rerank: config.rerank ?? 'none',
+    };
+
     // Check if we got grounded results when required
     if (config.groundedOnly && !result.grounded) {
         return {
-            output: { ...result, grounded: false },
+            output: { ...result, grounded: false, retrieval },
             variables: {
                 [config.resultVariable]: {
                     answer: '',
@@ -297,7 +661,7 @@ async function handleKnowledgeSearch(context: ExecutionContext): Promise<NodeRes
     }
 
     return {
-        output: result,
+        output: { ...result, retrieval },
         variables: {
             [config.resultVariable]: result,
         },
@@ -321,70 +685,101 @@ async function handleToolCall(context: ExecutionContext): Promise<NodeResult> {
         }
     }
 
+    const retry = config.retry
+        ?? (config.onError?.action === 'retry' ? DEFAULT_TOOL_RETRY : { maxAttempts: 1, backoffMs: 0 });
+
+    // The tool service retries transient failures only (timeouts, 5xx, 429)
+    let result: ToolExecuteResult;
     try {
-        const result = await context.services.tools.execute({
+        result = await context.services.tools.execute({
             toolId: config.toolId,
             inputs: processedInputs,
             timeout: config.timeout,
+            flowId: context.flow.id,
+            tools: context.flow.tools,
+            retry,
         });
+    } catch (error) {
+        result = { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
 
-        if (!result.success) {
-            // Handle error based on config
-            if (config.onError) {
-                switch (config.onError.action) {
-                    case 'continue':
-                        return {
-                            output: { error: result.error, success: false },
-                            variables: {
-                                [config.resultVariable]: { error: result.error, success: false },
-                            },
-                        };
-                    case 'goto':
-                        return {
-                            output: { error: result.error },
-                            nextNodeId: config.onError.targetNodeId,
-                        };
-                    case 'escalate':
-                        return {
-                            output: { error: result.error },
-                            // Will be handled by finding escalate node
-                        };
-                }
-            }
-
-            return {
-                error: {
-                    code: 'TOOL_CALL_FAILED',
-                    message: result.error || 'Tool call failed',
-                },
-            };
-        }
+    const attempts = result.attempts ?? [];
+    if (attempts.length > 1) {
+        context.log('warn', `Tool "${config.toolId}" took ${attempts.length} attempts`);
+    }
 
+    if (result.success) {
         return {
-            output: result.output,
+            output: attempts.length > 1 ? { result: result.output, attempts } : result.output,
             variables: {
                 [config.resultVariable]: result.output,
             },
         };
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    const lastError = result.error || 'Tool call failed';
 
-        if (config.onError?.action === 'continue') {
+    // Handle error based on config
+    switch (config.onError?.action) {
+        case 'continue':
             return {
-                output: { error: errorMessage, success: false },
+                output: { error: lastError, success: false, attempts },
                 variables: {
-                    [config.resultVariable]: { error: errorMessage, success: false },
+                    [config.resultVariable]: { error: lastError, success: false },
                 },
             };
-        }
+        case 'goto':
+            return {
+                output: { error: lastError, attempts },
+                nextNodeId: config.onError.targetNodeId,
+            };
+        case 'escalate':
+            return escalateToolFailure(context, lastError, attempts);
+    }
 
+    return {
+        output: { attempts },
+        error: {
+            code: 'TOOL_CALL_FAILED',
+            message: lastError,
+        },
+    };
+}
+
+const DEFAULT_TOOL_RETRY = { maxAttempts: 3, backoffMs: 1000 };
+
+/**
+ * Escalate after a tool failure: through the Escalate node in
+ * `onError.targetNodeId` when there is one, otherwise directly from the tool node
+ */
+function escalateToolFailure(
+    context: ExecutionContext,
+    error: string,
+    attempts: ToolAttempt[]
+): NodeResult {
+    const node = context.node as ToolCallNode;
+    const targetNodeId = node.config.onError?.targetNodeId;
+    const target = context.flow.nodes.find(n => n.id === targetNodeId);
+
+    if (target?.type === 'escalate') {
         return {
-            error: {
-                code: 'TOOL_CALL_ERROR',
-                message: errorMessage,
-            },
+            output: { error, attempts, escalateNodeId: target.id },
+            nextNodeId: target.id,
         };
     }
+
+    const reason = `Tool "${node.config.toolId}" failed: ${error}`;
+    context.emit({
+        type: 'session_escalated',
+        sessionId: context.session.id,
+        reason,
+    });
+
+    return {
+        output: { error, attempts, escalated: true, reason },
+        end: true,
+        status: 'escalated',
+    };
 }
 
 /**
@@ -396,7 +791,7 @@ async function handleCondition(context: ExecutionContext): Promise<NodeResult> {
 
     // Evaluate conditions in order
     for (const condition of config.conditions) {
-        const value = getNestedValue(context.session.variables, condition.variable);
+        const value = getPath(context.session.variables, condition.variable);
         const matches = evaluateCondition(condition.operator, value, condition.value);
 
         if (matches) {
@@ -419,18 +814,103 @@ async function handleCondition(context: ExecutionContext): Promise<NodeResult> {
 }
 
 /**
- * Get nested value from object using dot notation
+ * Set Variable Node Handler
+ */
+async function handleSetVariable(context: ExecutionContext): Promise<NodeResult> {
+    const node = context.node as SetVariableNode;
+    const { config } = node;
+
+    // Apply in order so later assignments see earlier ones
+    const variables = { ...context.session.variables };
+    const assigned: Record<string, unknown> = {};
+
+    for (const assignment of config.assignments) {
+        let value: unknown;
+        try {
+            switch (assignment.mode) {
+                case 'template':
+                    value = interpolate(String(assignment.value ?? ''), variables);
+                    break;
+                case 'expression':
+                    value = evaluateExpression(String(assignment.value ?? ''), variables);
+                    break;
+                default:
+                    value = assignment.value;
+            }
+        } catch (error) {
+            return {
+                error: {
+                    code: 'EXPRESSION_ERROR',
+                    message: `Failed to set "${assignment.variable}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+                    details: { variable: assignment.variable, expression: assignment.value },
+                },
+            };
+        }
+
+        variables[assignment.variable] = value;
+        assigned[assignment.variable] = value;
+    }
+
+    return {
+        variables: assigned,
+        output: { assigned },
+    };
+}
+
+/**
+ * Subflow Node Handler
+ *
+ * Resolves the flow and its inputs; the engine runs it in a nested frame
+ * and maps outputs back when it reaches an End node.
  */
-function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-    const parts = path.split('.');
-    let current: unknown = obj;
+async function handleSubflow(context: ExecutionContext): Promise<NodeResult> {
+    const node = context.node as SubflowNode;
+    const { config } = node;
+    const { flows } = context.services;
+
+    if (!flows) {
+        return {
+            error: {
+                code: 'SUBFLOW_UNAVAILABLE',
+                message: 'No flow service is configured to run subflows',
+            },
+        };
+    }
+
+    const resolved = config.version !== undefined
+        ? await flows.get(config.flowId, config.version).then(definition => definition && { definition, version: config.version })
+        : await flows.current(config.flowId);
 
-    for (const part of parts) {
-        if (current === null || current === undefined) return undefined;
-        current = (current as Record<string, unknown>)[part];
+    if (!resolved) {
+        return {
+            error: {
+                code: 'SUBFLOW_NOT_FOUND',
+                message: config.version !== undefined
+                    ? `Flow "${config.flowId}" has no version ${config.version}`
+                    : `Flow "${config.flowId}" not found`,
+            },
+        };
     }
 
-    return current;
+    const inputs: Record<string, unknown> = {};
+    for (const [variable, expression] of Object.entries(config.inputs ?? {})) {
+        try {
+            inputs[variable] = evaluateExpression(expression, context.session.variables);
+        } catch (error) {
+            return {
+                error: {
+                    code: 'EXPRESSION_ERROR',
+                    message: `Failed to map subflow input "${variable}": ${error instanceof Error ? error.message : 'Unknown error'}`,
+                    details: { variable, expression },
+                },
+            };
+        }
+    }
+
+    return {
+        subflow: { flow: resolved.definition, version: resolved.version, inputs },
+        output: { flowId: config.flowId, version: resolved.version, inputs },
+    };
 }
 
 /**
@@ -461,6 +941,7 @@ async function handleEscalate(context: ExecutionContext): Promise<NodeResult> {
             context: config.context,
         },
         end: true,
+        status: 'escalated',
     };
 }
 
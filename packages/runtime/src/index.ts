@@ -12,5 +12,7 @@
 export { FlowEngine } from './engine';
 export { NodeExecutor } from './executor';
 export { SessionManager } from './session';
+export { HttpToolService, toolSecretsFromEnv, TOOL_SECRET_PREFIX } from './tools';
+export type { HttpToolServiceOptions } from './tools';
 export * from './handlers';
 export * from './types';
@@ -5,11 +5,12 @@
  * For production, replace with Redis or database-backed storage.
  */
 
-import type { SessionState } from '@ivakit/shared';
+import type { SessionState, SessionMessage } from '@ivakit/shared';
 import type { SessionStorage } from './types';
 
 export class SessionManager implements SessionStorage {
     private sessions: Map<string, SessionState> = new Map();
+    private messages: Map<string, SessionMessage[]> = new Map();
 
     async get(sessionId: string): Promise<SessionState | null> {
         return this.sessions.get(sessionId) || null;
@@ -21,6 +22,21 @@ export class SessionManager implements SessionStorage {
 
     async delete(sessionId: string): Promise<void> {
         this.sessions.delete(sessionId);
+        this.messages.delete(sessionId);
+    }
+
+    async listTimedOut(now: string): Promise<Array<Pick<SessionState, 'id' | 'waitingSince'>>> {
+        return Array.from(this.sessions.values())
+            .filter(s => s.status === 'waiting_input' && s.timeoutAt !== undefined && s.timeoutAt <= now)
+            .map(s => ({ id: s.id, waitingSince: s.waitingSince }));
+    }
+
+    async appendMessages(sessionId: string, messages: SessionMessage[]): Promise<void> {
+        this.messages.set(sessionId, [...(this.messages.get(sessionId) ?? []), ...messages]);
+    }
+
+    async getMessages(sessionId: string): Promise<SessionMessage[]> {
+        return this.messages.get(sessionId) ?? [];
     }
 
     /**
@@ -35,6 +51,7 @@ export class SessionManager implements SessionStorage {
      */
     async clear(): Promise<void> {
         this.sessions.clear();
+        this.messages.clear();
     }
 
     /**
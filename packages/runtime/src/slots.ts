@@ -0,0 +1,220 @@
+/**
+ * Slot Parsers
+ *
+ * Built-in extraction for `slot_fill` nodes: finds typed values (emails,
+ * phone numbers, dates, numbers, regex matches) in free text, normalizes
+ * them and checks them against a slot's constraints. Dates are also used
+ * by `collect_input` validation.
+ */
+
+import type { SlotDefinition } from '@ivakit/shared';
+import { evaluateExpression } from '@ivakit/shared';
+
+/** A value found in text, with the span it was read from */
+export interface SlotMatch {
+    value: unknown;
+    index: number;
+    length: number;
+}
+
+/** Types that can be picked out of a longer message, most specific first */
+const SCAN_ORDER: SlotDefinition['type'][] = ['email', 'date', 'phone', 'regex', 'number'];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+/**
+ * Extract as many slots as possible from one message.
+ *
+ * Slots are tried from the most specific type to the least, and each span of
+ * the text fills at most one slot. A text slot can't be picked out of a
+ * sentence, so it only takes the whole message, and only when it is the slot
+ * that was asked for and nothing else was found.
+ */
+export function extractSlots(
+    text: string,
+    slots: SlotDefinition[],
+    options: { asked?: string; variables?: Record<string, unknown>; now?: Date } = {}
+): Record<string, unknown> {
+    const { asked, variables = {}, now = new Date() } = options;
+    const values: Record<string, unknown> = {};
+    const taken: Array<[number, number]> = [];
+    const overlaps = (match: SlotMatch) =>
+        taken.some(([start, end]) => match.index < end && start < match.index + match.length);
+
+    // The slot that was asked for gets first pick
+    const ordered = [...slots].sort((a, b) =>
+        Number(b.name === asked) - Number(a.name === asked) ||
+        SCAN_ORDER.indexOf(a.type) - SCAN_ORDER.indexOf(b.type)
+    );
+
+    for (const slot of ordered) {
+        if (slot.type === 'text') continue;
+        const match = findSlotValues(text, slot, now)
+            .find(candidate => !overlaps(candidate) && isValidSlotValue(candidate.value, slot, variables));
+        if (match) {
+            values[slot.name] = match.value;
+            taken.push([match.index, match.index + match.length]);
+        }
+    }
+
+    const askedSlot = slots.find(slot => slot.name === asked);
+    if (askedSlot?.type === 'text' && Object.keys(values).length === 0) {
+        const value = text.trim();
+        if (value && isValidSlotValue(value, askedSlot, variables)) {
+            values[askedSlot.name] = value;
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Candidate values for a slot, in the order they appear
+ */
+export function findSlotValues(text: string, slot: SlotDefinition, now: Date = new Date()): SlotMatch[] {
+    switch (slot.type) {
+        case 'email':
+            return matchAll(text, /[^\s@<>(),;:]+@[^\s@<>(),;:]+\.[A-Za-z]{2,}/g, m => m[0]);
+        case 'phone':
+            return matchAll(text, /\+?\(?\d[\d\s\-()]{8,}\d/g, m => m[0].trim())
+                .filter(match => /^[\d\s\-+()]{10,}$/.test(match.value as string));
+        case 'date':
+            return findDates(text, now);
+        case 'number':
+            return matchAll(text, /-?\d+(?:\.\d+)?/g, m => Number(m[0]));
+        case 'regex': {
+            if (!slot.pattern) return [];
+            try {
+                return matchAll(text, new RegExp(slot.pattern, 'g'), m => m[1] ?? m[0]);
+            } catch {
+                return [];
+            }
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * Normalize a value from another source (e.g. the LLM) to the slot's type,
+ * or undefined if it isn't one
+ */
+export function normalizeSlotValue(value: unknown, slot: SlotDefinition, now: Date = new Date()): unknown {
+    if (value === null || value === undefined || value === '') return undefined;
+
+    switch (slot.type) {
+        case 'number': {
+            const num = typeof value === 'number' ? value : Number(String(value).trim());
+            return Number.isFinite(num) ? num : undefined;
+        }
+        case 'date':
+            return parseDate(String(value), now) ?? undefined;
+        case 'text':
+            return String(value).trim() || undefined;
+        default: {
+            const text = String(value).trim();
+            const match = findSlotValues(text, slot, now)[0];
+            return match && match.length === text.length ? match.value : undefined;
+        }
+    }
+}
+
+/**
+ * Check a normalized value against the slot's bounds and validator
+ */
+export function isValidSlotValue(value: unknown, slot: SlotDefinition, variables: Record<string, unknown> = {}): boolean {
+    if (slot.type === 'number' || slot.type === 'text') {
+        const size = slot.type === 'number' ? Number(value) : String(value).length;
+        if (slot.min !== undefined && size < slot.min) return false;
+        if (slot.max !== undefined && size > slot.max) return false;
+    }
+
+    if (slot.validator) {
+        try {
+            return !!evaluateExpression(slot.validator, { ...variables, value });
+        } catch {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Parse a message that is entirely a date to `YYYY-MM-DD`
+ */
+export function parseDate(text: string, now: Date = new Date()): string | null {
+    const trimmed = text.trim();
+    const match = findDates(trimmed, now).find(m => m.index === 0 && m.length === trimmed.length);
+    return match ? match.value as string : null;
+}
+
+/**
+ * Dates in text as `YYYY-MM-DD`. Understands ISO dates, US-style
+ * `M/D/YYYY`, "March 5", "5th of March 2025", today/tomorrow/yesterday and
+ * weekday names (the next one after today).
+ */
+function findDates(text: string, now: Date): SlotMatch[] {
+    const matches: SlotMatch[] = [];
+    const add = (m: RegExpExecArray, date: Date | null) => {
+        if (date) matches.push({ value: formatDate(date), index: m.index, length: m[0].length });
+    };
+    const scan = (pattern: RegExp, toDate: (m: RegExpExecArray) => Date | null) => {
+        for (const m of text.matchAll(pattern)) add(m as RegExpExecArray, toDate(m as RegExpExecArray));
+    };
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+    const fullYear = (year?: string) =>
+        year === undefined ? now.getFullYear() : year.length === 2 ? 2000 + Number(year) : Number(year);
+
+    scan(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, m => calendarDate(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+    scan(/\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g, m => calendarDate(fullYear(m[3]), Number(m[1]) - 1, Number(m[2])));
+    scan(
+        new RegExp(`\\b${MONTH_NAME}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+        m => calendarDate(fullYear(m[3]), monthIndex(m[1]), Number(m[2]))
+    );
+    scan(
+        new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_NAME}\\.?(?:,?\\s+(\\d{4}))?\\b`, 'gi'),
+        m => calendarDate(fullYear(m[3]), monthIndex(m[2]), Number(m[1]))
+    );
+    scan(/\b(today|tomorrow|yesterday)\b/gi, m => {
+        const offset = { today: 0, tomorrow: 1, yesterday: -1 }[m[1].toLowerCase() as 'today' | 'tomorrow' | 'yesterday'];
+        return addDays(today, offset);
+    });
+    scan(new RegExp(`\\b(?:next\\s+|on\\s+)?(${WEEKDAYS.join('|')})\\b`, 'gi'), m => {
+        const ahead = (WEEKDAYS.indexOf(m[1].toLowerCase()) - today.getDay() + 7) % 7 || 7;
+        return addDays(today, ahead);
+    });
+
+    // Longest match first where spans overlap, then in reading order
+    return matches
+        .sort((a, b) => a.index - b.index || b.length - a.length)
+        .filter((match, i, all) => !all.slice(0, i).some(prev => match.index < prev.index + prev.length));
+}
+
+function matchAll(text: string, pattern: RegExp, toValue: (m: RegExpMatchArray) => unknown): SlotMatch[] {
+    return Array.from(text.matchAll(pattern), m => ({
+        value: toValue(m),
+        index: m.index ?? 0,
+        length: m[0].length,
+    })).filter(match => match.value !== '' && !Number.isNaN(match.value));
+}
+
+/**
+ * A local date, or null if the day doesn't exist in that month
+ */
+function calendarDate(year: number, month: number, day: number): Date | null {
+    if (month < 0 || month > 11) return null;
+    const date = new Date(year, month, day);
+    return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import type { ToolDefinition } from '@ivakit/shared';
+import { HttpToolService, toolSecretsFromEnv } from './tools';
+
+interface Captured {
+    url: string;
+    init?: RequestInit;
+}
+
+function service(secrets: Record<string, string>, captured: Captured[], status = 200) {
+    return new HttpToolService({
+        secrets,
+        fetch: async (url, init) => {
+            captured.push({ url, init });
+            return new Response(JSON.stringify({ ok: true }), {
+                status,
+                headers: { 'content-type': 'application/json' },
+            });
+        },
+    });
+}
+
+function tool(config: Partial<ToolDefinition['config']>): ToolDefinition {
+    return {
+        id: 'lookup',
+        name: 'Lookup',
+        description: 'Look something up',
+        type: 'http',
+        config: { url: 'https://api.example.com/items/{{id}}', method: 'GET', ...config },
+        inputSchema: { id: { type: 'string', required: true } },
+    };
+}
+
+describe('toolSecretsFromEnv', () => {
+    it('exposes only prefixed variables, without the prefix', () => {
+        expect(toolSecretsFromEnv({
+            IVA_SECRET_ORDERS_KEY: 'k1',
+            DATABASE_URL: 'file:./db',
+            ANTHROPIC_API_KEY: 'sk-ant',
+            IVA_SECRET_: 'empty-name',
+        })).toEqual({ ORDERS_KEY: 'k1' });
+    });
+});
+
+describe('HttpToolService secrets', () => {
+    it('fills {{secrets.NAME}} in headers and auth', async () => {
+        const captured: Captured[] = [];
+        const result = await service({ KEY: 's3cret' }, captured).execute({
+            toolId: 'lookup',
+            inputs: { id: '42' },
+            tools: [tool({
+                headers: { 'X-Key': '{{secrets.KEY}}' },
+                auth: { type: 'bearer', value: '{{secrets.KEY}}' },
+            })],
+        });
+
+        expect(result.success).toBe(true);
+        const headers = captured[0].init?.headers as Record<string, string>;
+        expect(headers['X-Key']).toBe('s3cret');
+        expect(headers.Authorization).toBe('Bearer s3cret');
+    });
+
+    it('does not resolve secrets by bare name', async () => {
+        const captured: Captured[] = [];
+        await service({ KEY: 's3cret' }, captured).execute({
+            toolId: 'lookup',
+            inputs: { id: '42' },
+            tools: [tool({ headers: { 'X-Key': '{{KEY}}' } })],
+        });
+
+        expect((captured[0].init?.headers as Record<string, string>)['X-Key']).toBe('{{KEY}}');
+    });
+
+    it('does not let inputs shadow a secret', async () => {
+        const captured: Captured[] = [];
+        await service({ KEY: 's3cret' }, captured).execute({
+            toolId: 'lookup',
+            inputs: { id: '42', secrets: 'x', KEY: 'attacker' },
+            tools: [tool({ auth: { type: 'api_key', value: '{{secrets.KEY}}' } })],
+        });
+
+        expect((captured[0].init?.headers as Record<string, string>)['X-API-Key']).toBe('s3cret');
+    });
+
+    it('never puts secrets in the URL or body', async () => {
+        const captured: Captured[] = [];
+        await service({ KEY: 's3cret' }, captured).execute({
+            toolId: 'lookup',
+            inputs: { id: '42', note: '{{secrets.KEY}}' },
+            tools: [tool({ url: 'https://api.example.com/items/{{id}}?k={{secrets.KEY}}', method: 'POST' })],
+        });
+
+        expect(captured[0].url).not.toContain('s3cret');
+        expect(String(captured[0].init?.body)).not.toContain('s3cret');
+    });
+});
+
+describe('HttpToolService retries', () => {
+    function failing(statuses: number[], captured: Captured[]) {
+        return new HttpToolService({
+            fetch: async (url, init) => {
+                captured.push({ url, init });
+                const status = statuses[captured.length - 1] ?? 200;
+                return new Response(JSON.stringify({ ok: status < 400 }), {
+                    status,
+                    headers: { 'content-type': 'application/json' },
+                });
+            },
+        });
+    }
+
+    const retry = { maxAttempts: 3, backoffMs: 0 };
+
+    it('retries 5xx responses on idempotent requests', async () => {
+        const captured: Captured[] = [];
+        const result = await failing([502, 500], captured).execute({
+            toolId: 'lookup', inputs: { id: '42' }, tools: [tool({})], retry,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.attempts?.map(a => [a.attempt, a.success, a.status])).toEqual([
+            [1, false, 502],
+            [2, false, 500],
+            [3, true, 200],
+        ]);
+        expect(result.attempts?.[0].error).toContain('HTTP 502');
+        expect(result.attempts?.every(a => a.duration >= 0)).toBe(true);
+    });
+
+    it('does not retry 4xx responses', async () => {
+        const captured: Captured[] = [];
+        const result = await failing([404], captured).execute({
+            toolId: 'lookup', inputs: { id: '42' }, tools: [tool({})], retry,
+        });
+
+        expect(result).toMatchObject({ success: false, attempts: [{ attempt: 1, success: false, status: 404 }] });
+        expect(captured).toHaveLength(1);
+    });
+
+    it('does not retry output schema failures', async () => {
+        const captured: Captured[] = [];
+        const result = await failing([], captured).execute({
+            toolId: 'lookup',
+            inputs: { id: '42' },
+            tools: [{ ...tool({}), outputSchema: { name: { type: 'string', required: true } } }],
+            retry,
+        });
+
+        expect(result.success).toBe(false);
+        expect(captured).toHaveLength(1);
+    });
+
+    it('retries a POST only when the server did not process it', async () => {
+        const captured: Captured[] = [];
+        const result = await failing([500], captured).execute({
+            toolId: 'lookup', inputs: { id: '42' }, tools: [tool({ method: 'POST' })], retry,
+        });
+        expect(result.attempts).toHaveLength(1);
+
+        const throttled: Captured[] = [];
+        const retried = await failing([429, 503], throttled).execute({
+            toolId: 'lookup', inputs: { id: '42' }, tools: [tool({ method: 'POST' })], retry,
+        });
+        expect(retried.success).toBe(true);
+        expect(retried.attempts).toHaveLength(3);
+    });
+});
@@ -0,0 +1,341 @@
+/**
+ * HTTP Tool Service
+ *
+ * Executes `http` and `webhook` tool definitions: resolves the tool, checks
+ * inputs against `inputSchema`, templates the request, applies auth, enforces
+ * timeouts and retries, and validates responses against `outputSchema`.
+ */
+
+import type { ToolDefinition, ToolParameter } from '@ivakit/shared';
+import type { ToolService, ToolExecuteOptions, ToolExecuteResult, ToolAttempt } from './types';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** Environment variables exposed to tools as secrets, without the prefix */
+export const TOOL_SECRET_PREFIX = 'IVA_SECRET_';
+
+type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface HttpToolServiceOptions {
+    /** Look up tools not defined on the flow (e.g. from the tools table) */
+    lookupTool?: (toolId: string) => Promise<ToolDefinition | null>;
+
+    /**
+     * Values available to header and auth templates as `{{secrets.NAME}}`.
+     * Never sent in the URL or body, and inputs can't shadow them.
+     */
+    secrets?: Record<string, string | undefined>;
+
+    /** Timeout when the caller doesn't specify one (ms) */
+    defaultTimeoutMs?: number;
+
+    /** Fetch implementation (defaults to global fetch) */
+    fetch?: FetchFn;
+}
+
+/** Methods that are safe to repeat when the first request may have been processed */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS']);
+
+/** Statuses that mean the server did not act on the request */
+const NOT_PROCESSED_STATUSES = new Set([429, 503]);
+
+/**
+ * A failed tool request, with the HTTP status when the server answered
+ */
+class ToolRequestError extends Error {
+    status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.status = status;
+    }
+}
+
+/**
+ * Error that is worth retrying: a timeout, network failure, 5xx or 429 on an
+ * idempotent request, or a 429/503 on any request
+ */
+class TransientToolError extends ToolRequestError {}
+
+export class HttpToolService implements ToolService {
+    private options: HttpToolServiceOptions;
+    private fetchFn: FetchFn;
+
+    constructor(options: HttpToolServiceOptions = {}) {
+        this.options = options;
+        this.fetchFn = options.fetch ?? ((url, init) => fetch(url, init));
+    }
+
+    async execute(options: ToolExecuteOptions): Promise<ToolExecuteResult> {
+        const tool = options.tools?.find(t => t.id === options.toolId)
+            ?? await this.options.lookupTool?.(options.toolId)
+            ?? null;
+
+        if (!tool) {
+            return { success: false, error: `Tool "${options.toolId}" not found` };
+        }
+
+        if (tool.type === 'function') {
+            return { success: false, error: `Tool "${tool.id}" is a function tool and cannot be executed over HTTP` };
+        }
+
+        if (!tool.config.url) {
+            return { success: false, error: `Tool "${tool.id}" has no URL configured` };
+        }
+
+        const inputCheck = checkParameters(options.inputs, tool.inputSchema, 'input');
+        if (inputCheck.errors.length > 0) {
+            return { success: false, error: inputCheck.errors.join('; ') };
+        }
+
+        const maxAttempts = options.retry?.maxAttempts ?? 1;
+        const backoffMs = options.retry?.backoffMs ?? 0;
+        const timeoutMs = options.timeout !== undefined
+            ? options.timeout * 1000
+            : this.options.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+        const attempts: ToolAttempt[] = [];
+        let lastError = 'Tool call failed';
+
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            const startTime = Date.now();
+
+            try {
+                const { status, output } = await this.request(tool, inputCheck.values, timeoutMs);
+
+                if (tool.outputSchema) {
+                    const outputCheck = checkParameters(output, tool.outputSchema, 'output');
+                    if (outputCheck.errors.length > 0) {
+                        const error = `Response failed schema validation: ${outputCheck.errors.join('; ')}`;
+                        attempts.push({ attempt, success: false, status, error, duration: Date.now() - startTime });
+                        return { success: false, error, attempts };
+                    }
+                }
+
+                attempts.push({ attempt, success: true, status, duration: Date.now() - startTime });
+                return { success: true, output, attempts };
+            } catch (error) {
+                lastError = error instanceof Error ? error.message : 'Unknown error';
+                attempts.push({
+                    attempt,
+                    success: false,
+                    status: error instanceof ToolRequestError ? error.status : undefined,
+                    error: lastError,
+                    duration: Date.now() - startTime,
+                });
+
+                if (!(error instanceof TransientToolError) || attempt === maxAttempts) {
+                    return { success: false, error: lastError, attempts };
+                }
+
+                // Exponential backoff: backoffMs, 2x, 4x, ...
+                const delay = backoffMs * 2 ** (attempt - 1);
+                if (delay > 0) {
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                }
+            }
+        }
+
+        return { success: false, error: lastError, attempts };
+    }
+
+    /**
+     * Perform a single HTTP request for a tool
+     */
+    private async request(
+        tool: ToolDefinition,
+        inputs: Record<string, unknown>,
+        timeoutMs: number
+    ): Promise<{ status: number; output: unknown }> {
+        const method = tool.config.method ?? (tool.type === 'webhook' ? 'POST' : 'GET');
+        const idempotent = IDEMPOTENT_METHODS.has(method);
+        const secrets = this.options.secrets ?? {};
+
+        // Path/query placeholders are filled from inputs; the rest become query or body
+        const usedInUrl = new Set<string>();
+        const url = new URL(tool.config.url!.replace(/\{\{(\w+)\}\}/g, (match, key) => {
+            if (!(key in inputs)) return match;
+            usedInUrl.add(key);
+            return encodeURIComponent(String(inputs[key]));
+        }));
+
+        const remaining = Object.fromEntries(
+            Object.entries(inputs).filter(([key]) => !usedInUrl.has(key))
+        );
+
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(tool.config.headers ?? {})) {
+            headers[name] = fillTemplate(value, inputs, secrets);
+        }
+        Object.assign(headers, buildAuthHeader(tool, inputs, secrets));
+
+        let body: string | undefined;
+        if (method === 'GET' || method === 'DELETE') {
+            for (const [key, value] of Object.entries(remaining)) {
+                if (value === undefined || value === null) continue;
+                url.searchParams.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
+            }
+        } else {
+            headers['Content-Type'] ??= 'application/json';
+            body = JSON.stringify(remaining);
+        }
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+        let response: Response;
+        try {
+            response = await this.fetchFn(url.toString(), {
+                method,
+                headers,
+                body,
+                signal: controller.signal,
+            });
+        } catch (error) {
+            // The server may have acted on a request that timed out or dropped
+            const Failure = idempotent ? TransientToolError : ToolRequestError;
+            if (controller.signal.aborted) {
+                throw new Failure(`Tool "${tool.id}" timed out after ${timeoutMs}ms`);
+            }
+            const message = error instanceof Error ? error.message : 'Network error';
+            throw new Failure(`Tool "${tool.id}" request failed: ${message}`);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (!response.ok) {
+            const message = `Tool "${tool.id}" returned HTTP ${response.status} ${response.statusText}`.trim();
+            const retryable = NOT_PROCESSED_STATUSES.has(response.status) ||
+                (idempotent && response.status >= 500);
+            if (retryable) {
+                throw new TransientToolError(message, response.status);
+            }
+            throw new ToolRequestError(message, response.status);
+        }
+
+        const contentType = response.headers.get('content-type') ?? '';
+        if (contentType.includes('application/json')) {
+            return { status: response.status, output: await response.json() };
+        }
+
+        const text = await response.text();
+        try {
+            return { status: response.status, output: JSON.parse(text) };
+        } catch {
+            return { status: response.status, output: text };
+        }
+    }
+}
+
+/**
+ * Build the auth header for a tool
+ */
+function buildAuthHeader(
+    tool: ToolDefinition,
+    inputs: Record<string, unknown>,
+    secrets: Record<string, string | undefined>
+): Record<string, string> {
+    const auth = tool.config.auth;
+    if (!auth || auth.type === 'none' || !auth.value) return {};
+
+    const value = fillTemplate(auth.value, inputs, secrets);
+
+    switch (auth.type) {
+        case 'basic':
+            return { Authorization: `Basic ${btoa(value)}` };
+        case 'bearer':
+            return { Authorization: `Bearer ${value}` };
+        case 'api_key':
+            return { [auth.headerName || 'X-API-Key']: value };
+        default:
+            return {};
+    }
+}
+
+/**
+ * Replace `{{input}}` placeholders from inputs and `{{secrets.NAME}}` from
+ * secrets, leaving unknown keys untouched
+ */
+function fillTemplate(
+    template: string,
+    inputs: Record<string, unknown>,
+    secrets: Record<string, string | undefined>
+): string {
+    return template.replace(/\{\{(secrets\.)?(\w+)\}\}/g, (match, namespace: string | undefined, key: string) => {
+        const source: Record<string, unknown> = namespace ? secrets : inputs;
+        const value = Object.hasOwn(source, key) ? source[key] : undefined;
+        return value === undefined || value === null ? match : String(value);
+    });
+}
+
+/**
+ * Tool secrets from environment variables named `IVA_SECRET_<NAME>`, keyed
+ * by `<NAME>`. Nothing else in the environment is exposed to tools.
+ */
+export function toolSecretsFromEnv(
+    env: Record<string, string | undefined>,
+    prefix: string = TOOL_SECRET_PREFIX
+): Record<string, string> {
+    const secrets: Record<string, string> = {};
+    for (const [name, value] of Object.entries(env)) {
+        if (name.startsWith(prefix) && name.length > prefix.length && value !== undefined) {
+            secrets[name.slice(prefix.length)] = value;
+        }
+    }
+    return secrets;
+}
+
+/**
+ * Check values against a parameter schema, applying defaults
+ */
+function checkParameters(
+    data: unknown,
+    schema: Record<string, ToolParameter>,
+    label: 'input' | 'output'
+): { values: Record<string, unknown>; errors: string[] } {
+    const errors: string[] = [];
+
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+        return { values: {}, errors: [`Expected ${label} to be an object`] };
+    }
+
+    const values: Record<string, unknown> = { ...(data as Record<string, unknown>) };
+
+    for (const [name, param] of Object.entries(schema)) {
+        if (values[name] === undefined && param.default !== undefined) {
+            values[name] = param.default;
+        }
+
+        const value = values[name];
+        if (value === undefined || value === null || value === '') {
+            if (param.required) {
+                errors.push(`Missing required ${label} "${name}"`);
+            }
+            continue;
+        }
+
+        if (!matchesType(value, param.type)) {
+            errors.push(`${label === 'input' ? 'Input' : 'Output'} "${name}" should be ${param.type}`);
+        }
+    }
+
+    return { values, errors };
+}
+
+function matchesType(value: unknown, type: ToolParameter['type']): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            // Interpolated inputs arrive as strings
+            return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+        case 'boolean':
+            return typeof value === 'boolean' || value === 'true' || value === 'false';
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return typeof value === 'object' && !Array.isArray(value);
+        default:
+            return true;
+    }
+}
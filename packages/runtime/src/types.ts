@@ -7,7 +7,11 @@ import type {
     FlowNode,
     SessionState,
     ExecutionStep,
-    NodeType
+    NodeType,
+    SessionStatus,
+    SessionMessage,
+    MessageAttachment,
+    ToolDefinition
 } from '@ivakit/shared';
 
 /**
@@ -32,6 +36,9 @@ export interface ExecutionContext {
     /** Emit an event */
     emit: (event: RuntimeEvent) => void;
 
+    /** Conversation so far, oldest first, including messages sent this turn */
+    transcript: () => Promise<SessionMessage[]>;
+
     /** Log a message */
     log: (level: 'debug' | 'info' | 'warn' | 'error', message: string, data?: unknown) => void;
 }
@@ -46,6 +53,9 @@ export interface NodeResult {
     /** Message to send to the user (if any) */
     message?: string;
 
+    /** Rich content sent with the message */
+    attachments?: MessageAttachment[];
+
     /** Next node ID to execute (null = wait for input, undefined = follow edge) */
     nextNodeId?: string | null;
 
@@ -55,9 +65,21 @@ export interface NodeResult {
     /** Whether execution should wait for user input */
     waitForInput?: boolean;
 
+    /** Run another flow in a nested frame, continuing after this node when it ends */
+    subflow?: {
+        flow: FlowDefinition;
+        /** Published version being run, undefined for the draft */
+        version?: number;
+        /** Mapped input variables, applied over the subflow's defaults */
+        inputs: Record<string, unknown>;
+    };
+
     /** Whether execution should end */
     end?: boolean;
 
+    /** Session status when ending (defaults to completed) */
+    status?: SessionStatus;
+
     /** Error if node execution failed */
     error?: {
         code: string;
@@ -91,6 +113,9 @@ export interface RuntimeServices {
 
     /** Session storage */
     sessions: SessionStorage;
+
+    /** Flow lookup (required for subflow nodes) */
+    flows?: FlowService;
 }
 
 /**
@@ -100,23 +125,40 @@ export interface AIService {
     classify(options: {
         systemPrompt: string;
         userMessage: string;
-        intents: Array<{ name: string; description: string }>;
+        intents: Array<{ name: string; description: string; examples?: string[] }>;
         model?: { provider: string; model?: string; temperature?: number };
     }): Promise<{
         intent: string;
         confidence: number;
         reasoning?: string;
+        /** No intent was similar enough to the message */
+        noMatch?: boolean;
+        /** Provider that answered, when the service falls back across several */
+        provider?: string;
+        tokens?: { input: number; output: number };
+        model?: string;
+        /** Estimated cost in USD, undefined when the model has no price */
+        cost?: number;
     }>;
 
     generate(options: {
         systemPrompt: string;
         userMessage: string;
-        model?: { provider: string; model?: string; temperature?: number };
+        /** Earlier conversation turns, oldest first */
+        history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+        model?: { provider: string; model?: string; temperature?: number; maxTokens?: number };
         schema?: Record<string, unknown>;
+        /** Stream the response text, called with each delta */
+        onToken?: (delta: string) => void;
     }): Promise<{
         response: string;
         structured?: unknown;
         tokens: { input: number; output: number };
+        /** Provider that answered, when the service falls back across several */
+        provider?: string;
+        model?: string;
+        /** Estimated cost in USD, undefined when the model has no price */
+        cost?: number;
     }>;
 }
 
@@ -129,11 +171,23 @@ export interface KnowledgeService {
         query: string;
         topK?: number;
         minScore?: number;
+        retrievalMode?: 'vector' | 'keyword' | 'hybrid';
+        vectorWeight?: number;
+        rerank?: 'none' | 'llm' | 'cross_encoder';
+        /** Answers and LLM rerank scores for this search; the engine's records usage */
+        ai?: Pick<AIService, 'generate'>;
     }): Promise<{
-        results: Array<{ content: string; source: string; score: number }>;
+        results: Array<{
+            content: string;
+            source: string;
+            score: number;
+            signals?: { vector?: number; keyword?: number; rerank?: number };
+        }>;
         answer?: string;
         confidence: number;
         grounded: boolean;
+        /** 1-based indexes into `results` that support the answer */
+        citations?: number[];
     }>;
 }
 
@@ -141,15 +195,38 @@ export interface KnowledgeService {
  * Tool Service interface
  */
 export interface ToolService {
-    execute(options: {
-        toolId: string;
-        inputs: Record<string, unknown>;
-        timeout?: number;
-    }): Promise<{
-        success: boolean;
-        output?: unknown;
-        error?: string;
-    }>;
+    execute(options: ToolExecuteOptions): Promise<ToolExecuteResult>;
+}
+
+export interface ToolExecuteOptions {
+    toolId: string;
+    inputs: Record<string, unknown>;
+    /** Timeout in seconds */
+    timeout?: number;
+    /** Flow the call comes from */
+    flowId?: string;
+    /** Tools defined on the flow, checked before any registry lookup */
+    tools?: ToolDefinition[];
+    /** Retry transient failures */
+    retry?: { maxAttempts: number; backoffMs: number };
+}
+
+export interface ToolExecuteResult {
+    success: boolean;
+    output?: unknown;
+    error?: string;
+    /** Each request made, in order; empty when the call failed before sending one */
+    attempts?: ToolAttempt[];
+}
+
+export interface ToolAttempt {
+    attempt: number;
+    success: boolean;
+    /** HTTP status, when the server answered */
+    status?: number;
+    error?: string;
+    /** Duration in milliseconds */
+    duration: number;
 }
 
 /**
@@ -159,6 +236,51 @@ export interface SessionStorage {
     get(sessionId: string): Promise<SessionState | null>;
     set(session: SessionState): Promise<void>;
     delete(sessionId: string): Promise<void>;
+    /** Sessions waiting for input whose `timeoutAt` is at or before `now` (required for timeout sweeps) */
+    listTimedOut?(now: string): Promise<Array<Pick<SessionState, 'id' | 'waitingSince'>>>;
+    /** Append to the session transcript */
+    appendMessages?(sessionId: string, messages: SessionMessage[]): Promise<void>;
+    /** Session transcript in order */
+    getMessages?(sessionId: string): Promise<SessionMessage[]>;
+}
+
+/**
+ * Flow lookup for subflow nodes
+ */
+export interface FlowService {
+    /** A published version, or the working draft when `version` is omitted */
+    get: FlowResolver;
+
+    /** The version new sessions run: the latest published, else the draft (no version) */
+    current(flowId: string): Promise<{ definition: FlowDefinition; version?: number } | null>;
+}
+
+/**
+ * Outcome of running a session until it waits for input or ends
+ */
+export interface TurnResult {
+    session: SessionState;
+    /** Messages sent during this turn, in order */
+    messages: SessionMessage[];
+}
+
+/**
+ * Resolves the flow definition a session runs on
+ */
+export type FlowResolver = (flowId: string, version?: number) => Promise<FlowDefinition | null>;
+
+/**
+ * Options for starting a new session
+ */
+export interface StartSessionOptions {
+    /** Session ID to use instead of a generated one (lets callers subscribe before it starts) */
+    sessionId?: string;
+
+    /** Flow version to pin the session to */
+    flowVersion?: number;
+
+    /** Session metadata (e.g. channel) */
+    metadata?: Record<string, unknown>;
 }
 
 /**
@@ -166,11 +288,15 @@ export interface SessionStorage {
  */
 export type RuntimeEvent =
     | { type: 'session_started'; sessionId: string; flowId: string }
-    | { type: 'node_started'; sessionId: string; nodeId: string; nodeType: string }
-    | { type: 'node_completed'; sessionId: string; nodeId: string; duration: number; output?: unknown }
-    | { type: 'node_error'; sessionId: string; nodeId: string; error: unknown }
-    | { type: 'message_sent'; sessionId: string; message: string }
+    | { type: 'node_started'; sessionId: string; nodeId: string; nodeType: string; flowId?: string }
+    | { type: 'node_completed'; sessionId: string; nodeId: string; duration: number; output?: unknown; flowId?: string }
+    | { type: 'node_error'; sessionId: string; nodeId: string; error: unknown; flowId?: string }
+    | { type: 'message_delta'; sessionId: string; nodeId: string; delta: string }
+    | { type: 'message_sent'; sessionId: string; message: string; nodeId: string; attachments?: MessageAttachment[]; timestamp: string }
     | { type: 'input_received'; sessionId: string; input: string }
+    | { type: 'session_timeout'; sessionId: string; nodeId: string; timeoutNodeId?: string }
+    | { type: 'subflow_started'; sessionId: string; nodeId: string; flowId: string; version?: number }
+    | { type: 'subflow_completed'; sessionId: string; nodeId: string; flowId: string; outputs: Record<string, unknown> }
     | { type: 'session_completed'; sessionId: string; status: string }
     | { type: 'session_escalated'; sessionId: string; reason: string };
 
@@ -191,4 +317,7 @@ export interface EngineConfig {
 
     /** Whether to enable debug logging */
     debug?: boolean;
+
+    /** Maximum nesting of subflow calls */
+    maxSubflowDepth?: number;
 }
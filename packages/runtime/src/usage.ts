@@ -0,0 +1,37 @@
+/**
+ * AI Usage Metering
+ *
+ * Wraps the AI service for one node execution so every call the node makes
+ * is recorded with its provider, model, tokens and estimated cost.
+ */
+
+import type { AICallUsage } from '@ivakit/shared';
+import type { AIService } from './types';
+
+interface MeteredResult {
+    provider?: string;
+    model?: string;
+    tokens?: { input: number; output: number };
+    cost?: number;
+}
+
+/**
+ * An AI service that appends each completed call to `calls`
+ */
+export function meterAI(ai: AIService, calls: AICallUsage[]): AIService {
+    const record = <T extends MeteredResult>(result: T): T => {
+        calls.push({
+            provider: result.provider,
+            model: result.model,
+            inputTokens: result.tokens?.input ?? 0,
+            outputTokens: result.tokens?.output ?? 0,
+            cost: result.cost,
+        });
+        return result;
+    };
+
+    return {
+        classify: async (options) => record(await ai.classify(options)),
+        generate: async (options) => record(await ai.generate(options)),
+    };
+}
@@ -20,10 +20,14 @@ export const NodeTypeSchema = z.enum([
     'start',
     'message',
     'collect_input',
+    'slot_fill',
     'llm_router',
+    'llm_response',
     'knowledge_search',
     'tool_call',
     'condition',
+    'set_variable',
+    'subflow',
     'escalate',
     'end',
 ]);
@@ -49,7 +53,7 @@ export const InputValidationSchema = z.object({
 });
 
 export const ModelConfigSchema = z.object({
-    provider: z.enum(['ollama', 'openai', 'anthropic', 'rules']),
+    provider: z.enum(['ollama', 'openai', 'anthropic', 'rules', 'embedding']),
     model: z.string().optional(),
     temperature: z.number().min(0).max(2).optional(),
     maxTokens: z.number().positive().optional(),
@@ -86,6 +90,15 @@ export const ConditionRuleSchema = z.object({
     targetNodeId: z.string(),
 });
 
+export const VariableAssignmentSchema = z.object({
+    variable: z.string().regex(/^[A-Za-z_][\w]*$/, 'Must be a variable name'),
+    mode: z.enum(['value', 'template', 'expression']),
+    value: z.unknown(),
+}).refine(
+    assignment => assignment.mode === 'value' || typeof assignment.value === 'string',
+    { message: 'Templates and expressions must be strings', path: ['value'] }
+);
+
 // ============================================================================
 // Node Schemas
 // ============================================================================
@@ -117,7 +130,8 @@ export const MessageNodeSchema = BaseNodeSchema.extend({
 export const CollectInputNodeSchema = BaseNodeSchema.extend({
     type: z.literal('collect_input'),
     config: z.object({
-        prompt: z.string().min(1),
+        // Empty when the previous message already asked the question
+        prompt: z.string(),
         variableName: z.string().min(1),
         validation: InputValidationSchema.optional(),
         retry: z.object({
@@ -131,6 +145,44 @@ export const CollectInputNodeSchema = BaseNodeSchema.extend({
     }),
 });
 
+export const SlotDefinitionSchema = z.object({
+    name: z.string().regex(/^[A-Za-z_][\w]*$/, 'Slot names must be valid variable names'),
+    type: z.enum(['text', 'number', 'email', 'phone', 'date', 'regex']),
+    prompt: z.string().min(1),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+    pattern: z.string().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    validator: z.string().optional(),
+    errorMessage: z.string().optional(),
+}).refine(
+    slot => slot.type !== 'regex' || !!slot.pattern,
+    { message: 'Regex slots need a pattern', path: ['pattern'] }
+);
+
+export const SlotFillNodeSchema = BaseNodeSchema.extend({
+    type: z.literal('slot_fill'),
+    config: z.object({
+        prompt: z.string().optional(),
+        slots: z.array(SlotDefinitionSchema).min(1).refine(
+            slots => new Set(slots.map(slot => slot.name)).size === slots.length,
+            { message: 'Slot names must be unique' }
+        ),
+        llmExtraction: z.boolean().optional(),
+        model: ModelConfigSchema.optional(),
+        confirmation: z.object({
+            message: z.string().min(1),
+            rejectMessage: z.string().optional(),
+        }).optional(),
+        maxAttempts: z.number().int().positive().optional(),
+        timeout: z.object({
+            seconds: z.number().positive(),
+            timeoutNodeId: z.string().optional(),
+        }).optional(),
+    }),
+});
+
 export const LLMRouterNodeSchema = BaseNodeSchema.extend({
     type: z.literal('llm_router'),
     config: z.object({
@@ -142,6 +194,19 @@ export const LLMRouterNodeSchema = BaseNodeSchema.extend({
     }),
 });
 
+export const LLMResponseNodeSchema = BaseNodeSchema.extend({
+    type: z.literal('llm_response'),
+    config: z.object({
+        systemPrompt: z.string().min(1),
+        userMessage: z.string().optional(),
+        historyWindow: z.number().int().min(0).optional(),
+        model: ModelConfigSchema.optional(),
+        schema: z.record(z.unknown()).optional(),
+        resultVariable: z.string().optional(),
+        sendMessage: z.boolean().optional(),
+    }),
+});
+
 export const KnowledgeSearchNodeSchema = BaseNodeSchema.extend({
     type: z.literal('knowledge_search'),
     config: z.object({
@@ -149,6 +214,9 @@ export const KnowledgeSearchNodeSchema = BaseNodeSchema.extend({
         query: z.string().min(1),
         topK: z.number().int().positive().optional(),
         minScore: z.number().min(0).max(1).optional(),
+        retrievalMode: z.enum(['vector', 'keyword', 'hybrid']).optional(),
+        vectorWeight: z.number().min(0).max(1).optional(),
+        rerank: z.enum(['none', 'llm', 'cross_encoder']).optional(),
         resultVariable: z.string().min(1),
         groundedOnly: z.boolean().optional(),
     }),
@@ -180,6 +248,23 @@ export const ConditionNodeSchema = BaseNodeSchema.extend({
     }),
 });
 
+export const SetVariableNodeSchema = BaseNodeSchema.extend({
+    type: z.literal('set_variable'),
+    config: z.object({
+        assignments: z.array(VariableAssignmentSchema).min(1),
+    }),
+});
+
+export const SubflowNodeSchema = BaseNodeSchema.extend({
+    type: z.literal('subflow'),
+    config: z.object({
+        flowId: z.string().min(1),
+        version: z.number().int().positive().optional(),
+        inputs: z.record(z.string()).optional(),
+        outputs: z.record(z.string()).optional(),
+    }),
+});
+
 export const EscalateNodeSchema = BaseNodeSchema.extend({
     type: z.literal('escalate'),
     config: z.object({
@@ -204,10 +289,14 @@ export const FlowNodeSchema = z.discriminatedUnion('type', [
     StartNodeSchema,
     MessageNodeSchema,
     CollectInputNodeSchema,
+    SlotFillNodeSchema,
     LLMRouterNodeSchema,
+    LLMResponseNodeSchema,
     KnowledgeSearchNodeSchema,
     ToolCallNodeSchema,
     ConditionNodeSchema,
+    SetVariableNodeSchema,
+    SubflowNodeSchema,
     EscalateNodeSchema,
     EndNodeSchema,
 ]);
@@ -330,6 +419,7 @@ export const ExecutionStepSchema = z.object({
     stepId: z.string(),
     nodeId: z.string(),
     nodeType: NodeTypeSchema,
+    flowId: z.string().optional(),
     timestamp: z.string().datetime(),
     input: z.unknown().optional(),
     output: z.unknown().optional(),
@@ -337,16 +427,39 @@ export const ExecutionStepSchema = z.object({
     error: ExecutionErrorSchema.optional(),
 });
 
+export const SessionFrameSchema = z.object({
+    flowId: z.string(),
+    flowVersion: z.number().int().positive().optional(),
+    callerNodeId: z.string(),
+    callerVariables: z.record(z.unknown()),
+});
+
+export const AIUsageSchema = z.object({
+    calls: z.number().int().nonnegative(),
+    inputTokens: z.number().nonnegative(),
+    outputTokens: z.number().nonnegative(),
+    cost: z.number().nonnegative(),
+});
+
+export const SessionUsageSchema = AIUsageSchema.extend({
+    byFlow: z.record(AIUsageSchema),
+});
+
 export const SessionStateSchema = z.object({
     id: z.string(),
     flowId: z.string(),
+    flowVersion: z.number().int().positive().optional(),
     currentNodeId: z.string(),
     variables: z.record(z.unknown()),
     history: z.array(ExecutionStepSchema),
     status: SessionStatusSchema,
+    waitingSince: z.string().datetime().optional(),
+    timeoutAt: z.string().datetime().optional(),
     createdAt: z.string().datetime(),
     updatedAt: z.string().datetime(),
     metadata: z.record(z.unknown()).optional(),
+    frames: z.array(SessionFrameSchema).optional(),
+    usage: SessionUsageSchema.optional(),
 });
 
 // ============================================================================
@@ -382,6 +495,11 @@ export const SearchResultSchema = z.object({
     content: z.string(),
     source: z.string(),
     score: z.number(),
+    signals: z.object({
+        vector: z.number().optional(),
+        keyword: z.number().optional(),
+        rerank: z.number().optional(),
+    }).optional(),
     metadata: z.record(z.unknown()).optional(),
 });
 
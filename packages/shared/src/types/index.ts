@@ -62,10 +62,14 @@ export type NodeType =
     | 'start'
     | 'message'
     | 'collect_input'
+    | 'slot_fill'
     | 'llm_router'
+    | 'llm_response'
     | 'knowledge_search'
     | 'tool_call'
     | 'condition'
+    | 'set_variable'
+    | 'subflow'
     | 'escalate'
     | 'end';
 
@@ -119,7 +123,7 @@ export interface MessageAttachment {
 export interface CollectInputNode extends BaseNode {
     type: 'collect_input';
     config: {
-        /** Prompt message to show */
+        /** Prompt message to show; empty to wait without sending one */
         prompt: string;
         /** Variable to store the input */
         variableName: string;
@@ -149,6 +153,61 @@ export interface InputValidation {
     errorMessage?: string;
 }
 
+/**
+ * Slot Fill node - collects several typed values over as many turns as needed
+ */
+export interface SlotFillNode extends BaseNode {
+    type: 'slot_fill';
+    config: {
+        /** Opening prompt (defaults to the first required slot's prompt) */
+        prompt?: string;
+        /** Slots to fill; missing required slots are asked for in order */
+        slots: SlotDefinition[];
+        /** Also extract slots with the LLM, for values the parsers miss */
+        llmExtraction?: boolean;
+        /** Model used for LLM extraction */
+        model?: ModelConfig;
+        /** Read the values back and ask the user to confirm them */
+        confirmation?: {
+            /** Confirmation question (supports {{variable}} interpolation) */
+            message: string;
+            /** Sent when the user rejects the values without correcting any */
+            rejectMessage?: string;
+        };
+        /** Turns in a row that fill nothing before failing (default 3) */
+        maxAttempts?: number;
+        /** Timeout configuration */
+        timeout?: {
+            seconds: number;
+            timeoutNodeId?: string;
+        };
+    };
+}
+
+export interface SlotDefinition {
+    /** Variable the value is stored in */
+    name: string;
+    type: SlotType;
+    /** Asked when the slot is missing (supports {{variable}} interpolation) */
+    prompt: string;
+    /** What the slot holds, for LLM extraction */
+    description?: string;
+    /** Optional slots are filled when mentioned but never asked for (default true) */
+    required?: boolean;
+    /** Pattern for regex slots; the first capture group, if any, is the value */
+    pattern?: string;
+    /** Lower bound: the value for numbers, the length for text */
+    min?: number;
+    /** Upper bound: the value for numbers, the length for text */
+    max?: number;
+    /** Expression the value, bound as `value`, must satisfy */
+    validator?: string;
+    /** Sent when the answer to this slot's prompt is invalid */
+    errorMessage?: string;
+}
+
+export type SlotType = 'text' | 'number' | 'email' | 'phone' | 'date' | 'regex';
+
 /**
  * LLM Router node - uses AI for intent classification
  */
@@ -175,8 +234,31 @@ export interface IntentDefinition {
     targetNodeId: string;
 }
 
+/**
+ * LLM Response node - generates a reply or structured output with an LLM
+ */
+export interface LLMResponseNode extends BaseNode {
+    type: 'llm_response';
+    config: {
+        /** System prompt (supports {{variable}} interpolation) */
+        systemPrompt: string;
+        /** User message (supports {{variable}} interpolation, defaults to the latest user message) */
+        userMessage?: string;
+        /** Number of earlier conversation messages to include (default 10, 0 for none) */
+        historyWindow?: number;
+        /** Model configuration */
+        model?: ModelConfig;
+        /** JSON schema for structured output; its top-level properties are written to variables */
+        schema?: Record<string, unknown>;
+        /** Variable to store the response text (or structured object) in */
+        resultVariable?: string;
+        /** Send the response to the user (defaults to true without a schema) */
+        sendMessage?: boolean;
+    };
+}
+
 export interface ModelConfig {
-    provider: 'ollama' | 'openai' | 'anthropic' | 'rules';
+    provider: 'ollama' | 'openai' | 'anthropic' | 'rules' | 'embedding';
     model?: string;
     temperature?: number;
     maxTokens?: number;
@@ -196,6 +278,12 @@ export interface KnowledgeSearchNode extends BaseNode {
         topK?: number;
         /** Minimum similarity score (0-1) */
         minScore?: number;
+        /** Retrieval strategy: embeddings, BM25 keywords, or both (default: vector) */
+        retrievalMode?: 'vector' | 'keyword' | 'hybrid';
+        /** Weight of the vector score in hybrid mode (0-1, default: 0.5) */
+        vectorWeight?: number;
+        /** Rescore retrieved candidates before taking the top K */
+        rerank?: 'none' | 'llm' | 'cross_encoder';
         /** Variable to store results */
         resultVariable: string;
         /** Whether to only return grounded answers */
@@ -271,6 +359,48 @@ export type ConditionOperator =
     | 'is_not_empty'
     | 'matches_regex';
 
+/**
+ * Set Variable node - assigns or transforms session variables
+ */
+export interface SetVariableNode extends BaseNode {
+    type: 'set_variable';
+    config: {
+        /** Assignments applied in order; later ones see earlier results */
+        assignments: VariableAssignment[];
+    };
+}
+
+export interface VariableAssignment {
+    /** Variable to write */
+    variable: string;
+    /**
+     * How `value` is interpreted:
+     * - value: stored as-is (literal)
+     * - template: a string with {{variable}} interpolation
+     * - expression: evaluated, e.g. `attempts + 1` or `max(score, 0)`
+     */
+    mode: 'value' | 'template' | 'expression';
+    value: unknown;
+}
+
+/**
+ * Subflow node - runs another stored flow in a nested frame of the same
+ * session, then continues here once that flow reaches an End node
+ */
+export interface SubflowNode extends BaseNode {
+    type: 'subflow';
+    config: {
+        /** Flow to invoke */
+        flowId: string;
+        /** Published version to pin; defaults to the version new sessions run */
+        version?: number;
+        /** Subflow variable -> expression over this flow's variables */
+        inputs?: Record<string, string>;
+        /** This flow's variable -> expression over the subflow's variables at its End node */
+        outputs?: Record<string, string>;
+    };
+}
+
 /**
  * Escalate node - hand off to human agent
  */
@@ -310,10 +440,14 @@ export type FlowNode =
     | StartNode
     | MessageNode
     | CollectInputNode
+    | SlotFillNode
     | LLMRouterNode
+    | LLMResponseNode
     | KnowledgeSearchNode
     | ToolCallNode
     | ConditionNode
+    | SetVariableNode
+    | SubflowNode
     | EscalateNode
     | EndNode;
 
@@ -354,6 +488,24 @@ export interface VariableDefinition {
     persistent?: boolean;
 }
 
+/**
+ * A `{{path | filter:arg}}` expression parsed from a template
+ */
+export interface TemplateExpression {
+    /** The full `{{...}}` text */
+    raw: string;
+    /** Variable path, e.g. `order.items[0].name` */
+    path: string;
+    /** Top-level variable the path starts from, e.g. `order` */
+    root: string;
+    filters: TemplateFilterCall[];
+}
+
+export interface TemplateFilterCall {
+    name: string;
+    args: Array<string | number>;
+}
+
 // ============================================================================
 // Tool Types
 // ============================================================================
@@ -386,6 +538,95 @@ export interface ToolParameter {
     default?: unknown;
 }
 
+// ============================================================================
+// Flow Analysis Types
+// ============================================================================
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type FlowRule =
+    | 'invalid_schema'
+    | 'missing_entry'
+    | 'invalid_entry'
+    | 'multiple_start'
+    | 'missing_end'
+    | 'duplicate_node'
+    | 'dangling_edge'
+    | 'dangling_target'
+    | 'missing_target'
+    | 'invalid_escalate_target'
+    | 'ignored_edge'
+    | 'unreachable_node'
+    | 'input_free_cycle'
+    | 'invalid_expression'
+    | 'invalid_filter'
+    | 'undefined_variable'
+    | 'possibly_undefined_variable'
+    | 'unused_variable';
+
+/**
+ * A single finding from static flow analysis
+ */
+export interface FlowDiagnostic {
+    rule: FlowRule;
+    severity: DiagnosticSeverity;
+    message: string;
+    nodeId?: string;
+    edgeId?: string;
+    variable?: string;
+}
+
+export interface FlowAnalysis {
+    /** True when there are no error diagnostics */
+    valid: boolean;
+    diagnostics: FlowDiagnostic[];
+}
+
+// ============================================================================
+// Flow Version Types
+// ============================================================================
+
+/**
+ * An immutable published snapshot of a flow
+ */
+export interface FlowVersionInfo {
+    id: string;
+    flowId: string;
+    version: number;
+    createdAt: string;
+    createdBy?: string;
+    changeNote?: string;
+    /** Why the version was published despite validation errors */
+    forceReason?: string;
+}
+
+/**
+ * A single changed value, addressed by a dotted path (e.g. `config.intents[0].name`)
+ */
+export interface FieldChange {
+    path: string;
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * Structural difference between two flow definitions
+ */
+export interface FlowDiff {
+    /** Changes to flow-level fields (name, entryNode, variables, tools) */
+    flow: FieldChange[];
+    nodes: {
+        added: FlowNode[];
+        removed: FlowNode[];
+        changed: Array<{ id: string; name: string; changes: FieldChange[] }>;
+    };
+    edges: {
+        added: FlowEdge[];
+        removed: FlowEdge[];
+        changed: Array<{ id: string; changes: FieldChange[] }>;
+    };
+}
+
 // ============================================================================
 // Runtime Types
 // ============================================================================
@@ -396,13 +637,53 @@ export interface ToolParameter {
 export interface SessionState {
     id: string;
     flowId: string;
+    /** Published flow version the session was started on */
+    flowVersion?: number;
     currentNodeId: string;
     variables: Record<string, unknown>;
     history: ExecutionStep[];
     status: SessionStatus;
+    /** When the session last entered `waiting_input` */
+    waitingSince?: string;
+    /** When the current wait times out, if its node has a timeout */
+    timeoutAt?: string;
     createdAt: string;
     updatedAt: string;
     metadata?: Record<string, unknown>;
+    /**
+     * Subflow calls in progress, outermost first. While any are open,
+     * `currentNodeId` and `variables` belong to the innermost frame's flow.
+     */
+    frames?: SessionFrame[];
+    /** Tokens and estimated cost of the session's AI calls */
+    usage?: SessionUsage;
+}
+
+/**
+ * A subflow call in progress
+ */
+export interface SessionFrame {
+    /** Flow running in this frame */
+    flowId: string;
+    /** Its published version, or undefined for the draft */
+    flowVersion?: number;
+    /** Subflow node in the calling flow */
+    callerNodeId: string;
+    /** The caller's variables, restored when the subflow returns */
+    callerVariables: Record<string, unknown>;
+}
+
+/**
+ * A message exchanged in a session
+ */
+export interface SessionMessage {
+    id: string;
+    role: 'user' | 'assistant' | 'system';
+    content: string;
+    /** Node that sent the message (assistant messages) */
+    nodeId?: string;
+    attachments?: MessageAttachment[];
+    timestamp: string;
 }
 
 export type SessionStatus =
@@ -413,6 +694,37 @@ export type SessionStatus =
     | 'error'
     | 'timeout';
 
+/**
+ * Token usage and estimated cost of AI calls
+ */
+export interface AIUsage {
+    /** Number of AI calls */
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    /** Estimated cost in USD; calls to models without a price add nothing */
+    cost: number;
+}
+
+/**
+ * AI usage of a session, in total and per flow it ran (root flow and subflows)
+ */
+export interface SessionUsage extends AIUsage {
+    byFlow: Record<string, AIUsage>;
+}
+
+/**
+ * A single AI call, as recorded in the output of the step that made it
+ */
+export interface AICallUsage {
+    provider?: string;
+    model?: string;
+    inputTokens: number;
+    outputTokens: number;
+    /** Estimated cost in USD, undefined when the model has no price */
+    cost?: number;
+}
+
 /**
  * Single execution step in the session history
  */
@@ -420,6 +732,8 @@ export interface ExecutionStep {
     stepId: string;
     nodeId: string;
     nodeType: NodeType;
+    /** Flow the node belongs to, when it ran inside a subflow */
+    flowId?: string;
     timestamp: string;
     input?: unknown;
     output?: unknown;
@@ -466,6 +780,12 @@ export interface SearchResult {
     content: string;
     source: string;
     score: number;
+    /** Per-signal scores that produced `score` */
+    signals?: {
+        vector?: number;
+        keyword?: number;
+        rerank?: number;
+    };
     metadata?: Record<string, unknown>;
 }
 
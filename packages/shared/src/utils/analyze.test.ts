@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest';
+import type { FlowDefinition, FlowEdge, FlowNode } from '../types';
+import { analyzeFlow, checkFlow } from './index';
+
+function node(id: string, type: FlowNode['type'], config: Record<string, unknown> = {}): FlowNode {
+    return { id, type, name: id, position: { x: 0, y: 0 }, config } as FlowNode;
+}
+
+function edges(...pairs: Array<[string, string]>): FlowEdge[] {
+    return pairs.map(([source, target]) => ({ id: `${source}-${target}`, source, target }));
+}
+
+function flow(nodes: FlowNode[], flowEdges: FlowEdge[], variables: FlowDefinition['variables'] = []): FlowDefinition {
+    return {
+        version: '1.0',
+        id: 'flow',
+        name: 'Flow',
+        entryNode: 'start',
+        variables,
+        nodes,
+        edges: flowEdges,
+        tools: [],
+        metadata: { createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+    };
+}
+
+const rules = (definition: FlowDefinition) => analyzeFlow(definition).diagnostics.map(d => d.rule);
+
+describe('analyzeFlow', () => {
+    it('accepts a well-formed flow', () => {
+        const analysis = analyzeFlow(flow(
+            [
+                node('start', 'start'),
+                node('ask', 'collect_input', { prompt: 'Name?', variableName: 'name' }),
+                node('end', 'end', { message: 'Bye {{name}}', status: 'completed' }),
+            ],
+            edges(['start', 'ask'], ['ask', 'end'])
+        ));
+
+        expect(analysis).toEqual({ valid: true, diagnostics: [] });
+    });
+
+    it('reports structural errors', () => {
+        const definition = flow(
+            [node('start', 'start'), node('start', 'message', { message: 'Hi' }), node('other', 'start')],
+            edges(['start', 'ghost'])
+        );
+        const analysis = analyzeFlow(definition);
+
+        expect(analysis.valid).toBe(false);
+        expect(rules(definition)).toEqual(expect.arrayContaining([
+            'duplicate_node', 'multiple_start', 'missing_end', 'dangling_edge',
+        ]));
+        expect(rules({ ...definition, entryNode: 'nope' })).toContain('missing_entry');
+    });
+
+    it('reports config targets that are missing or point nowhere', () => {
+        const definition = flow(
+            [
+                node('start', 'start'),
+                node('check', 'condition', {
+                    conditions: [
+                        { id: 'vip', variable: 'tier', operator: 'equals', value: 'vip', targetNodeId: 'ghost' },
+                        { id: 'rest', variable: 'tier', operator: 'exists', value: null, targetNodeId: '' },
+                    ],
+                }),
+                node('end', 'end', { status: 'completed' }),
+            ],
+            edges(['start', 'check'], ['check', 'end']),
+            [{ name: 'tier', type: 'string', defaultValue: 'basic' }]
+        );
+
+        const diagnostics = analyzeFlow(definition).diagnostics;
+        expect(diagnostics.find(d => d.rule === 'dangling_target')).toMatchObject({ severity: 'error', nodeId: 'check' });
+        expect(diagnostics.find(d => d.rule === 'missing_target')).toMatchObject({ severity: 'warning', nodeId: 'check' });
+    });
+
+    it('warns when a tool escalates to a node that is not an Escalate node', () => {
+        const escalating = (targetNodeId?: string) => flow(
+            [
+                node('start', 'start'),
+                node('call', 'tool_call', {
+                    toolId: 'orders',
+                    inputs: {},
+                    resultVariable: 'order',
+                    onError: { action: 'escalate', targetNodeId },
+                }),
+                node('end', 'end', { message: '{{order}}', status: 'completed' }),
+            ],
+            edges(['start', 'call'], ['call', 'end'])
+        );
+
+        expect(analyzeFlow(escalating('end')).diagnostics.find(d => d.rule === 'invalid_escalate_target'))
+            .toMatchObject({ severity: 'warning', nodeId: 'call' });
+        expect(rules(escalating())).not.toContain('invalid_escalate_target');
+    });
+
+    it('reports unreachable nodes and edges the engine never follows', () => {
+        const diagnostics = analyzeFlow(flow(
+            [
+                node('start', 'start'),
+                node('hello', 'message', { message: 'Hi' }),
+                node('orphan', 'message', { message: 'Never' }),
+                node('end', 'end', { status: 'completed' }),
+            ],
+            edges(['start', 'hello'], ['hello', 'end'], ['hello', 'orphan'], ['orphan', 'end'])
+        )).diagnostics;
+
+        expect(diagnostics.find(d => d.rule === 'unreachable_node')?.nodeId).toBe('orphan');
+        expect(diagnostics.find(d => d.rule === 'ignored_edge')?.edgeId).toBe('hello-orphan');
+    });
+
+    it('reports loops that never wait for input', () => {
+        const loop = flow(
+            [
+                node('start', 'start'),
+                node('ping', 'message', { message: 'Ping' }),
+                node('pong', 'message', { message: 'Pong' }),
+                node('end', 'end', { status: 'completed' }),
+            ],
+            edges(['start', 'ping'], ['ping', 'pong'], ['pong', 'ping'])
+        );
+
+        const cycle = analyzeFlow(loop).diagnostics.find(d => d.rule === 'input_free_cycle');
+        expect(cycle).toMatchObject({ severity: 'error' });
+        expect(cycle?.message).toContain('"ping" → "pong"');
+    });
+
+    it('only warns about loops a branch can leave', () => {
+        const retry = flow(
+            [
+                node('start', 'start'),
+                node('call', 'tool_call', {
+                    toolId: 'orders',
+                    inputs: {},
+                    resultVariable: 'order',
+                    onError: { action: 'goto', targetNodeId: 'count' },
+                }),
+                node('count', 'set_variable', { assignments: [{ variable: 'attempts', mode: 'expression', value: 'attempts + 1' }] }),
+                node('check', 'condition', {
+                    conditions: [{ id: 'again', variable: 'attempts', operator: 'less_than', value: 3, targetNodeId: 'call' }],
+                    defaultNodeId: 'end',
+                }),
+                node('end', 'end', { message: '{{order}}', status: 'completed' }),
+            ],
+            edges(['start', 'call'], ['call', 'end'], ['count', 'check']),
+            [{ name: 'attempts', type: 'number', defaultValue: 0 }]
+        );
+
+        const analysis = analyzeFlow(retry);
+        expect(analysis.valid).toBe(true);
+        expect(analysis.diagnostics.find(d => d.rule === 'input_free_cycle')).toMatchObject({ severity: 'warning', nodeId: 'call' });
+    });
+
+    it('accepts loops through an input node', () => {
+        const loop = flow(
+            [
+                node('start', 'start'),
+                node('ask', 'collect_input', { prompt: 'Again?', variableName: 'answer' }),
+                node('check', 'condition', {
+                    conditions: [{ id: 'done', variable: 'answer', operator: 'equals', value: 'no', targetNodeId: 'end' }],
+                    defaultNodeId: 'ask',
+                }),
+                node('end', 'end', { status: 'completed' }),
+            ],
+            edges(['start', 'ask'], ['ask', 'check'])
+        );
+
+        expect(rules(loop)).not.toContain('input_free_cycle');
+    });
+
+    it('tracks variables set on some or all paths', () => {
+        const definition = flow(
+            [
+                node('start', 'start'),
+                node('check', 'condition', {
+                    conditions: [{ id: 'vip', variable: 'tier', operator: 'equals', value: 'vip', targetNodeId: 'greet' }],
+                    defaultNodeId: 'plain',
+                }),
+                node('greet', 'set_variable', { assignments: [{ variable: 'title', mode: 'value', value: 'Dear' }] }),
+                node('plain', 'message', { message: 'Hello' }),
+                node('end', 'end', {
+                    message: '{{title}} {{nickname}} {{signature | default:"Team"}}',
+                    status: 'completed',
+                }),
+            ],
+            edges(['start', 'check'], ['greet', 'end'], ['plain', 'end']),
+            [{ name: 'tier', type: 'string', defaultValue: 'basic' }]
+        );
+
+        const diagnostics = analyzeFlow(definition).diagnostics;
+        expect(diagnostics.find(d => d.variable === 'title')).toMatchObject({ rule: 'possibly_undefined_variable', severity: 'info' });
+        expect(diagnostics.find(d => d.variable === 'nickname')).toMatchObject({ rule: 'undefined_variable', severity: 'warning' });
+        expect(diagnostics.some(d => d.variable === 'signature')).toBe(false);
+    });
+
+    it('reports variables nothing reads', () => {
+        const definition = flow(
+            [
+                node('start', 'start'),
+                node('ask', 'collect_input', { prompt: 'Email?', variableName: 'email' }),
+                node('end', 'end', { status: 'completed' }),
+            ],
+            edges(['start', 'ask'], ['ask', 'end']),
+            [{ name: 'unused', type: 'string' }]
+        );
+
+        const unused = analyzeFlow(definition).diagnostics.filter(d => d.rule === 'unused_variable');
+        expect(unused.map(d => [d.variable, d.nodeId])).toEqual([['unused', undefined], ['email', 'ask']]);
+    });
+
+    it('reports invalid expressions', () => {
+        const definition = flow(
+            [
+                node('start', 'start'),
+                node('count', 'set_variable', { assignments: [{ variable: 'total', mode: 'expression', value: '1 +' }] }),
+                node('end', 'end', { message: '{{total}}', status: 'completed' }),
+            ],
+            edges(['start', 'count'], ['count', 'end'])
+        );
+
+        expect(analyzeFlow(definition).diagnostics.find(d => d.rule === 'invalid_expression'))
+            .toMatchObject({ severity: 'error', nodeId: 'count', variable: 'total' });
+    });
+});
+
+describe('checkFlow', () => {
+    it('reports schema problems with the node they belong to', () => {
+        const analysis = checkFlow(flow(
+            [node('start', 'start'), node('end', 'end', { status: 'done' })],
+            edges(['start', 'end'])
+        ));
+
+        expect(analysis.valid).toBe(false);
+        expect(analysis.diagnostics[0]).toMatchObject({ rule: 'invalid_schema', severity: 'error', nodeId: 'end' });
+    });
+
+    it('analyzes flows that parse', () => {
+        expect(checkFlow(flow([node('start', 'start')], [])).diagnostics.map(d => d.rule)).toEqual(['missing_end']);
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, extractExpressionVariables, ExpressionError } from './index';
+
+const variables = {
+    attempts: 2,
+    age: '42',
+    name: 'Ada',
+    order: { total: 19.5, items: [{ price: 4 }, { price: 6 }] },
+    tags: ['a', 'b'],
+};
+
+const evaluate = (expression: string) => evaluateExpression(expression, variables);
+
+describe('evaluateExpression', () => {
+    it('follows operator precedence and parentheses', () => {
+        expect(evaluate('1 + 2 * 3')).toBe(7);
+        expect(evaluate('(1 + 2) * 3')).toBe(9);
+        expect(evaluate('10 - 4 - 3')).toBe(3);
+        expect(evaluate('7 % 4 + -1')).toBe(2);
+        expect(evaluate('1 + 2 > 2 && 3 < 4')).toBe(true);
+    });
+
+    it('reads variable paths', () => {
+        expect(evaluate('order.items[0].price + order.items[1].price')).toBe(10);
+        expect(evaluate('attempts + 1')).toBe(3);
+    });
+
+    it('treats missing variables as 0 in arithmetic', () => {
+        expect(evaluate('retries + 1')).toBe(1);
+    });
+
+    it('treats numeric strings as numbers', () => {
+        expect(evaluate('age + 1')).toBe(43);
+        expect(evaluate('age >= 18')).toBe(true);
+        expect(evaluate('age == 42')).toBe(true);
+    });
+
+    it('concatenates when either side is not numeric', () => {
+        expect(evaluate('"Hi " + name')).toBe('Hi Ada');
+        expect(evaluate("'#' + attempts")).toBe('#2');
+    });
+
+    it('compares strings as text', () => {
+        expect(evaluate('name < "Bob"')).toBe(true);
+        expect(evaluate('name != "Ada"')).toBe(false);
+    });
+
+    it('short-circuits and returns the deciding operand', () => {
+        expect(evaluate('missing || "fallback"')).toBe('fallback');
+        expect(evaluate('name && attempts')).toBe(2);
+        expect(evaluate('null && 1 / 0')).toBe(null);
+        expect(evaluate('!missing')).toBe(true);
+    });
+
+    it('calls the built-in functions', () => {
+        expect(evaluate('max(attempts, 5, age)')).toBe(42);
+        expect(evaluate('round(order.total / 3, 2)')).toBe(6.5);
+        expect(evaluate('length(tags) + length(name)')).toBe(5);
+        expect(evaluate('upper(trim("  hi "))')).toBe('HI');
+    });
+
+    it('rejects division by zero and non-numeric arithmetic', () => {
+        expect(() => evaluate('attempts / 0')).toThrow(ExpressionError);
+        expect(() => evaluate('name * 2')).toThrow('Expected a number');
+    });
+
+    it('rejects anything outside the grammar', () => {
+        for (const expression of ['', '1 +', '(1', 'alert(1)', 'name.toUpperCase()', 'a = 1', 'x; y', '1 2']) {
+            expect(() => evaluate(expression), expression).toThrow(ExpressionError);
+        }
+    });
+
+    it('does not expose inherited properties', () => {
+        expect(evaluate('name.constructor')).toBeUndefined();
+        expect(evaluate('order.constructor')).toBeUndefined();
+    });
+});
+
+describe('extractExpressionVariables', () => {
+    it('returns the root of each variable path once', () => {
+        expect(extractExpressionVariables('max(order.total, order.items[0].price) + count - true'))
+            .toEqual(['order', 'count']);
+    });
+
+    it('throws for invalid expressions', () => {
+        expect(() => extractExpressionVariables('count +')).toThrow(ExpressionError);
+    });
+});
@@ -4,7 +4,24 @@
  * Common utilities used across the platform.
  */
 
-import type { FlowDefinition, FlowNode, FlowEdge, SessionState } from '../types';
+import type {
+    FlowDefinition,
+    FlowNode,
+    FlowEdge,
+    SessionState,
+    FlowDiff,
+    FieldChange,
+    TemplateExpression,
+    TemplateFilterCall,
+    FlowAnalysis,
+    FlowDiagnostic,
+    VariableAssignment,
+    SlotFillNode,
+    AIUsage,
+    AICallUsage,
+    SessionUsage,
+} from '../types';
+import { FlowDefinitionSchema } from '../schemas';
 
 // ============================================================================
 // ID Generation
@@ -45,29 +62,235 @@ export function generateSessionId(): string {
 // Variable Interpolation
 // ============================================================================
 
+const EXPRESSION_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const PATH_PATTERN = /^[A-Za-z_]\w*(?:\.\w+|\[\d+\])*$/;
+
+const DATE_STYLES = ['full', 'long', 'medium', 'short'];
+
+type TemplateFilter = (value: unknown, args: Array<string | number>) => unknown;
+
+/**
+ * Filters available in templates, e.g. `{{total | currency:"EUR"}}`
+ */
+const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+    default: (value, [fallback = '']) =>
+        value === undefined || value === null || value === '' ? fallback : value,
+    upper: (value) => stringify(value).toUpperCase(),
+    lower: (value) => stringify(value).toLowerCase(),
+    currency: (value, [currency = 'USD', locale = 'en-US']) => {
+        const amount = Number(value);
+        if (value === null || value === '' || Number.isNaN(amount)) return value;
+        try {
+            return new Intl.NumberFormat(String(locale), { style: 'currency', currency: String(currency) }).format(amount);
+        } catch {
+            return value; // Unknown currency or locale
+        }
+    },
+    date: (value, [style = 'medium', locale = 'en-US']) => {
+        if (value === undefined || value === null || value === '') return value;
+        const date = value instanceof Date ? value : new Date(value as string | number);
+        if (Number.isNaN(date.getTime())) return value;
+        if (style === 'iso') return date.toISOString();
+        try {
+            if (style === 'time') return date.toLocaleTimeString(String(locale), { timeStyle: 'short' });
+            if (style === 'datetime') {
+                return date.toLocaleString(String(locale), { dateStyle: 'medium', timeStyle: 'short' });
+            }
+            const dateStyle = DATE_STYLES.includes(String(style)) ? style as 'full' | 'long' | 'medium' | 'short' : 'medium';
+            return date.toLocaleDateString(String(locale), { dateStyle });
+        } catch {
+            return value; // Unknown locale
+        }
+    },
+    json: (value, [indent]) => JSON.stringify(value, null, typeof indent === 'number' ? indent : undefined),
+    truncate: (value, [length = 100]) => truncate(stringify(value), Number(length)),
+};
+
+/**
+ * Names of the filters templates may use
+ */
+export const TEMPLATE_FILTER_NAMES = Object.keys(TEMPLATE_FILTERS);
+
+/** Styles the `date` filter accepts */
+const DATE_FILTER_STYLES = [...DATE_STYLES, 'iso', 'time', 'datetime'];
+
+/**
+ * Why a filter call won't work as written, if it won't: an unknown filter,
+ * or an argument the filter would ignore or can't use
+ */
+function filterProblem(filter: TemplateFilterCall): string | undefined {
+    const [first, second] = filter.args;
+    switch (filter.name) {
+        case 'currency':
+            if (first !== undefined && !isValidCurrency(String(first))) return `unknown currency "${first}"`;
+            if (second !== undefined && !isValidLocale(String(second))) return `invalid locale "${second}"`;
+            return undefined;
+        case 'date':
+            if (first !== undefined && !DATE_FILTER_STYLES.includes(String(first))) {
+                return `unknown date style "${first}" (use ${DATE_FILTER_STYLES.join(', ')})`;
+            }
+            if (second !== undefined && !isValidLocale(String(second))) return `invalid locale "${second}"`;
+            return undefined;
+        case 'json':
+        case 'truncate':
+            return first !== undefined && typeof first !== 'number' ? `expects a number, got "${first}"` : undefined;
+        default:
+            return TEMPLATE_FILTERS[filter.name] ? undefined : 'unknown filter';
+    }
+}
+
+function isValidCurrency(code: string): boolean {
+    try {
+        new Intl.NumberFormat('en-US', { style: 'currency', currency: code });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function isValidLocale(locale: string): boolean {
+    try {
+        Intl.getCanonicalLocales(locale);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Interpolate variables in a template string
- * Supports {{variableName}} syntax
+ *
+ * Supports `{{name}}`, nested paths and array indexes (`{{order.items[0].name}}`)
+ * and filters applied left to right (`{{name | default:"there" | upper}}`).
+ * Expressions whose value is missing are left as written.
  */
 export function interpolate(
     template: string,
     variables: Record<string, unknown>
 ): string {
-    return template.replace(/\{\{(\w+)\}\}/g, (match, key) => {
-        const value = variables[key];
+    return template.replace(EXPRESSION_PATTERN, (match, body: string) => {
+        const expression = parseTemplateExpression(match, body);
+        if (!expression) return match;
+
+        let value = getPath(variables, expression.path);
+        for (const filter of expression.filters) {
+            // Only `default` can fill in a missing value
+            if ((value === undefined || value === null) && filter.name !== 'default') continue;
+
+            const apply = TEMPLATE_FILTERS[filter.name];
+            if (apply) value = apply(value, filter.args);
+        }
+
         if (value === undefined || value === null) {
             return match; // Keep original if not found
         }
-        return String(value);
+        return stringify(value);
     });
 }
 
 /**
- * Extract variable names from a template string
+ * Parse every `{{...}}` expression in a template
+ */
+export function parseTemplate(template: string): TemplateExpression[] {
+    const expressions: TemplateExpression[] = [];
+    for (const match of template.matchAll(EXPRESSION_PATTERN)) {
+        const expression = parseTemplateExpression(match[0], match[1]);
+        if (expression) expressions.push(expression);
+    }
+    return expressions;
+}
+
+/**
+ * Extract the root variable names used by a template
  */
 export function extractVariables(template: string): string[] {
-    const matches = template.matchAll(/\{\{(\w+)\}\}/g);
-    return [...new Set([...matches].map(m => m[1]))];
+    return [...new Set(parseTemplate(template).map(e => e.root))];
+}
+
+/**
+ * Read a value by path, e.g. `getPath(vars, 'order.items[0].name')`.
+ * Only own properties of plain objects and arrays are followed, so paths
+ * like `name.constructor` read nothing.
+ */
+export function getPath(obj: Record<string, unknown>, path: string): unknown {
+    const parts = path.replace(/\[(\d+)\]/g, '.$1').split('.');
+    let current: unknown = obj;
+
+    for (const part of parts) {
+        if (!isPlainData(current) || !Object.hasOwn(current, part)) return undefined;
+        current = current[part];
+    }
+
+    return current;
+}
+
+function isPlainData(value: unknown): value is Record<string, unknown> {
+    if (Array.isArray(value)) return true;
+    if (typeof value !== 'object' || value === null) return false;
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function parseTemplateExpression(raw: string, body: string): TemplateExpression | null {
+    const [path, ...filterParts] = splitOutsideQuotes(body, '|').map(part => part.trim());
+    if (!PATH_PATTERN.test(path)) return null;
+
+    const filters: TemplateFilterCall[] = filterParts.map(part => {
+        const separator = part.indexOf(':');
+        if (separator === -1) return { name: part, args: [] };
+
+        return {
+            name: part.slice(0, separator).trim(),
+            args: splitOutsideQuotes(part.slice(separator + 1), ',').map(parseFilterArg),
+        };
+    });
+
+    return { raw, path, root: pathRoot(path), filters };
+}
+
+/**
+ * The top-level variable of a path, e.g. `order` for `order.items[0]`
+ */
+function pathRoot(path: string): string {
+    return path.split(/[.[]/)[0];
+}
+
+function parseFilterArg(arg: string): string | number {
+    const trimmed = arg.trim();
+    const quoted = trimmed.match(/^(["'])(.*)\1$/);
+    if (quoted) return quoted[2];
+
+    const number = Number(trimmed);
+    return trimmed !== '' && !Number.isNaN(number) ? number : trimmed;
+}
+
+function splitOutsideQuotes(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (const char of text) {
+        if (quote) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === separator) {
+            parts.push(current);
+            current = '';
+            continue;
+        }
+        current += char;
+    }
+
+    parts.push(current);
+    return parts;
+}
+
+function stringify(value: unknown): string {
+    if (typeof value === 'object' && value !== null && !(value instanceof Date)) {
+        return JSON.stringify(value);
+    }
+    return String(value ?? '');
 }
 
 // ============================================================================
@@ -110,42 +333,761 @@ export function getNextNodes(flow: FlowDefinition, nodeId: string): FlowNode[] {
  * Validate flow structure
  */
 export function validateFlow(flow: FlowDefinition): { valid: boolean; errors: string[] } {
-    const errors: string[] = [];
+    const { valid, diagnostics } = analyzeFlow(flow);
+    return {
+        valid,
+        errors: diagnostics.filter(d => d.severity === 'error').map(d => d.message),
+    };
+}
 
-    // Check entry node exists
-    const entryNode = findNode(flow, flow.entryNode);
-    if (!entryNode) {
-        errors.push(`Entry node "${flow.entryNode}" not found`);
-    } else if (entryNode.type !== 'start') {
-        errors.push(`Entry node must be of type "start"`);
-    }
+// ============================================================================
+// Flow Analysis
+// ============================================================================
+
+interface BranchTarget {
+    label: string;
+    target: string;
+}
+
+/** Nodes that end the session, so their outgoing edges are never followed */
+const TERMINAL_NODE_TYPES = new Set(['end', 'escalate']);
+
+/** Nodes that pause for user input, breaking any cycle through them */
+const INPUT_NODE_TYPES = new Set(['collect_input', 'slot_fill']);
 
-    // Check for orphan nodes (no incoming or outgoing edges, except start/end)
+/**
+ * Statically analyze a flow, following the engine's routing rules.
+ *
+ * Reports structural errors (entry, end, duplicate IDs, broken references),
+ * unreachable nodes, cycles that never wait for input (an error when nothing
+ * leads out of them, so they always hit the engine's step limit), and
+ * variables read before any path writes them or written but never read.
+ */
+export function analyzeFlow(flow: FlowDefinition): FlowAnalysis {
+    const diagnostics: FlowDiagnostic[] = [];
+    const nodesById = new Map<string, FlowNode>();
+
+    // Entry, start and end nodes
     for (const node of flow.nodes) {
-        const edges = findConnectedEdges(flow, node.id);
-        if (edges.length === 0 && node.type !== 'start') {
-            errors.push(`Node "${node.name}" (${node.id}) has no connections`);
+        if (nodesById.has(node.id)) {
+            diagnostics.push({
+                rule: 'duplicate_node',
+                severity: 'error',
+                message: `Node ID "${node.id}" is used more than once`,
+                nodeId: node.id,
+            });
         }
+        nodesById.set(node.id, node);
     }
 
-    // Check edge references valid nodes
+    const entry = nodesById.get(flow.entryNode);
+    if (!entry) {
+        diagnostics.push({
+            rule: 'missing_entry',
+            severity: 'error',
+            message: flow.entryNode ? `Entry node "${flow.entryNode}" not found` : 'Flow must have a Start node',
+        });
+    } else if (entry.type !== 'start') {
+        diagnostics.push({
+            rule: 'invalid_entry',
+            severity: 'error',
+            message: 'Entry node must be of type "start"',
+            nodeId: entry.id,
+        });
+    }
+
+    for (const node of flow.nodes.filter(n => n.type === 'start').slice(1)) {
+        diagnostics.push({
+            rule: 'multiple_start',
+            severity: 'error',
+            message: `Flow can only have one Start node ("${node.name}" is extra)`,
+            nodeId: node.id,
+        });
+    }
+
+    if (!flow.nodes.some(n => n.type === 'end')) {
+        diagnostics.push({ rule: 'missing_end', severity: 'error', message: 'Flow must have at least one End node' });
+    }
+
+    // Edge and config references
     for (const edge of flow.edges) {
-        if (!findNode(flow, edge.source)) {
-            errors.push(`Edge "${edge.id}" references non-existent source node "${edge.source}"`);
+        for (const [end, id] of [['source', edge.source], ['target', edge.target]] as const) {
+            if (!nodesById.has(id)) {
+                diagnostics.push({
+                    rule: 'dangling_edge',
+                    severity: 'error',
+                    message: `Edge "${edge.id}" references non-existent ${end} node "${id}"`,
+                    edgeId: edge.id,
+                });
+            }
+        }
+    }
+
+    for (const node of flow.nodes) {
+        for (const { label, target } of configTargets(node)) {
+            if (!target) {
+                diagnostics.push({
+                    rule: 'missing_target',
+                    severity: 'warning',
+                    message: `Node "${node.name}" has no target for ${label}`,
+                    nodeId: node.id,
+                });
+            } else if (!nodesById.has(target)) {
+                diagnostics.push({
+                    rule: 'dangling_target',
+                    severity: 'error',
+                    message: `Node "${node.name}" routes ${label} to non-existent node "${target}"`,
+                    nodeId: node.id,
+                });
+            }
+        }
+
+        // Without an Escalate node as target, the tool node escalates directly
+        if (node.type === 'tool_call' && node.config.onError?.action === 'escalate') {
+            const target = nodesById.get(node.config.onError.targetNodeId ?? '');
+            if (target && target.type !== 'escalate') {
+                diagnostics.push({
+                    rule: 'invalid_escalate_target',
+                    severity: 'warning',
+                    message: `Node "${node.name}" escalates errors to "${target.name}", which is not an Escalate node; it escalates directly instead`,
+                    nodeId: node.id,
+                });
+            }
+        }
+
+        for (const template of nodeTemplates(node)) {
+            for (const expression of template ? parseTemplate(template) : []) {
+                for (const filter of expression.filters) {
+                    const problem = filterProblem(filter);
+                    if (!problem) continue;
+                    diagnostics.push({
+                        rule: 'invalid_filter',
+                        severity: 'warning',
+                        message: `Node "${node.name}" uses filter "${filter.name}" in ${expression.raw}: ${problem}`,
+                        nodeId: node.id,
+                    });
+                }
+            }
+        }
+
+        for (const { variable, expression, validator } of nodeExpressions(node)) {
+            try {
+                extractExpressionVariables(expression);
+            } catch (error) {
+                diagnostics.push({
+                    rule: 'invalid_expression',
+                    severity: 'error',
+                    message: `Node "${node.name}" ${validator ? 'validates' : 'sets'} "${variable}" ${validator ? 'with' : 'from'} an invalid expression: ${(error as Error).message}`,
+                    nodeId: node.id,
+                    variable,
+                });
+            }
+        }
+
+        for (const edge of ignoredEdges(flow, node)) {
+            diagnostics.push({
+                rule: 'ignored_edge',
+                severity: 'warning',
+                message: `Edge from "${node.name}" to "${nodesById.get(edge.target)?.name ?? edge.target}" is never followed`,
+                nodeId: node.id,
+                edgeId: edge.id,
+            });
+        }
+    }
+
+    // Reachability from the entry node
+    const next = new Map(flow.nodes.map(n => [n.id, successors(flow, n, nodesById)]));
+    const reachable: string[] = [];
+    if (entry) {
+        const seen = new Set([entry.id]);
+        for (let i = 0, queue = [entry.id]; i < queue.length; i++) {
+            reachable.push(queue[i]);
+            for (const id of next.get(queue[i]) ?? []) {
+                if (!seen.has(id)) {
+                    seen.add(id);
+                    queue.push(id);
+                }
+            }
+        }
+
+        for (const node of flow.nodes) {
+            if (!seen.has(node.id)) {
+                diagnostics.push({
+                    rule: 'unreachable_node',
+                    severity: 'warning',
+                    message: `Node "${node.name}" can never be reached from the Start node`,
+                    nodeId: node.id,
+                });
+            }
+        }
+    }
+
+    // Cycles that never stop for input. One with an edge or branch out of it
+    // (e.g. a bounded retry) may still end; one without always hits maxSteps
+    const loopable = reachable.filter(id => !INPUT_NODE_TYPES.has(nodesById.get(id)!.type));
+    for (const cycle of findCycles(loopable, next)) {
+        const names = cycle.map(id => `"${nodesById.get(id)!.name}"`).join(' → ');
+        const members = new Set(cycle);
+        const canExit = cycle.some(id => next.get(id)!.some(target => !members.has(target)));
+        diagnostics.push({
+            rule: 'input_free_cycle',
+            severity: canExit ? 'warning' : 'error',
+            message: canExit
+                ? `Nodes ${names} loop without waiting for input; make sure a branch leaves the loop before maxSteps`
+                : `Nodes ${names} form a loop that never waits for input and has no way out`,
+            nodeId: cycle[0],
+        });
+    }
+
+    diagnostics.push(...analyzeVariables(flow, reachable, nodesById, next));
+
+    return {
+        valid: !diagnostics.some(d => d.severity === 'error'),
+        diagnostics,
+    };
+}
+
+/**
+ * Parse a flow against the spec schema, then analyze it. Schema problems
+ * are reported as `invalid_schema` errors; analysis only runs once the
+ * flow parses.
+ */
+export function checkFlow(data: unknown): FlowAnalysis {
+    const parsed = FlowDefinitionSchema.safeParse(data);
+    if (parsed.success) {
+        return analyzeFlow(parsed.data as FlowDefinition);
+    }
+
+    const nodes = (data as { nodes?: unknown })?.nodes;
+    const diagnostics: FlowDiagnostic[] = parsed.error.issues.map(issue => {
+        const [field, index] = issue.path;
+        const node = field === 'nodes' && Array.isArray(nodes) && typeof index === 'number'
+            ? nodes[index] as { id?: unknown } | undefined
+            : undefined;
+
+        return {
+            rule: 'invalid_schema',
+            severity: 'error',
+            message: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+            nodeId: typeof node?.id === 'string' ? node.id : undefined,
+        };
+    });
+
+    return { valid: false, diagnostics };
+}
+
+/**
+ * Node IDs a node's config routes to
+ */
+function configTargets(node: FlowNode): BranchTarget[] {
+    switch (node.type) {
+        case 'llm_router':
+            return (node.config.intents ?? []).map(intent => ({
+                label: `intent "${intent.name}"`,
+                target: intent.targetNodeId,
+            }));
+        case 'condition': {
+            const targets = (node.config.conditions ?? []).map(rule => ({
+                label: `condition "${rule.id}"`,
+                target: rule.targetNodeId,
+            }));
+            if (node.config.defaultNodeId) {
+                targets.push({ label: 'the default branch', target: node.config.defaultNodeId });
+            }
+            return targets;
+        }
+        case 'collect_input':
+        case 'slot_fill':
+            return node.config.timeout?.timeoutNodeId
+                ? [{ label: 'timeout', target: node.config.timeout.timeoutNodeId }]
+                : [];
+        case 'tool_call':
+            return node.config.onError?.targetNodeId
+                ? [{ label: 'errors', target: node.config.onError.targetNodeId }]
+                : [];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Nodes the engine may move to after this one: config targets, plus the
+ * first outgoing edge it follows when no target was chosen
+ */
+function successors(flow: FlowDefinition, node: FlowNode, nodesById: Map<string, FlowNode>): string[] {
+    if (TERMINAL_NODE_TYPES.has(node.type)) return [];
+
+    const next = new Set(configTargets(node).map(t => t.target));
+    const firstEdge = flow.edges.find(e => e.source === node.id);
+    if (firstEdge) next.add(firstEdge.target);
+
+    return [...next].filter(id => nodesById.has(id));
+}
+
+/**
+ * Outgoing edges the engine never follows
+ */
+function ignoredEdges(flow: FlowDefinition, node: FlowNode): FlowEdge[] {
+    const outgoing = flow.edges.filter(e => e.source === node.id);
+    if (TERMINAL_NODE_TYPES.has(node.type)) return outgoing;
+
+    const targets = new Set(configTargets(node).map(t => t.target));
+    return outgoing.filter((edge, i) => i > 0 && !targets.has(edge.target));
+}
+
+/**
+ * Strongly connected components that contain a cycle (Tarjan's algorithm)
+ */
+function findCycles(nodeIds: string[], next: Map<string, string[]>): string[][] {
+    const included = new Set(nodeIds);
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+
+    const visit = (id: string) => {
+        index.set(id, index.size);
+        lowLink.set(id, index.get(id)!);
+        stack.push(id);
+        onStack.add(id);
+
+        for (const target of next.get(id) ?? []) {
+            if (!included.has(target)) continue;
+            if (!index.has(target)) {
+                visit(target);
+                lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(target)!));
+            } else if (onStack.has(target)) {
+                lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!));
+            }
+        }
+
+        if (lowLink.get(id) === index.get(id)) {
+            const component: string[] = [];
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                component.unshift(member);
+            } while (member !== id);
+
+            if (component.length > 1 || next.get(id)?.includes(id)) {
+                cycles.push(component);
+            }
+        }
+    };
+
+    for (const id of nodeIds) {
+        if (!index.has(id)) visit(id);
+    }
+    return cycles;
+}
+
+/**
+ * Root variables a node reads through templates and condition paths.
+ * With `requiredOnly`, template reads that have a `default` filter are skipped.
+ */
+function nodeReads(node: FlowNode, requiredOnly = false): string[] {
+    switch (node.type) {
+        case 'collect_input':
+            if (node.config.validation?.type === 'custom' && node.config.validation.customValidator) {
+                return [
+                    ...templateReads(nodeTemplates(node), requiredOnly),
+                    ...expressionReads(node.config.validation.customValidator).filter(root => root !== 'value'),
+                ];
+            }
+            break;
+        case 'slot_fill':
+            return slotFillReads(node, requiredOnly);
+        case 'condition':
+            return (node.config.conditions ?? []).filter(rule => rule.variable).map(rule => pathRoot(rule.variable));
+        case 'set_variable':
+            return assignmentReads(node.config.assignments ?? [], requiredOnly);
+        case 'subflow':
+            return Object.values(node.config.inputs ?? {}).flatMap(expressionReads);
+    }
+
+    return templateReads(nodeTemplates(node), requiredOnly);
+}
+
+/**
+ * Templates in a node's config
+ */
+function nodeTemplates(node: FlowNode): Array<string | undefined> {
+    switch (node.type) {
+        case 'start':
+            return [node.config.welcomeMessage];
+        case 'message':
+            return [node.config.message];
+        case 'collect_input':
+            return [node.config.prompt];
+        case 'slot_fill':
+            return [
+                node.config.prompt,
+                node.config.confirmation?.message,
+                node.config.confirmation?.rejectMessage,
+                ...(node.config.slots ?? []).flatMap(slot => [slot.prompt, slot.errorMessage]),
+            ];
+        case 'llm_router':
+            return [node.config.systemPrompt];
+        case 'llm_response':
+            return [node.config.systemPrompt, node.config.userMessage];
+        case 'knowledge_search':
+            return [node.config.query];
+        case 'tool_call':
+            return collectStrings(node.config.inputs);
+        case 'set_variable':
+            return (node.config.assignments ?? [])
+                .filter(assignment => assignment.mode === 'template' && typeof assignment.value === 'string')
+                .map(assignment => String(assignment.value));
+        case 'escalate':
+            return [node.config.handoffMessage];
+        case 'end':
+            return [node.config.message];
+        default:
+            return [];
+    }
+}
+
+function templateReads(templates: Array<string | undefined>, requiredOnly: boolean): string[] {
+    return templates.flatMap(template => (template ? parseTemplate(template) : []))
+        .filter(expression => !requiredOnly || !expression.filters.some(f => f.name === 'default'))
+        .map(expression => expression.root);
+}
+
+/**
+ * Variables a slot_fill node's prompts and validators read, other than its
+ * own slots (which it may have filled by the time they are read)
+ */
+function slotFillReads(node: SlotFillNode, requiredOnly: boolean): string[] {
+    const slots = node.config.slots ?? [];
+    const own = new Set([...slots.map(slot => slot.name), 'value']);
+
+    return [
+        ...templateReads(nodeTemplates(node), requiredOnly),
+        ...slots.flatMap(slot => (slot.validator ? expressionReads(slot.validator) : [])),
+    ].filter(root => !own.has(root));
+}
+
+/**
+ * Variables a set_variable node reads before assigning them itself.
+ * Invalid expressions are reported separately and read nothing.
+ */
+function assignmentReads(assignments: VariableAssignment[], requiredOnly: boolean): string[] {
+    const assigned = new Set<string>();
+    const reads: string[] = [];
+
+    for (const assignment of assignments) {
+        let roots: string[] = [];
+        if (assignment.mode === 'template' && typeof assignment.value === 'string') {
+            roots = parseTemplate(assignment.value)
+                .filter(expression => !requiredOnly || !expression.filters.some(f => f.name === 'default'))
+                .map(expression => expression.root);
+        } else if (assignment.mode === 'expression') {
+            roots = expressionReads(String(assignment.value));
         }
-        if (!findNode(flow, edge.target)) {
-            errors.push(`Edge "${edge.id}" references non-existent target node "${edge.target}"`);
+
+        reads.push(...roots.filter(root => !assigned.has(root)));
+        assigned.add(assignment.variable);
+    }
+
+    return reads;
+}
+
+/**
+ * Root variables an expression reads; invalid expressions read nothing
+ */
+function expressionReads(expression: string): string[] {
+    try {
+        return extractExpressionVariables(expression);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Expressions in a node's config, by the variable each one sets or validates
+ */
+function nodeExpressions(node: FlowNode): Array<{ variable: string; expression: string; validator?: boolean }> {
+    switch (node.type) {
+        case 'set_variable':
+            return (node.config.assignments ?? [])
+                .filter(assignment => assignment.mode === 'expression')
+                .map(assignment => ({ variable: assignment.variable, expression: String(assignment.value) }));
+        case 'subflow':
+            return [...Object.entries(node.config.inputs ?? {}), ...Object.entries(node.config.outputs ?? {})]
+                .map(([variable, expression]) => ({ variable, expression }));
+        case 'collect_input':
+            return node.config.validation?.type === 'custom' && node.config.validation.customValidator
+                ? [{ variable: node.config.variableName, expression: node.config.validation.customValidator, validator: true }]
+                : [];
+        case 'slot_fill':
+            return (node.config.slots ?? [])
+                .filter(slot => slot.validator)
+                .map(slot => ({ variable: slot.name, expression: slot.validator!, validator: true }));
+        default:
+            return [];
+    }
+}
+
+/**
+ * Variables the runtime reads on a node's behalf when they are present
+ */
+function implicitReads(node: FlowNode): string[] {
+    return node.type === 'llm_router' ? ['user_message', 'customer_message'] : [];
+}
+
+/**
+ * Variables a node assigns from its config
+ */
+function nodeWrites(node: FlowNode): string[] {
+    switch (node.type) {
+        case 'start':
+            return Object.keys(node.config.initVariables ?? {});
+        case 'collect_input':
+            return node.config.variableName ? [node.config.variableName] : [];
+        case 'slot_fill':
+            return (node.config.slots ?? []).map(slot => slot.name).filter(Boolean);
+        case 'knowledge_search':
+        case 'tool_call':
+            return node.config.resultVariable ? [node.config.resultVariable] : [];
+        case 'set_variable':
+            return (node.config.assignments ?? []).map(assignment => assignment.variable).filter(Boolean);
+        case 'subflow':
+            return Object.keys(node.config.outputs ?? {});
+        case 'llm_response': {
+            const properties = node.config.schema?.properties;
+            return [
+                ...(node.config.resultVariable ? [node.config.resultVariable] : []),
+                ...(properties && typeof properties === 'object' ? Object.keys(properties) : []),
+            ];
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * Bookkeeping variables the runtime sets as a side effect of a node
+ */
+function implicitWrites(node: FlowNode): string[] {
+    switch (node.type) {
+        case 'collect_input':
+            return [`${node.config.variableName}_attempts`];
+        case 'slot_fill':
+            return ['slot_fill_state'];
+        case 'llm_router':
+            return ['last_intent', 'last_confidence'];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Forward dataflow over reachable nodes: a read is undefined when no path
+ * from the entry writes the variable first, and possibly undefined when
+ * only some paths do
+ */
+function analyzeVariables(
+    flow: FlowDefinition,
+    reachable: string[],
+    nodesById: Map<string, FlowNode>,
+    next: Map<string, string[]>
+): FlowDiagnostic[] {
+    const diagnostics: FlowDiagnostic[] = [];
+    const declared = new Set((flow.variables ?? []).map(v => v.name));
+    const writes = new Map(flow.nodes.map(n => [n.id, [...nodeWrites(n), ...implicitWrites(n)]]));
+
+    const predecessors = new Map<string, string[]>(reachable.map(id => [id, []]));
+    for (const id of reachable) {
+        for (const target of next.get(id) ?? []) {
+            predecessors.get(target)?.push(id);
+        }
+    }
+
+    // `may`: written on some path; `must`: written on every path (null = not yet computed)
+    const mayIn = new Map<string, Set<string>>();
+    const mustIn = new Map<string, Set<string> | null>(reachable.map(id => [id, null]));
+    const out = (sets: Map<string, Set<string> | null>, id: string) => {
+        const set = sets.get(id);
+        return set ? new Set([...set, ...writes.get(id)!]) : null;
+    };
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const [i, id] of reachable.entries()) {
+            let may: Set<string>;
+            let must: Set<string> | null;
+
+            if (i === 0) {
+                // Declared and initial variables are set before the entry node runs
+                may = new Set([...declared, ...writes.get(id)!]);
+                must = new Set(may);
+            } else {
+                const incoming = predecessors.get(id)!;
+                may = new Set(incoming.flatMap(p => [...(out(mayIn, p) ?? [])]));
+                const computed = incoming.map(p => out(mustIn, p)).filter((s): s is Set<string> => s !== null);
+                must = computed.length === 0
+                    ? null
+                    : new Set([...computed[0]].filter(v => computed.every(s => s.has(v))));
+            }
+
+            if (!sameSet(mayIn.get(id), may) || !sameSet(mustIn.get(id) ?? undefined, must ?? undefined)) {
+                mayIn.set(id, may);
+                mustIn.set(id, must);
+                changed = true;
+            }
+        }
+    }
+
+    for (const id of reachable) {
+        const node = nodesById.get(id)!;
+        for (const variable of new Set(nodeReads(node, true))) {
+            if (!mayIn.get(id)?.has(variable)) {
+                diagnostics.push({
+                    rule: 'undefined_variable',
+                    severity: 'warning',
+                    message: `Node "${node.name}" reads "${variable}" before any node sets it`,
+                    nodeId: id,
+                    variable,
+                });
+            } else if (!mustIn.get(id)?.has(variable)) {
+                diagnostics.push({
+                    rule: 'possibly_undefined_variable',
+                    severity: 'info',
+                    message: `Node "${node.name}" reads "${variable}", which is not set on every path`,
+                    nodeId: id,
+                    variable,
+                });
+            }
         }
     }
 
-    // Check for cycles that don't go through an input node (infinite loops)
-    // This is a simplified check - a full cycle detection would be more complex
-    const hasEndNode = flow.nodes.some(n => n.type === 'end');
-    if (!hasEndNode) {
-        errors.push('Flow must have at least one End node');
+    // Declared or assigned variables nothing reads
+    const read = new Set(flow.nodes.flatMap(n => [...nodeReads(n), ...implicitReads(n)]));
+    const reported = new Set<string>();
+    const reportUnused = (variable: string, nodeId?: string) => {
+        if (read.has(variable) || reported.has(variable)) return;
+        reported.add(variable);
+        diagnostics.push({
+            rule: 'unused_variable',
+            severity: 'warning',
+            message: `Variable "${variable}" is ${nodeId ? 'set' : 'declared'} but never read`,
+            nodeId,
+            variable,
+        });
+    };
+
+    for (const variable of declared) reportUnused(variable);
+    for (const node of flow.nodes) {
+        for (const variable of nodeWrites(node)) reportUnused(variable, node.id);
     }
 
-    return { valid: errors.length === 0, errors };
+    return diagnostics;
+}
+
+function collectStrings(value: unknown): string[] {
+    if (typeof value === 'string') return [value];
+    if (Array.isArray(value)) return value.flatMap(collectStrings);
+    if (isPlainObject(value)) return Object.values(value).flatMap(collectStrings);
+    return [];
+}
+
+function sameSet(a: Set<string> | undefined, b: Set<string> | undefined): boolean {
+    if (!a || !b) return a === b;
+    return a.size === b.size && [...a].every(v => b.has(v));
+}
+
+// ============================================================================
+// Flow Diff
+// ============================================================================
+
+/** Flow-level fields compared by diffFlows (metadata timestamps are ignored) */
+const DIFFED_FLOW_FIELDS = ['name', 'description', 'entryNode', 'variables', 'tools'] as const;
+
+/**
+ * Compute a structural diff between two flow definitions.
+ * Nodes and edges are matched by ID; node positions are ignored.
+ */
+export function diffFlows(from: FlowDefinition, to: FlowDefinition): FlowDiff {
+    const flow: FieldChange[] = [];
+    for (const field of DIFFED_FLOW_FIELDS) {
+        diffValues(from[field], to[field], field, flow);
+    }
+
+    const fromNodes = new Map(from.nodes.map(n => [n.id, n]));
+    const toNodes = new Map(to.nodes.map(n => [n.id, n]));
+    const changedNodes: FlowDiff['nodes']['changed'] = [];
+
+    for (const [id, after] of toNodes) {
+        const before = fromNodes.get(id);
+        if (!before) continue;
+
+        const changes: FieldChange[] = [];
+        diffValues({ ...before, position: undefined }, { ...after, position: undefined }, '', changes);
+        if (changes.length > 0) {
+            changedNodes.push({ id, name: after.name, changes });
+        }
+    }
+
+    const fromEdges = new Map(from.edges.map(e => [e.id, e]));
+    const toEdges = new Map(to.edges.map(e => [e.id, e]));
+    const changedEdges: FlowDiff['edges']['changed'] = [];
+
+    for (const [id, after] of toEdges) {
+        const before = fromEdges.get(id);
+        if (!before) continue;
+
+        const changes: FieldChange[] = [];
+        diffValues(before, after, '', changes);
+        if (changes.length > 0) {
+            changedEdges.push({ id, changes });
+        }
+    }
+
+    return {
+        flow,
+        nodes: {
+            added: to.nodes.filter(n => !fromNodes.has(n.id)),
+            removed: from.nodes.filter(n => !toNodes.has(n.id)),
+            changed: changedNodes,
+        },
+        edges: {
+            added: to.edges.filter(e => !fromEdges.has(e.id)),
+            removed: from.edges.filter(e => !toEdges.has(e.id)),
+            changed: changedEdges,
+        },
+    };
+}
+
+/**
+ * Recursively collect leaf-level differences between two JSON values
+ */
+function diffValues(before: unknown, after: unknown, path: string, changes: FieldChange[]): void {
+    if (before === after) return;
+
+    if (Array.isArray(before) && Array.isArray(after)) {
+        const length = Math.max(before.length, after.length);
+        for (let i = 0; i < length; i++) {
+            diffValues(before[i], after[i], `${path}[${i}]`, changes);
+        }
+        return;
+    }
+
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+        for (const key of keys) {
+            diffValues(before[key], after[key], path ? `${path}.${key}` : key, changes);
+        }
+        return;
+    }
+
+    changes.push({ path, before, after });
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
 // ============================================================================
@@ -178,6 +1120,47 @@ export function cloneSession(session: SessionState): SessionState {
         variables: { ...session.variables },
         history: [...session.history],
         metadata: session.metadata ? { ...session.metadata } : undefined,
+        frames: session.frames?.map(frame => ({ ...frame })),
+        usage: session.usage && { ...session.usage, byFlow: { ...session.usage.byFlow } },
+    };
+}
+
+/**
+ * Usage with no AI calls
+ */
+export function emptyUsage(): AIUsage {
+    return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+/**
+ * Combined usage of two totals
+ */
+export function sumUsage(a: AIUsage, b: AIUsage): AIUsage {
+    return {
+        calls: a.calls + b.calls,
+        inputTokens: a.inputTokens + b.inputTokens,
+        outputTokens: a.outputTokens + b.outputTokens,
+        cost: a.cost + b.cost,
+    };
+}
+
+/**
+ * Add one AI call to a session's usage, in total and for the flow that made it
+ */
+export function addSessionUsage(usage: SessionUsage | undefined, flowId: string, call: AICallUsage): SessionUsage {
+    const callUsage: AIUsage = {
+        calls: 1,
+        inputTokens: call.inputTokens,
+        outputTokens: call.outputTokens,
+        cost: call.cost ?? 0,
+    };
+
+    return {
+        ...sumUsage(usage ?? emptyUsage(), callUsage),
+        byFlow: {
+            ...usage?.byFlow,
+            [flowId]: sumUsage(usage?.byFlow[flowId] ?? emptyUsage(), callUsage),
+        },
     };
 }
 
@@ -267,6 +1250,288 @@ export function evaluateCondition(
     }
 }
 
+// ============================================================================
+// Expression Evaluation
+// ============================================================================
+
+/**
+ * Thrown when an expression can't be parsed or evaluated
+ */
+export class ExpressionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ExpressionError';
+    }
+}
+
+type ExpressionNode =
+    | { kind: 'literal'; value: unknown }
+    | { kind: 'path'; path: string }
+    | { kind: 'call'; name: string; args: ExpressionNode[] }
+    | { kind: 'unary'; operator: string; operand: ExpressionNode }
+    | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+type ExpressionToken =
+    | { kind: 'number'; value: number }
+    | { kind: 'string'; value: string }
+    | { kind: 'path'; value: string }
+    | { kind: 'operator'; value: string };
+
+const EXPRESSION_TOKEN_PATTERN =
+    /\s*(?:(\d+(?:\.\d+)?)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([A-Za-z_]\w*(?:\.\w+|\[\d+\])*)|(\|\||&&|[=!<>]=|[-+*/%<>!(),]))/y;
+
+const EXPRESSION_KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/** Binary operators by precedence, loosest first */
+const BINARY_PRECEDENCE = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+/**
+ * Functions expressions may call
+ */
+const EXPRESSION_FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+    min: (...args) => Math.min(...args.map(toNumber)),
+    max: (...args) => Math.max(...args.map(toNumber)),
+    round: (value, digits = 0) => {
+        const factor = 10 ** toNumber(digits);
+        return Math.round(toNumber(value) * factor) / factor;
+    },
+    floor: (value) => Math.floor(toNumber(value)),
+    ceil: (value) => Math.ceil(toNumber(value)),
+    abs: (value) => Math.abs(toNumber(value)),
+    length: (value) => (Array.isArray(value) || typeof value === 'string' ? value.length : 0),
+    upper: (value) => stringify(value).toUpperCase(),
+    lower: (value) => stringify(value).toLowerCase(),
+    trim: (value) => stringify(value).trim(),
+    number: (value) => toNumber(value),
+    string: (value) => stringify(value),
+};
+
+/**
+ * Evaluate a safe expression against session variables
+ *
+ * Supports numbers, quoted strings, `true`/`false`/`null`, variable paths
+ * (`order.items[0].price`), arithmetic (`+ - * / %`), comparisons
+ * (`== != < <= > >=`), `&& || !`, parentheses and the functions in
+ * `EXPRESSION_FUNCTIONS`. Nothing else is reachable: no property calls,
+ * globals or assignment.
+ *
+ * Missing variables count as 0 in arithmetic so counters work without
+ * initialization, and numeric strings (as collected from users) are treated
+ * as numbers; `+` concatenates when either side isn't numeric.
+ */
+export function evaluateExpression(expression: string, variables: Record<string, unknown>): unknown {
+    return evaluateNode(parseExpression(expression), variables);
+}
+
+/**
+ * Extract the root variable names an expression reads
+ */
+export function extractExpressionVariables(expression: string): string[] {
+    const roots = new Set<string>();
+    const visit = (node: ExpressionNode): void => {
+        switch (node.kind) {
+            case 'path':
+                roots.add(pathRoot(node.path));
+                break;
+            case 'call':
+                node.args.forEach(visit);
+                break;
+            case 'unary':
+                visit(node.operand);
+                break;
+            case 'binary':
+                visit(node.left);
+                visit(node.right);
+                break;
+        }
+    };
+
+    visit(parseExpression(expression));
+    return [...roots];
+}
+
+function parseExpression(expression: string): ExpressionNode {
+    const tokens = tokenizeExpression(expression);
+    let position = 0;
+
+    const peek = (): ExpressionToken | undefined => tokens[position];
+    const isOperator = (value: string): boolean => {
+        const token = peek();
+        return token?.kind === 'operator' && token.value === value;
+    };
+    const expect = (value: string): void => {
+        if (!isOperator(value)) throw new ExpressionError(`Expected "${value}" in expression "${expression}"`);
+        position++;
+    };
+
+    const parseBinary = (level: number): ExpressionNode => {
+        if (level === BINARY_PRECEDENCE.length) return parseUnary();
+
+        let left = parseBinary(level + 1);
+        for (;;) {
+            const token = peek();
+            if (token?.kind !== 'operator' || !BINARY_PRECEDENCE[level].includes(token.value)) return left;
+            position++;
+            left = { kind: 'binary', operator: token.value, left, right: parseBinary(level + 1) };
+        }
+    };
+
+    const parseUnary = (): ExpressionNode => {
+        if (isOperator('!') || isOperator('-')) {
+            const operator = (tokens[position++] as { value: string }).value;
+            return { kind: 'unary', operator, operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[position++];
+        if (!token) throw new ExpressionError(`Unexpected end of expression "${expression}"`);
+
+        switch (token.kind) {
+            case 'number':
+            case 'string':
+                return { kind: 'literal', value: token.value };
+            case 'path': {
+                if (token.value in EXPRESSION_KEYWORDS) {
+                    return { kind: 'literal', value: EXPRESSION_KEYWORDS[token.value] };
+                }
+                if (!isOperator('(')) return { kind: 'path', path: token.value };
+
+                if (!Object.hasOwn(EXPRESSION_FUNCTIONS, token.value)) {
+                    throw new ExpressionError(`Unknown function "${token.value}"`);
+                }
+                position++;
+                const args: ExpressionNode[] = [];
+                while (!isOperator(')')) {
+                    if (args.length > 0) expect(',');
+                    args.push(parseBinary(0));
+                }
+                position++;
+                return { kind: 'call', name: token.value, args };
+            }
+            case 'operator':
+                if (token.value === '(') {
+                    const inner = parseBinary(0);
+                    expect(')');
+                    return inner;
+                }
+                throw new ExpressionError(`Unexpected "${token.value}" in expression "${expression}"`);
+        }
+    };
+
+    const root = parseBinary(0);
+    if (position < tokens.length) {
+        throw new ExpressionError(`Unexpected "${tokens[position].value}" in expression "${expression}"`);
+    }
+    return root;
+}
+
+function tokenizeExpression(expression: string): ExpressionToken[] {
+    const tokens: ExpressionToken[] = [];
+    const pattern = new RegExp(EXPRESSION_TOKEN_PATTERN);
+    let position = 0;
+
+    while (position < expression.length) {
+        if (!expression.slice(position).trim()) break;
+
+        pattern.lastIndex = position;
+        const match = pattern.exec(expression);
+        if (!match) {
+            throw new ExpressionError(`Unexpected character at position ${position} in expression "${expression}"`);
+        }
+        position = pattern.lastIndex;
+
+        const [, number, doubleQuoted, singleQuoted, path, operator] = match;
+        if (number !== undefined) tokens.push({ kind: 'number', value: Number(number) });
+        else if (doubleQuoted !== undefined) tokens.push({ kind: 'string', value: unescape(doubleQuoted) });
+        else if (singleQuoted !== undefined) tokens.push({ kind: 'string', value: unescape(singleQuoted) });
+        else if (path !== undefined) tokens.push({ kind: 'path', value: path });
+        else tokens.push({ kind: 'operator', value: operator });
+    }
+
+    if (tokens.length === 0) throw new ExpressionError('Expression is empty');
+    return tokens;
+}
+
+function unescape(text: string): string {
+    return text.replace(/\\(.)/g, '$1');
+}
+
+function evaluateNode(node: ExpressionNode, variables: Record<string, unknown>): unknown {
+    switch (node.kind) {
+        case 'literal':
+            return node.value;
+        case 'path': {
+            const value = getPath(variables, node.path);
+            return typeof value === 'function' ? undefined : value;
+        }
+        case 'call':
+            return EXPRESSION_FUNCTIONS[node.name](...node.args.map(arg => evaluateNode(arg, variables)));
+        case 'unary': {
+            const operand = evaluateNode(node.operand, variables);
+            return node.operator === '!' ? !operand : -toNumber(operand);
+        }
+        case 'binary': {
+            const left = evaluateNode(node.left, variables);
+            // Short-circuit like JavaScript, returning the deciding operand
+            if (node.operator === '&&') return left ? evaluateNode(node.right, variables) : left;
+            if (node.operator === '||') return left ? left : evaluateNode(node.right, variables);
+            return applyBinary(node.operator, left, evaluateNode(node.right, variables));
+        }
+    }
+}
+
+function applyBinary(operator: string, left: unknown, right: unknown): unknown {
+    switch (operator) {
+        case '+':
+            return isNumeric(left) && isNumeric(right)
+                ? toNumber(left) + toNumber(right)
+                : stringify(left) + stringify(right);
+        case '-':
+            return toNumber(left) - toNumber(right);
+        case '*':
+            return toNumber(left) * toNumber(right);
+        case '/':
+        case '%': {
+            const divisor = toNumber(right);
+            if (divisor === 0) throw new ExpressionError('Division by zero');
+            return operator === '/' ? toNumber(left) / divisor : toNumber(left) % divisor;
+        }
+        case '==':
+            return looseEquals(left, right);
+        case '!=':
+            return !looseEquals(left, right);
+        default: {
+            const [a, b] = isNumeric(left) && isNumeric(right)
+                ? [toNumber(left), toNumber(right)]
+                : [stringify(left), stringify(right)];
+            if (operator === '<') return a < b;
+            if (operator === '<=') return a <= b;
+            if (operator === '>') return a > b;
+            return a >= b;
+        }
+    }
+}
+
+function isNumeric(value: unknown): boolean {
+    if (value === undefined || value === null || typeof value === 'number' || typeof value === 'boolean') return true;
+    return typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value));
+}
+
+function toNumber(value: unknown): number {
+    if (!isNumeric(value)) {
+        throw new ExpressionError(`Expected a number but got ${JSON.stringify(value)}`);
+    }
+    return Number(value ?? 0);
+}
+
+function looseEquals(left: unknown, right: unknown): boolean {
+    if (left === right) return true;
+    if (left === undefined || left === null || right === undefined || right === null) return false;
+    return stringify(left) === stringify(right);
+}
+
 // ============================================================================
 // Deep Clone
 // ============================================================================
@@ -321,10 +1586,14 @@ export const NODE_COLORS: Record<string, { bg: string; border: string; text: str
     start: { bg: '#10b981', border: '#059669', text: '#ffffff' },
     message: { bg: '#3b82f6', border: '#2563eb', text: '#ffffff' },
     collect_input: { bg: '#8b5cf6', border: '#7c3aed', text: '#ffffff' },
+    slot_fill: { bg: '#d946ef', border: '#c026d3', text: '#ffffff' },
     llm_router: { bg: '#f59e0b', border: '#d97706', text: '#ffffff' },
+    llm_response: { bg: '#eab308', border: '#ca8a04', text: '#ffffff' },
     knowledge_search: { bg: '#06b6d4', border: '#0891b2', text: '#ffffff' },
     tool_call: { bg: '#ec4899', border: '#db2777', text: '#ffffff' },
     condition: { bg: '#f97316', border: '#ea580c', text: '#ffffff' },
+    set_variable: { bg: '#14b8a6', border: '#0d9488', text: '#ffffff' },
+    subflow: { bg: '#6366f1', border: '#4f46e5', text: '#ffffff' },
     escalate: { bg: '#ef4444', border: '#dc2626', text: '#ffffff' },
     end: { bg: '#6b7280', border: '#4b5563', text: '#ffffff' },
 };
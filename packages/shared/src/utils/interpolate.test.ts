@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import type { FlowDefinition } from '../types';
+import { interpolate, getPath, parseTemplate, extractVariables, analyzeFlow } from './index';
+
+describe('interpolate', () => {
+    const variables = {
+        name: 'Ada',
+        order: { id: 'ORD-1', total: 12.5, items: [{ name: 'Lamp' }], ship_date: '2024-03-05T12:00:00Z' },
+        empty: '',
+    };
+
+    it('reads nested paths and array indexes', () => {
+        expect(interpolate('{{name}} ordered {{order.items[0].name}}', variables)).toBe('Ada ordered Lamp');
+    });
+
+    it('leaves missing expressions as written', () => {
+        expect(interpolate('Hi {{missing}} {{order.nope}}', variables)).toBe('Hi {{missing}} {{order.nope}}');
+    });
+
+    it('renders objects as JSON', () => {
+        expect(interpolate('{{order.items}}', variables)).toBe('[{"name":"Lamp"}]');
+    });
+
+    it('applies filters left to right', () => {
+        expect(interpolate('{{missing | default:"there" | upper}}', variables)).toBe('THERE');
+        expect(interpolate('{{empty | default:"none"}}', variables)).toBe('none');
+        expect(interpolate('{{name | lower}}', variables)).toBe('ada');
+    });
+
+    it('skips filters other than default on missing values', () => {
+        expect(interpolate('{{missing | upper}}', variables)).toBe('{{missing | upper}}');
+    });
+
+    it('formats currency and dates', () => {
+        expect(interpolate('{{order.total | currency}}', variables)).toBe('$12.50');
+        expect(interpolate('{{order.total | currency:"EUR", "de-DE"}}', variables)).toBe('12,50 €');
+        expect(interpolate('{{order.ship_date | date:"iso"}}', variables)).toBe('2024-03-05T12:00:00.000Z');
+    });
+
+    it('falls back to the raw value for an unknown currency or locale', () => {
+        expect(interpolate('{{order.total | currency:"DOLLARS"}}', variables)).toBe('12.5');
+        expect(interpolate('{{order.total | currency:"USD", "not a locale!"}}', variables)).toBe('12.5');
+        expect(interpolate('{{order.ship_date | date:"long", "not a locale!"}}', variables)).toBe('2024-03-05T12:00:00Z');
+    });
+
+    it('truncates and serializes', () => {
+        expect(interpolate('{{name | truncate:2}}', variables)).toMatch(/^A/);
+        expect(interpolate('{{order.items | json:2}}', variables)).toBe('[\n  {\n    "name": "Lamp"\n  }\n]');
+    });
+});
+
+describe('getPath', () => {
+    it('does not read inherited properties', () => {
+        expect(getPath({ a: {} }, 'a.constructor')).toBeUndefined();
+        expect(getPath({ a: 'text' }, 'a.constructor')).toBeUndefined();
+        expect(interpolate('{{a.constructor}}', { a: {} })).toBe('{{a.constructor}}');
+    });
+
+    it('does not read into non-plain objects', () => {
+        expect(getPath({ when: new Date(0) }, 'when.getTime')).toBeUndefined();
+    });
+
+    it('reads array elements', () => {
+        expect(getPath({ list: [1, 2] }, 'list[1]')).toBe(2);
+    });
+});
+
+describe('parseTemplate', () => {
+    it('parses paths and filter arguments', () => {
+        const [expression] = parseTemplate('{{ total | currency:"EUR", "de-DE" | truncate:5 }}');
+        expect(expression.path).toBe('total');
+        expect(expression.filters).toEqual([
+            { name: 'currency', args: ['EUR', 'de-DE'] },
+            { name: 'truncate', args: [5] },
+        ]);
+    });
+
+    it('extracts root variables once', () => {
+        expect(extractVariables('{{a.b}} {{a.c}} {{d[0]}}')).toEqual(['a', 'd']);
+    });
+});
+
+describe('analyzeFlow filter checks', () => {
+    function flowWithMessage(message: string): FlowDefinition {
+        return {
+            version: '1.0',
+            id: 'flow',
+            name: 'Flow',
+            entryNode: 'start',
+            variables: [{ name: 'total', type: 'number', defaultValue: 1 }],
+            nodes: [
+                { id: 'start', type: 'start', name: 'Start', position: { x: 0, y: 0 }, config: {} },
+                { id: 'msg', type: 'message', name: 'Total', position: { x: 0, y: 100 }, config: { message } },
+                { id: 'end', type: 'end', name: 'End', position: { x: 0, y: 200 }, config: { status: 'completed' } },
+            ],
+            edges: [
+                { id: 'e1', source: 'start', target: 'msg' },
+                { id: 'e2', source: 'msg', target: 'end' },
+            ],
+            tools: [],
+            metadata: { createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+        };
+    }
+
+    const filterProblems = (message: string) =>
+        analyzeFlow(flowWithMessage(message)).diagnostics.filter(d => d.rule === 'invalid_filter');
+
+    it('accepts valid filter arguments', () => {
+        expect(filterProblems('{{total | currency:"EUR", "de-DE"}} {{total | date:"iso"}} {{total | truncate:5}}')).toEqual([]);
+    });
+
+    it('reports unknown filters and unusable arguments', () => {
+        const problems = filterProblems(
+            '{{total | shout}} {{total | currency:"DOLLARS"}} {{total | date:"weekday"}} {{total | currency:"USD", "not a locale!"}}'
+        );
+        expect(problems.map(p => p.message)).toEqual([
+            expect.stringContaining('unknown filter'),
+            expect.stringContaining('unknown currency "DOLLARS"'),
+            expect.stringContaining('unknown date style "weekday"'),
+            expect.stringContaining('invalid locale "not a locale!"'),
+        ]);
+        expect(problems.every(p => p.nodeId === 'msg' && p.severity === 'warning')).toBe(true);
+    });
+});